@@ -15,6 +15,11 @@ buildNpmPackage {
     # Make design-system available for npm install
     mkdir -p ../infra/design-system
     cp -r ${../infra/design-system}/* ../infra/design-system/
+
+    # Shared sources the bridge imports or tests against
+    mkdir -p ../proxy/src ../translations
+    cp ${../proxy/src/signing.ts} ../proxy/src/signing.ts
+    cp ${../translations/translations.yaml} ../translations/translations.yaml
   '';
 
   dontNpmBuild = true;
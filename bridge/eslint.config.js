@@ -27,6 +27,13 @@ export default tseslint.config(
       ],
     },
   },
+  // Build scripts run in Node
+  {
+    files: ['scripts/**/*.js'],
+    languageOptions: {
+      globals: { console: 'readonly', process: 'readonly', URL: 'readonly' },
+    },
+  },
   {
     ignores: ['dist/**', 'node_modules/**', 'public/**'],
   }
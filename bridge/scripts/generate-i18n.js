@@ -0,0 +1,223 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Generate `src/i18n-catalog.ts` from `translations/translations.yaml`.
+ *
+ * The YAML uses a small subset: nested maps by indentation, quoted or plain
+ * scalar values and `#` comments. A map whose keys are languages is an entry;
+ * any other map is a group whose name prefixes its entries' keys with a dot.
+ * An entry is a text when its values are strings and a plural when they are
+ * maps of CLDR plural categories. The script refuses to write a catalog when
+ * a language, a plural form or a placeholder is missing.
+ *
+ * Usage: npm run i18n
+ */
+
+import * as Crypto from 'node:crypto';
+import * as Fs from 'node:fs';
+
+const LANGUAGES = ['en', 'ru'];
+const SOURCE = new URL('../../translations/translations.yaml', import.meta.url);
+const OUTPUT = new URL('../src/i18n-catalog.ts', import.meta.url);
+
+function scalar(text, lineNumber) {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`line ${lineNumber}: invalid double-quoted string`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      throw new Error(`line ${lineNumber}: unterminated single-quoted string`);
+    }
+    return text.slice(1, -1).replaceAll("''", "'");
+  }
+  return text.replace(/\s+#.*$/, '');
+}
+
+function parse(source) {
+  const root = {};
+  const stack = [{ indent: -1, node: root }];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    if (raw.trim() === '' || raw.trim().startsWith('#')) {
+      return;
+    }
+    const match = /^( *)([A-Za-z0-9_]+):(?: +(.*))?$/.exec(raw.trimEnd());
+    if (!match) {
+      throw new Error(`line ${lineNumber}: expected "key:" or "key: value"`);
+    }
+    const [, spaces, key, value] = match;
+    while (spaces.length <= stack.at(-1).indent) {
+      stack.pop();
+    }
+    const parent = stack.at(-1).node;
+    if (key in parent) {
+      throw new Error(`line ${lineNumber}: duplicate key ${key}`);
+    }
+    if (value === undefined || value.startsWith('#')) {
+      parent[key] = {};
+      stack.push({ indent: spaces.length, node: parent[key] });
+    } else {
+      parent[key] = scalar(value, lineNumber);
+    }
+  });
+  return root;
+}
+
+function placeholders(text) {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+function sameSet(left, right) {
+  return left.length === right.length && left.every(item => right.includes(item));
+}
+
+function collect(node, prefix, catalog, problems) {
+  for (const [name, value] of Object.entries(node)) {
+    const key = prefix + name;
+    if (typeof value === 'string') {
+      problems.push(`${key}: expected a group or an entry`);
+    } else if (Object.keys(value).some(lang => LANGUAGES.includes(lang))) {
+      entry(key, value, catalog, problems);
+    } else {
+      collect(value, `${key}.`, catalog, problems);
+    }
+  }
+}
+
+function entry(key, translations, catalog, problems) {
+  const unknown = Object.keys(translations).filter(lang => !LANGUAGES.includes(lang));
+  const missing = LANGUAGES.filter(lang => !(lang in translations));
+  if (unknown.length > 0) {
+    problems.push(`${key}: unknown language ${unknown.join(', ')}`);
+  }
+  if (missing.length > 0) {
+    problems.push(`${key}: missing ${missing.join(', ')}`);
+    return;
+  }
+
+  const values = LANGUAGES.map(lang => translations[lang]);
+  if (values.every(value => typeof value === 'string')) {
+    const names = values.map(placeholders);
+    if (!names.every(list => sameSet(list, names[0]))) {
+      problems.push(`${key}: placeholders differ between languages`);
+    }
+    catalog.texts.set(key, { translations, placeholders: [...new Set(names[0])] });
+    return;
+  }
+  if (values.some(value => typeof value === 'string')) {
+    problems.push(`${key}: mixes texts and plural forms`);
+    return;
+  }
+
+  for (const lang of LANGUAGES) {
+    const expected = new Intl.PluralRules(lang).resolvedOptions().pluralCategories;
+    const forms = Object.keys(translations[lang]);
+    if (!sameSet(forms, expected)) {
+      problems.push(`${key}: ${lang} needs plural forms ${expected.join(', ')}, got ${forms.join(', ')}`);
+    }
+  }
+  const names = values.map(forms => [...new Set(Object.values(forms).flatMap(placeholders))]);
+  if (!names.every(list => sameSet(list, names[0]))) {
+    problems.push(`${key}: placeholders differ between languages`);
+  }
+  catalog.plurals.set(key, { translations, placeholders: names[0].filter(name => name !== 'count') });
+}
+
+// Printing
+
+function quote(text) {
+  const escaped = JSON.stringify(text).slice(1, -1);
+  if (text.includes("'") && !text.includes('"')) {
+    return `"${escaped}"`;
+  }
+  return `'${escaped.replaceAll('\\"', '"').replaceAll("'", "\\'")}'`;
+}
+
+function property(key) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function render(catalog, hash) {
+  const lines = [
+    '// This Source Code Form is subject to the terms of the Mozilla Public',
+    '// License, v. 2.0. If a copy of the MPL was not distributed with this',
+    '// file, You can obtain one at https://mozilla.org/MPL/2.0/.',
+    '',
+    '// Generated from translations/translations.yaml by scripts/generate-i18n.js.',
+    '// Do not edit: change the YAML and run `npm run i18n`.',
+    '',
+    "import type * as Language from './language';",
+    '',
+    `export const SOURCE_HASH = '${hash}';`,
+    '',
+    alias('TextKey', [...catalog.texts.keys()]),
+    '',
+    alias('PluralKey', [...catalog.plurals.keys()]),
+    '',
+    '// Placeholder names per key, apart from the `{count}` every plural gets',
+    'export interface Placeholders {',
+  ];
+  for (const [key, { placeholders: names }] of [...catalog.texts, ...catalog.plurals]) {
+    lines.push(`  ${property(key)}: ${union(names)};`);
+  }
+  lines.push(
+    '}',
+    '',
+    'export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };',
+    ''
+  );
+
+  lines.push('export const TEXTS: Record<Language.Language, Record<TextKey, string>> = {');
+  for (const lang of LANGUAGES) {
+    lines.push(`  ${lang}: {`);
+    for (const [key, { translations }] of catalog.texts) {
+      lines.push(`    ${property(key)}: ${quote(translations[lang])},`);
+    }
+    lines.push('  },');
+  }
+  lines.push('};', '');
+
+  lines.push('export const PLURALS: Record<Language.Language, Record<PluralKey, PluralForms>> = {');
+  for (const lang of LANGUAGES) {
+    lines.push(`  ${lang}: {`);
+    for (const [key, { translations }] of catalog.plurals) {
+      lines.push(`    ${property(key)}: {`);
+      for (const [form, text] of Object.entries(translations[lang])) {
+        lines.push(`      ${form}: ${quote(text)},`);
+      }
+      lines.push('    },');
+    }
+    lines.push('  },');
+  }
+  lines.push('};', '');
+  return lines.join('\n');
+}
+
+function union(names) {
+  return names.length === 0 ? 'never' : names.map(quote).join(' | ');
+}
+
+// One line when it fits, otherwise one member per line as Prettier prints it
+function alias(name, names) {
+  const line = `export type ${name} = ${union(names)};`;
+  return line.length <= 120
+    ? line
+    : [`export type ${name} =`, ...names.map(key => `  | ${quote(key)}`)].join('\n') + ';';
+}
+
+const source = Fs.readFileSync(SOURCE);
+const catalog = { texts: new Map(), plurals: new Map() };
+const problems = [];
+collect(parse(source.toString('utf8')), '', catalog, problems);
+if (problems.length > 0) {
+  console.error(`translations.yaml has problems:\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+Fs.writeFileSync(OUTPUT, render(catalog, Crypto.createHash('sha256').update(source).digest('hex')));
+console.log(`Wrote ${catalog.texts.size} texts and ${catalog.plurals.size} plurals to src/i18n-catalog.ts`);
@@ -0,0 +1,108 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as I18n from '../i18n';
+import * as Catalog from '../i18n-catalog';
+import source from '../../../translations/translations.yaml?raw';
+
+const LANGUAGES = ['en', 'ru'] as const;
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1] ?? '').sort();
+}
+
+describe('I18n catalog', () => {
+  it('is generated from the current translations.yaml', async () => {
+    // Run `npm run i18n` when this fails
+    expect(await sha256Hex(source)).toBe(Catalog.SOURCE_HASH);
+  });
+
+  it('has every text key in every language', () => {
+    const keys = Object.keys(Catalog.TEXTS.en).sort();
+
+    for (const lang of LANGUAGES) {
+      expect(Object.keys(Catalog.TEXTS[lang]).sort()).toEqual(keys);
+      for (const text of Object.values(Catalog.TEXTS[lang])) {
+        expect(text).not.toBe('');
+      }
+    }
+  });
+
+  it('has every plural form each language needs', () => {
+    const keys = Object.keys(Catalog.PLURALS.en).sort();
+
+    for (const lang of LANGUAGES) {
+      const categories = [...new Intl.PluralRules(lang).resolvedOptions().pluralCategories].sort();
+      expect(Object.keys(Catalog.PLURALS[lang]).sort()).toEqual(keys);
+      for (const forms of Object.values(Catalog.PLURALS[lang])) {
+        expect(Object.keys(forms).sort()).toEqual(categories);
+      }
+    }
+  });
+
+  it('uses the same placeholders in every language', () => {
+    const texts = new Map(Object.entries(Catalog.TEXTS.ru));
+    const plurals = new Map(Object.entries(Catalog.PLURALS.ru));
+
+    for (const [key, text] of Object.entries(Catalog.TEXTS.en)) {
+      expect(placeholders(texts.get(key) ?? ''), key).toEqual(placeholders(text));
+    }
+    for (const [key, forms] of Object.entries(Catalog.PLURALS.en)) {
+      expect(placeholders(plurals.get(key)?.other ?? ''), key).toEqual(placeholders(forms.other));
+    }
+  });
+});
+
+describe('I18n.t', () => {
+  it('looks up a key in the given language', () => {
+    expect(I18n.t('en', 'scientificAssistant')).toBe('Scientific Assistant');
+    expect(I18n.t('ru', 'scientificAssistant')).toBe('Научный Ассистент');
+  });
+
+  it('looks up grouped keys by their dotted path', () => {
+    expect(I18n.t('en', 'menu.open')).toBe('Open menu');
+  });
+
+  it('fills placeholders', () => {
+    expect(I18n.t('en', 'stepOf', { current: 2, total: 5 })).toBe('Step 2 of 5');
+    expect(I18n.t('ru', 'stepOf', { current: 2, total: 5 })).toBe('Шаг 2 из 5');
+    expect(I18n.t('en', 'dialog.discardChanges', { name: 'notes.json' })).toBe(
+      'Discard unsaved changes in notes.json?'
+    );
+  });
+});
+
+describe('I18n.plural', () => {
+  it('picks English forms', () => {
+    expect(I18n.plural('en', 'messageCount', 1)).toBe('1 message');
+    expect(I18n.plural('en', 'messageCount', 0)).toBe('0 messages');
+    expect(I18n.plural('en', 'messageCount', 21)).toBe('21 messages');
+  });
+
+  it.each([
+    [1, '1 сообщение'],
+    [2, '2 сообщения'],
+    [5, '5 сообщений'],
+    [11, '11 сообщений'],
+    [14, '14 сообщений'],
+    [21, '21 сообщение'],
+    [22, '22 сообщения'],
+    [25, '25 сообщений'],
+    [111, '111 сообщений'],
+    [1.5, '1.5 сообщения'],
+  ])('picks the Russian form for %s', (count, expected) => {
+    expect(I18n.plural('ru', 'messageCount', count)).toBe(expected);
+  });
+
+  it('places the count anywhere in the text', () => {
+    expect(I18n.plural('ru', 'attachedFiles', 3)).toBe('Прикреплено 3 файла');
+    expect(I18n.plural('ru', 'attachedFiles', 1)).toBe('Прикреплён 1 файл');
+  });
+});
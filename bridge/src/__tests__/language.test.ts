@@ -66,6 +66,29 @@ describe('Language Management', () => {
     });
   });
 
+  describe('Language formatting', () => {
+    it('formats numbers for the document language', () => {
+      Language.set('ru');
+
+      expect(Language.current()).toBe('ru');
+      expect(Language.format().number(1.5)).toBe('1,5');
+    });
+
+    it('falls back to the default language', () => {
+      expect(Language.current()).toBe(Language.DEFAULT);
+    });
+
+    it('passes the language to charts', () => {
+      const chart = document.createElement('ds-chart');
+      document.body.append(chart);
+
+      Language.set('ru');
+
+      expect(chart.language).toBe('ru');
+      chart.remove();
+    });
+  });
+
   describe('Language.isLanguage', () => {
     it('returns true for valid languages', () => {
       expect(Language.isLanguage('en')).toBe(true);
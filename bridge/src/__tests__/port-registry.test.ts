@@ -0,0 +1,16 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as PortRegistry from '../port-registry';
+
+describe('PortRegistry', () => {
+  it('accepts known themes and languages only', () => {
+    expect(PortRegistry.setTheme.decode('dark')).toEqual({ ok: true, value: 'dark' });
+    expect(PortRegistry.setTheme.decode('system')).toEqual({ ok: true, value: 'system' });
+    expect(PortRegistry.setTheme.decode('sepia').ok).toBe(false);
+    expect(PortRegistry.setLanguage.decode('ru')).toEqual({ ok: true, value: 'ru' });
+    expect(PortRegistry.setLanguage.decode(null).ok).toBe(false);
+  });
+});
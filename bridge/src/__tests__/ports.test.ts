@@ -0,0 +1,196 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, vi } from 'vitest';
+import * as Ports from '../ports';
+
+type Listener = (value: unknown) => void;
+
+interface FakeApp extends Ports.ElmApp {
+  // Deliver a value from Elm on an outgoing port
+  emit: (name: string, value: unknown) => void;
+  // Values sent to Elm on an incoming port
+  sent: (name: string) => unknown[];
+}
+
+function fakeApp(outgoing: string[], incoming: string[] = []): FakeApp {
+  const listeners = new Map<string, Listener[]>();
+  const received = new Map<string, unknown[]>();
+  const ports: Record<string, unknown> = {};
+  for (const name of outgoing) {
+    listeners.set(name, []);
+    ports[name] = {
+      subscribe: (callback: Listener) => listeners.get(name)?.push(callback),
+      unsubscribe: (callback: Listener) =>
+        listeners.set(
+          name,
+          (listeners.get(name) ?? []).filter(listener => listener !== callback)
+        ),
+    };
+  }
+  for (const name of incoming) {
+    received.set(name, []);
+    ports[name] = { send: (value: unknown) => received.get(name)?.push(value) };
+  }
+  return {
+    ports,
+    emit: (name, value) => listeners.get(name)?.forEach(listener => listener(value)),
+    sent: name => received.get(name) ?? [],
+  };
+}
+
+const isColor = (value: string): value is 'red' | 'blue' => value === 'red' || value === 'blue';
+
+const setColor = Ports.command('setColor', Ports.string(isColor, 'a color'));
+
+const lookup = Ports.request<'red' | 'blue', { hex: string }>('lookup', Ports.string(isColor, 'a color'));
+
+// Let handler promises settle
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('Ports.command', () => {
+  it('passes decoded payloads to the handler', async () => {
+    const app = fakeApp(['setColor']);
+    const handler = vi.fn();
+    Ports.connect(app).on(setColor, handler);
+
+    app.emit('setColor', 'red');
+    await flush();
+
+    expect(handler).toHaveBeenCalledWith('red');
+  });
+
+  it('reports payloads that fail to decode', async () => {
+    const app = fakeApp(['setColor']);
+    const handler = vi.fn();
+    const report = vi.fn();
+    Ports.connect(app, report).on(setColor, handler);
+
+    app.emit('setColor', 'green');
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(report).toHaveBeenCalledWith('Port setColor: Expected a color, got "green"');
+  });
+
+  it('reports handler failures', async () => {
+    const app = fakeApp(['setColor']);
+    const report = vi.fn();
+    Ports.connect(app, report).on(setColor, () => {
+      throw new Error('storage full');
+    });
+
+    app.emit('setColor', 'blue');
+    await flush();
+
+    expect(report).toHaveBeenCalledWith('Port setColor: storage full');
+  });
+
+  it('reports ports missing from the Elm app', () => {
+    const report = vi.fn();
+    Ports.connect(fakeApp([]), report).on(setColor, vi.fn());
+
+    expect(report).toHaveBeenCalledWith('Port setColor is not exposed by the Elm app');
+  });
+});
+
+describe('Ports.request', () => {
+  it('names the response port after the request', () => {
+    expect(lookup.responseName).toBe('lookupResponse');
+  });
+
+  it('encodes results before replying', async () => {
+    const app = fakeApp(['count'], ['countResponse']);
+    const count = Ports.request<'red' | 'blue', Set<string>>('count', Ports.string(isColor, 'a color'), set => [
+      ...set,
+    ]);
+    Ports.connect(app).handle(count, color => new Set([color]));
+
+    app.emit('count', { id: 'a', payload: 'red' });
+    await flush();
+
+    expect(app.sent('countResponse')).toEqual([{ id: 'a', ok: true, payload: ['red'] }]);
+  });
+
+  it('replies with the handler result and the request id', async () => {
+    const app = fakeApp(['lookup'], ['lookupResponse']);
+    Ports.connect(app).handle(lookup, async color => ({ hex: color === 'red' ? '#f00' : '#00f' }));
+
+    app.emit('lookup', { id: 'a', payload: 'red' });
+    app.emit('lookup', { id: 'b', payload: 'blue' });
+    await flush();
+
+    expect(app.sent('lookupResponse')).toEqual([
+      { id: 'a', ok: true, payload: { hex: '#f00' } },
+      { id: 'b', ok: true, payload: { hex: '#00f' } },
+    ]);
+  });
+
+  it('replies with invalid_payload without calling the handler', async () => {
+    const app = fakeApp(['lookup'], ['lookupResponse']);
+    const handler = vi.fn();
+    Ports.connect(app).handle(lookup, handler);
+
+    app.emit('lookup', { id: 'a', payload: 7 });
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(app.sent('lookupResponse')).toEqual([
+      { id: 'a', ok: false, error: { code: 'invalid_payload', message: 'Expected a color, got 7' } },
+    ]);
+  });
+
+  it('replies with the code of a PortError, else handler_failed', async () => {
+    const app = fakeApp(['lookup'], ['lookupResponse']);
+    Ports.connect(app).handle(lookup, color => {
+      if (color === 'red') throw new Ports.PortError('not_found', 'No such color');
+      throw new Error('disk error');
+    });
+
+    app.emit('lookup', { id: 'a', payload: 'red' });
+    app.emit('lookup', { id: 'b', payload: 'blue' });
+    await flush();
+
+    expect(app.sent('lookupResponse')).toEqual([
+      { id: 'a', ok: false, error: { code: 'not_found', message: 'No such color' } },
+      { id: 'b', ok: false, error: { code: 'handler_failed', message: 'disk error' } },
+    ]);
+  });
+
+  it('reports envelopes without an id, since they cannot be answered', async () => {
+    const app = fakeApp(['lookup'], ['lookupResponse']);
+    const report = vi.fn();
+    Ports.connect(app, report).handle(lookup, vi.fn());
+
+    app.emit('lookup', 'red');
+    await flush();
+
+    expect(report).toHaveBeenCalledWith('Port lookup: request without an id');
+    expect(app.sent('lookupResponse')).toEqual([]);
+  });
+
+  it('reports a missing response port', () => {
+    const report = vi.fn();
+    Ports.connect(fakeApp(['lookup']), report).handle(lookup, vi.fn());
+
+    expect(report).toHaveBeenCalledWith('Port lookupResponse is not exposed by the Elm app');
+  });
+});
+
+describe('Bus.dispose', () => {
+  it('unsubscribes every handler', async () => {
+    const app = fakeApp(['setColor']);
+    const handler = vi.fn();
+    const bus = Ports.connect(app);
+    bus.on(setColor, handler);
+
+    bus.dispose();
+    app.emit('setColor', 'red');
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
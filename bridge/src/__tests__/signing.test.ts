@@ -0,0 +1,33 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Signing from '../signing';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const NONCE = '0123456789abcdef0123456789abcdef';
+
+const REQUEST = { method: 'POST', path: '/v1/generate', body: '{"contents":[]}' };
+
+describe('Signing', () => {
+  it('matches an HMAC-SHA256 computed independently', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+
+    expect(headers).toEqual({
+      'X-Proxy-Key': 'lab-a',
+      'X-Proxy-Timestamp': '1735689600',
+      'X-Proxy-Nonce': NONCE,
+      'X-Proxy-Signature': '28c766897571c19cb2ec54a428b000d8dcc56450b66b594911d5fb310a3a8a6e',
+    });
+  });
+
+  it('produces headers the proxy verifies', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW);
+    const signed = Signing.fromHeaders(new Headers(headers));
+    if (signed === null || signed === 'malformed') throw new Error('signature headers missing');
+
+    expect(await Signing.verify(signed, REQUEST, await Signing.signingKey('secret-a'))).toBe(true);
+  });
+});
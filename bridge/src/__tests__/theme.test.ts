@@ -2,9 +2,35 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as Theme from '../theme';
 
+type Listener = (event: MediaQueryListEvent) => void;
+
+// A controllable `prefers-color-scheme: dark` media query
+function fakeColorScheme(dark: boolean): { flip: (toDark: boolean) => void; listeners: Set<Listener> } {
+  const listeners = new Set<Listener>();
+  const media = {
+    get matches() {
+      return dark;
+    },
+    addEventListener: (_type: string, listener: Listener) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: Listener) => listeners.delete(listener),
+  };
+  vi.stubGlobal(
+    'matchMedia',
+    vi.fn(() => media)
+  );
+  return {
+    flip: toDark => {
+      dark = toDark;
+      const event = new Event('change');
+      listeners.forEach(listener => listener(Object.assign(event, { matches: toDark, media: Theme.DARK_QUERY })));
+    },
+    listeners,
+  };
+}
+
 describe('Theme Management', () => {
   beforeEach(() => {
     localStorage.clear();
@@ -66,6 +92,115 @@ describe('Theme Management', () => {
     });
   });
 
+  describe('Theme system preference', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      document.body.replaceChildren();
+    });
+
+    it('resolves through the color scheme media query', () => {
+      fakeColorScheme(true);
+
+      expect(Theme.resolve('system')).toBe('dark');
+      expect(window.matchMedia).toHaveBeenCalledWith('(prefers-color-scheme: dark)');
+      expect(Theme.resolve('light')).toBe('light');
+    });
+
+    it('saves system but applies the resolved theme', () => {
+      fakeColorScheme(false);
+
+      expect(Theme.set('system')).toBe('light');
+      expect(localStorage.getItem(Theme.STORAGE_KEY)).toBe('system');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('light');
+    });
+
+    it('follows the OS scheme when it flips', () => {
+      const scheme = fakeColorScheme(false);
+      const onChange = vi.fn();
+      Theme.set('system');
+      Theme.follow(onChange);
+
+      scheme.flip(true);
+
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect(onChange).toHaveBeenCalledWith('dark');
+
+      scheme.flip(false);
+
+      expect(document.documentElement.getAttribute('data-theme')).toBe('light');
+      expect(onChange).toHaveBeenLastCalledWith('light');
+    });
+
+    it('follows the OS scheme on a fresh profile', () => {
+      const scheme = fakeColorScheme(false);
+      const onChange = vi.fn();
+      Theme.follow(onChange);
+
+      scheme.flip(true);
+
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect(onChange).toHaveBeenCalledWith('dark');
+      expect(Theme.load()).toBe(null);
+    });
+
+    it('restores the OS scheme without saving when nothing is saved', () => {
+      fakeColorScheme(true);
+
+      expect(Theme.restore()).toBe('dark');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect(Theme.load()).toBe(null);
+    });
+
+    it('restores a saved theme', () => {
+      fakeColorScheme(true);
+      localStorage.setItem(Theme.STORAGE_KEY, 'light');
+
+      expect(Theme.restore()).toBe('light');
+      expect(Theme.current()).toBe('light');
+    });
+
+    it('ignores flips while an explicit theme is chosen', () => {
+      const scheme = fakeColorScheme(false);
+      const onChange = vi.fn();
+      Theme.set('light');
+      Theme.follow(onChange);
+
+      scheme.flip(true);
+
+      expect(document.documentElement.getAttribute('data-theme')).toBe('light');
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('passes the new theme to charts so they re-render', () => {
+      const scheme = fakeColorScheme(false);
+      const chart = document.createElement('ds-chart');
+      document.body.append(chart);
+      Theme.set('system');
+      Theme.follow(() => {});
+
+      scheme.flip(true);
+
+      expect(chart.theme).toBe('dark');
+    });
+
+    it('stops listening when unsubscribed', () => {
+      const scheme = fakeColorScheme(false);
+      const stop = Theme.follow(() => {});
+
+      stop();
+
+      expect(scheme.listeners.size).toBe(0);
+    });
+  });
+
+  describe('Theme.isPreference', () => {
+    it('accepts themes and system', () => {
+      expect(Theme.isPreference('light')).toBe(true);
+      expect(Theme.isPreference('system')).toBe(true);
+      expect(Theme.isPreference('auto')).toBe(false);
+    });
+  });
+
   describe('Theme.isTheme', () => {
     it('returns true for valid themes', () => {
       expect(Theme.isTheme('light')).toBe(true);
@@ -77,6 +212,7 @@ describe('Theme Management', () => {
       expect(Theme.isTheme('auto')).toBe(false);
       expect(Theme.isTheme('')).toBe(false);
       expect(Theme.isTheme('invalid')).toBe(false);
+      expect(Theme.isTheme('system')).toBe(false);
     });
   });
 });
@@ -0,0 +1,179 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Signing from '../../signing';
+import * as Client from '../client';
+import fixture from './fixtures/stream.sse?raw';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const REQUEST: Client.StreamRequest = {
+  model: 'thinking',
+  messages: [{ role: 'user', content: [{ type: 'text', text: 'What do mitochondria do?' }] }],
+  options: { searchGrounding: true, includeThoughts: true },
+};
+
+// A body delivered in small chunks that split events and characters
+function chunked(text: string, size = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+function config(respond: (url: string, init: RequestInit) => Promise<Response>): Client.Config {
+  return { proxyUrl: 'https://proxy.example.com', keyId: 'lab-a', secret: 'secret-a', fetch: respond, now: () => NOW };
+}
+
+async function collect(deltas: AsyncIterable<Client.Delta>): Promise<Client.Delta[]> {
+  const result: Client.Delta[] = [];
+  for await (const delta of deltas) {
+    result.push(delta);
+  }
+  return result;
+}
+
+describe('Client.stream', () => {
+  it('turns the recorded stream into deltas', async () => {
+    const client = config(async () => new Response(chunked(fixture)));
+
+    const deltas = await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    expect(deltas).toEqual([
+      { type: 'thought', text: '**Recalling cell biology**\n\nThe user asks about mitochondria.' },
+      { type: 'text', text: 'Mitochondria are the ' },
+      { type: 'text', text: 'powerhouse of the cell — they make ATP.' },
+      { type: 'grounding', chunks: [{ title: 'wikipedia.org', url: 'https://en.wikipedia.org/wiki/Mitochondrion' }] },
+      { type: 'done', finishReason: 'STOP', usage: { promptTokens: 9, outputTokens: 14, thoughtTokens: 48 } },
+    ]);
+  });
+
+  it('sends a signed request to the stream route', async () => {
+    const sent: Array<{ url: string; init: RequestInit }> = [];
+    const client = config(async (url, init) => {
+      sent.push({ url, init });
+      return new Response(chunked(fixture));
+    });
+
+    await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    const [first] = sent;
+    if (!first) throw new Error('no request sent');
+    const { url, init } = first;
+    const headers = new Headers(init.headers);
+    const signed = Signing.fromHeaders(headers);
+    if (signed === null || signed === 'malformed') throw new Error('request not signed');
+    expect(url).toBe('https://proxy.example.com/v1/stream?model=thinking');
+    expect(signed.keyId).toBe('lab-a');
+    expect(
+      await Signing.verify(
+        signed,
+        { method: 'POST', path: '/v1/stream?model=thinking', body: String(init.body) },
+        await Signing.signingKey('secret-a')
+      )
+    ).toBe(true);
+    expect(JSON.parse(String(init.body))).toMatchObject({ tools: [{ googleSearch: {} }] });
+  });
+
+  it('reports proxy errors', async () => {
+    const client = config(
+      async () => new Response(JSON.stringify({ error: 'Rate limit exceeded', code: 'rate_limited' }), { status: 429 })
+    );
+
+    const deltas = await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    expect(deltas).toEqual([{ type: 'error', code: 'rate_limited', message: 'Rate limit exceeded' }]);
+  });
+
+  it('ends with the error event of a truncated stream', async () => {
+    const body = `${fixture.split('\r\n\r\n')[1]}\r\n\r\n\n\nevent: error\ndata: ${JSON.stringify({
+      error: 'Upstream stream failed',
+      code: 'upstream_error',
+    })}\n\n`;
+    const client = config(async () => new Response(chunked(body)));
+
+    const deltas = await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    expect(deltas).toEqual([
+      { type: 'text', text: 'Mitochondria are the ' },
+      { type: 'error', code: 'upstream_error', message: 'Upstream stream failed' },
+    ]);
+  });
+
+  it('reports blocked prompts', async () => {
+    const blocked = `data: ${JSON.stringify({ promptFeedback: { blockReason: 'SAFETY' } })}\r\n\r\n`;
+    const client = config(async () => new Response(blocked));
+
+    const deltas = await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    expect(deltas).toEqual([{ type: 'error', code: 'blocked', message: 'Prompt blocked: SAFETY' }]);
+  });
+
+  it('ends with a cancelled error when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const client = config(
+      async (_url, init) =>
+        new Response(
+          new ReadableStream({
+            start(stream) {
+              stream.enqueue(new TextEncoder().encode(`${fixture.split('\r\n\r\n')[1]}\r\n\r\n`));
+              init.signal?.addEventListener('abort', () => stream.error(new DOMException('Aborted', 'AbortError')));
+            },
+          })
+        )
+    );
+
+    const deltas: Client.Delta[] = [];
+    for await (const delta of Client.stream(client, REQUEST, controller.signal)) {
+      deltas.push(delta);
+      controller.abort();
+    }
+
+    expect(deltas).toEqual([
+      { type: 'text', text: 'Mitochondria are the ' },
+      { type: 'error', code: 'cancelled', message: 'Request cancelled' },
+    ]);
+  });
+
+  it('reports network failures', async () => {
+    const client = config(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+
+    const deltas = await collect(Client.stream(client, REQUEST, new AbortController().signal));
+
+    expect(deltas).toEqual([{ type: 'error', code: 'network_error', message: 'Failed to fetch' }]);
+  });
+});
+
+describe('Client.decodeStart', () => {
+  it('decodes a stream start from Elm', () => {
+    const decoded = Client.decodeStart({
+      id: 's1',
+      model: 'fast',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      searchGrounding: true,
+    });
+
+    expect(decoded).toEqual({
+      ok: true,
+      value: {
+        id: 's1',
+        model: 'fast',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        options: { searchGrounding: true, includeThoughts: false },
+      },
+    });
+    expect(Client.decodeStart({ model: 'fast', messages: [] }).ok).toBe(false);
+  });
+});
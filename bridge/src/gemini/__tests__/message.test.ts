@@ -0,0 +1,85 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Message from '../message';
+
+const OPTIONS = { searchGrounding: false, includeThoughts: false };
+
+describe('Message.requestBody', () => {
+  it('encodes text, thoughts and images with Gemini roles', () => {
+    const body = Message.requestBody(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this image?' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'thought', text: 'Looking closely.' },
+            { type: 'text', text: 'A cell.' },
+          ],
+        },
+      ],
+      OPTIONS
+    );
+
+    expect(body).toEqual({
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: 'What is in this image?' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }],
+        },
+        { role: 'model', parts: [{ text: 'Looking closely.', thought: true }, { text: 'A cell.' }] },
+      ],
+    });
+  });
+
+  it('skips empty messages', () => {
+    const body = Message.requestBody([{ role: 'assistant', content: [] }], OPTIONS);
+
+    expect(body).toEqual({ contents: [] });
+  });
+
+  it('adds search grounding and thought summaries when asked', () => {
+    const body = Message.requestBody([], { searchGrounding: true, includeThoughts: true });
+
+    expect(body).toEqual({
+      contents: [],
+      tools: [{ googleSearch: {} }],
+      generationConfig: { thinkingConfig: { includeThoughts: true } },
+    });
+  });
+});
+
+describe('Message.decodeMessages', () => {
+  it('decodes messages sent from Elm', () => {
+    const decoded = Message.decodeMessages([
+      { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+      { role: 'assistant', content: [{ type: 'image', mimeType: 'image/png', data: 'AA==' }] },
+    ]);
+
+    expect(decoded).toEqual({
+      ok: true,
+      value: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+        { role: 'assistant', content: [{ type: 'image', mimeType: 'image/png', data: 'AA==' }] },
+      ],
+    });
+  });
+
+  it('names the first malformed message', () => {
+    const decoded = Message.decodeMessages([
+      { role: 'user', content: [] },
+      { role: 'user', content: [{ type: 'audio' }] },
+    ]);
+
+    expect(decoded).toEqual({ ok: false, error: 'Malformed message at index 1' });
+    expect(Message.decodeMessages({}).ok).toBe(false);
+  });
+});
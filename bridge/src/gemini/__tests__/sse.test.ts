@@ -0,0 +1,48 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Sse from '../sse';
+
+describe('Sse.parser', () => {
+  it('parses events with either line ending', () => {
+    const parser = Sse.parser();
+
+    expect(parser.push('data: one\n\ndata: two\r\n\r\n')).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'message', data: 'two' },
+    ]);
+  });
+
+  it('holds partial events until their blank line arrives', () => {
+    const parser = Sse.parser();
+
+    expect(parser.push('data: {"a"')).toEqual([]);
+    expect(parser.push(':1}\r\n\r')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: '{"a":1}' }]);
+  });
+
+  it('decodes characters split across chunks', () => {
+    const parser = Sse.parser();
+    const bytes = new TextEncoder().encode('data: Привет\n\n');
+
+    expect(parser.push(bytes.slice(0, 8))).toEqual([]);
+    expect(parser.push(bytes.slice(8))).toEqual([{ event: 'message', data: 'Привет' }]);
+  });
+
+  it('reads event names and joins multi-line data', () => {
+    const parser = Sse.parser();
+
+    expect(parser.push(': keep-alive\n\nevent: error\ndata: {"code":\ndata: "x"}\nid: 1\n\n')).toEqual([
+      { event: 'error', data: '{"code":\n"x"}' },
+    ]);
+  });
+
+  it('flushes an unterminated final event at the end', () => {
+    const parser = Sse.parser();
+    parser.push('data: last');
+
+    expect(parser.end()).toEqual([{ event: 'message', data: 'last' }]);
+  });
+});
@@ -0,0 +1,78 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Ports from '../../ports';
+import * as Streams from '../streams';
+
+type Listener = (value: unknown) => void;
+
+// An Elm app exposing the Gemini ports
+function fakeApp(): { app: Ports.ElmApp; emit: (name: string, value: unknown) => void; deltas: unknown[] } {
+  const listeners = new Map<string, Listener>();
+  const deltas: unknown[] = [];
+  const outgoing = (name: string): unknown => ({ subscribe: (callback: Listener) => listeners.set(name, callback) });
+  return {
+    app: {
+      ports: {
+        geminiStream: outgoing('geminiStream'),
+        geminiCancel: outgoing('geminiCancel'),
+        geminiDelta: { send: (value: unknown) => deltas.push(value) },
+      },
+    },
+    emit: (name, value) => listeners.get(name)?.(value),
+    deltas,
+  };
+}
+
+const START = { id: 's1', model: 'fast', messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] };
+
+function waitFor(check: () => boolean): Promise<void> {
+  return new Promise(resolve => {
+    const poll = (): void => (check() ? resolve() : void setTimeout(poll, 1));
+    poll();
+  });
+}
+
+describe('Streams.connect', () => {
+  it('forwards deltas tagged with the stream id', async () => {
+    const { app, emit, deltas } = fakeApp();
+    const body = `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: 'Hello' }] } }] })}\n\n`;
+    Streams.connect(Ports.connect(app), {
+      proxyUrl: 'https://proxy.example.com',
+      keyId: 'default',
+      secret: 'key',
+      fetch: async () => new Response(body),
+    });
+
+    emit('geminiStream', START);
+    await waitFor(() => deltas.length === 2);
+
+    expect(deltas).toEqual([
+      { id: 's1', delta: { type: 'text', text: 'Hello' } },
+      { id: 's1', delta: { type: 'done', finishReason: null, usage: null } },
+    ]);
+  });
+
+  it('cancels a running stream', async () => {
+    const { app, emit, deltas } = fakeApp();
+    Streams.connect(Ports.connect(app), {
+      proxyUrl: 'https://proxy.example.com',
+      keyId: 'default',
+      secret: 'key',
+      // Never answers until aborted
+      fetch: (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        ),
+    });
+
+    emit('geminiStream', START);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    emit('geminiCancel', 's1');
+    await waitFor(() => deltas.length === 1);
+
+    expect(deltas).toEqual([{ id: 's1', delta: { type: 'error', code: 'cancelled', message: 'Request cancelled' } }]);
+  });
+});
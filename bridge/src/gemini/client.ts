@@ -0,0 +1,251 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Streaming client for the proxy's `/v1/stream` route.
+ *
+ * Each request is signed (see `signing.ts`) and its Server-Sent Events are
+ * turned into deltas as they arrive. Failures of any kind, including the
+ * proxy's final `error` event after a truncated stream, end the stream with
+ * an `error` delta instead of throwing, so every stream ends with exactly
+ * one `done` or `error`.
+ */
+
+import * as Ports from '../ports';
+import * as Signing from '../signing';
+import * as Message from './message';
+import * as Sse from './sse';
+
+export interface Config {
+  proxyUrl: string;
+  keyId: string;
+  secret: string;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  now?: () => number;
+}
+
+export interface StreamRequest {
+  // Model ID or alias the proxy accepts in `?model=`
+  model: string;
+  messages: Message.Message[];
+  options: Message.Options;
+}
+
+// A stream Elm starts; `id` tags its deltas and names it for cancellation
+export interface Start extends StreamRequest {
+  id: string;
+}
+
+export const decodeStart: Ports.Decoder<Start> = value => {
+  if (!isRecord(value) || typeof value['id'] !== 'string' || typeof value['model'] !== 'string') {
+    return { ok: false, error: 'Expected a stream with an id and a model' };
+  }
+  const messages = Message.decodeMessages(value['messages']);
+  if (!messages.ok) {
+    return messages;
+  }
+  return {
+    ok: true,
+    value: {
+      id: value['id'],
+      model: value['model'],
+      messages: messages.value,
+      options: {
+        searchGrounding: value['searchGrounding'] === true,
+        includeThoughts: value['includeThoughts'] === true,
+      },
+    },
+  };
+};
+
+export interface GroundingChunk {
+  title: string;
+  url: string;
+}
+
+export interface Usage {
+  promptTokens: number;
+  outputTokens: number;
+  thoughtTokens: number;
+}
+
+export type Delta =
+  | { type: 'text'; text: string }
+  | { type: 'thought'; text: string }
+  | { type: 'image'; mimeType: string; data: string }
+  | { type: 'grounding'; chunks: GroundingChunk[] }
+  | { type: 'done'; finishReason: string | null; usage: Usage | null }
+  | { type: 'error'; code: string; message: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function usageOf(value: unknown): Usage | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  return {
+    promptTokens: count(value['promptTokenCount']),
+    outputTokens: count(value['candidatesTokenCount']),
+    thoughtTokens: count(value['thoughtsTokenCount']),
+  };
+}
+
+function partDelta(part: unknown): Delta | null {
+  if (!isRecord(part)) {
+    return null;
+  }
+  // The final chunk often carries an empty text part next to the finish reason
+  if (part['text'] === '') {
+    return null;
+  }
+  if (typeof part['text'] === 'string') {
+    return part['thought'] === true ? { type: 'thought', text: part['text'] } : { type: 'text', text: part['text'] };
+  }
+  const inline = part['inlineData'];
+  if (isRecord(inline) && typeof inline['mimeType'] === 'string' && typeof inline['data'] === 'string') {
+    return { type: 'image', mimeType: inline['mimeType'], data: inline['data'] };
+  }
+  return null;
+}
+
+function groundingChunks(metadata: unknown): GroundingChunk[] {
+  const chunks = isRecord(metadata) && Array.isArray(metadata['groundingChunks']) ? metadata['groundingChunks'] : [];
+  return chunks.flatMap(chunk => {
+    const web = isRecord(chunk) ? chunk['web'] : undefined;
+    return isRecord(web) && typeof web['uri'] === 'string'
+      ? [{ title: typeof web['title'] === 'string' ? web['title'] : web['uri'], url: web['uri'] }]
+      : [];
+  });
+}
+
+function errorDelta(body: unknown, fallback: string): Delta {
+  return {
+    type: 'error',
+    code: isRecord(body) && typeof body['code'] === 'string' ? body['code'] : 'upstream_error',
+    message: isRecord(body) && typeof body['error'] === 'string' ? body['error'] : fallback,
+  };
+}
+
+/**
+ * Deltas for one streamed generateContent response. Only the first
+ * candidate is read; the proxy never asks for more.
+ */
+export function deltas(chunk: unknown): { deltas: Delta[]; finishReason: string | null; usage: Usage | null } {
+  if (!isRecord(chunk)) {
+    return { deltas: [], finishReason: null, usage: null };
+  }
+  const feedback = chunk['promptFeedback'];
+  if (isRecord(feedback) && typeof feedback['blockReason'] === 'string') {
+    return {
+      deltas: [{ type: 'error', code: 'blocked', message: `Prompt blocked: ${feedback['blockReason']}` }],
+      finishReason: null,
+      usage: null,
+    };
+  }
+  const candidate = Array.isArray(chunk['candidates']) ? chunk['candidates'][0] : undefined;
+  const content = isRecord(candidate) ? candidate['content'] : undefined;
+  const parts = isRecord(content) && Array.isArray(content['parts']) ? content['parts'] : [];
+  const grounding = isRecord(candidate) ? groundingChunks(candidate['groundingMetadata']) : [];
+  return {
+    deltas: [
+      ...parts.flatMap(part => partDelta(part) ?? []),
+      ...(grounding.length > 0 ? [{ type: 'grounding' as const, chunks: grounding }] : []),
+    ],
+    finishReason:
+      isRecord(candidate) && typeof candidate['finishReason'] === 'string' ? candidate['finishReason'] : null,
+    usage: usageOf(chunk['usageMetadata']),
+  };
+}
+
+async function open(config: Config, request: StreamRequest, signal: AbortSignal): Promise<Response> {
+  const url = new URL(`/v1/stream?model=${encodeURIComponent(request.model)}`, config.proxyUrl);
+  const body = JSON.stringify(Message.requestBody(request.messages, request.options));
+  const signature = await Signing.sign(
+    { method: 'POST', path: url.pathname + url.search, body },
+    config.keyId,
+    config.secret,
+    (config.now ?? Date.now)()
+  );
+  const send = config.fetch ?? ((target, init) => fetch(target, init));
+  return send(url.toString(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...signature },
+    body,
+    signal,
+  });
+}
+
+/**
+ * Stream a reply. Aborting `signal` stops reading and ends the stream with
+ * a `cancelled` error.
+ */
+export async function* stream(config: Config, request: StreamRequest, signal: AbortSignal): AsyncGenerator<Delta> {
+  const cancelled: Delta = { type: 'error', code: 'cancelled', message: 'Request cancelled' };
+  let response: Response;
+  try {
+    response = await open(config, request, signal);
+  } catch (error) {
+    yield signal.aborted
+      ? cancelled
+      : { type: 'error', code: 'network_error', message: error instanceof Error ? error.message : String(error) };
+    return;
+  }
+  if (!response.ok || !response.body) {
+    yield errorDelta(parseJson(await response.text()), `Proxy responded with ${response.status}`);
+    return;
+  }
+
+  const parser = Sse.parser();
+  const reader = response.body.getReader();
+  let finishReason: string | null = null;
+  let usage: Usage | null = null;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      const events = done ? parser.end() : parser.push(value);
+      for (const event of events) {
+        const data = parseJson(event.data);
+        if (event.event === 'error') {
+          yield errorDelta(data, 'Stream ended with an error');
+          return;
+        }
+        const parsed = deltas(data);
+        finishReason = parsed.finishReason ?? finishReason;
+        usage = parsed.usage ?? usage;
+        for (const delta of parsed.deltas) {
+          yield delta;
+          if (delta.type === 'error') {
+            return;
+          }
+        }
+      }
+      if (done) {
+        break;
+      }
+    }
+  } catch (error) {
+    yield signal.aborted
+      ? cancelled
+      : { type: 'error', code: 'network_error', message: error instanceof Error ? error.message : String(error) };
+    return;
+  } finally {
+    // Stops the download when the caller gives up early
+    reader.cancel().catch(() => {});
+  }
+  yield { type: 'done', finishReason, usage };
+}
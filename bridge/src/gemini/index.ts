@@ -0,0 +1,12 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Gemini client: request encoding, SSE parsing and streaming into Elm.
+ */
+
+export * as Client from './client';
+export * as Message from './message';
+export * as Sse from './sse';
+export * as Streams from './streams';
@@ -0,0 +1,100 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * The app's provider-agnostic chat model and its Gemini request encoding,
+ * mirroring `Shared.Message` on the Elm side.
+ */
+
+import * as Ports from '../ports';
+
+export type Role = 'user' | 'assistant';
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'thought'; text: string }
+  | { type: 'image'; mimeType: string; data: string };
+
+export interface Message {
+  role: Role;
+  content: ContentPart[];
+}
+
+export interface Options {
+  searchGrounding: boolean;
+  // Ask thinking models to return their thoughts
+  includeThoughts: boolean;
+}
+
+function encodePart(part: ContentPart): Record<string, unknown> {
+  switch (part.type) {
+    case 'text':
+      return { text: part.text };
+    case 'thought':
+      return { text: part.text, thought: true };
+    case 'image':
+      return { inlineData: { mimeType: part.mimeType, data: part.data } };
+  }
+}
+
+/**
+ * A generateContent body for a conversation. Messages without content are
+ * skipped; Gemini rejects empty `parts`.
+ */
+export function requestBody(messages: Message[], options: Options): Record<string, unknown> {
+  return {
+    contents: messages
+      .filter(message => message.content.length > 0)
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: message.content.map(encodePart),
+      })),
+    ...(options.searchGrounding ? { tools: [{ googleSearch: {} }] } : {}),
+    ...(options.includeThoughts ? { generationConfig: { thinkingConfig: { includeThoughts: true } } } : {}),
+  };
+}
+
+// Decoders for payloads coming from Elm
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function decodePart(value: unknown): ContentPart | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const { type, text, mimeType, data } = value;
+  if ((type === 'text' || type === 'thought') && typeof text === 'string') {
+    return { type, text };
+  }
+  if (type === 'image' && typeof mimeType === 'string' && typeof data === 'string') {
+    return { type, mimeType, data };
+  }
+  return null;
+}
+
+function decodeMessage(value: unknown): Message | null {
+  if (!isRecord(value) || (value['role'] !== 'user' && value['role'] !== 'assistant')) {
+    return null;
+  }
+  const content = Array.isArray(value['content']) ? value['content'].map(decodePart) : [null];
+  const parts = content.filter(part => part !== null);
+  return parts.length === content.length ? { role: value['role'], content: parts } : null;
+}
+
+export const decodeMessages: Ports.Decoder<Message[]> = value => {
+  if (!Array.isArray(value)) {
+    return { ok: false, error: 'Expected a list of messages' };
+  }
+  const messages: Message[] = [];
+  for (const [index, item] of value.entries()) {
+    const message = decodeMessage(item);
+    if (message === null) {
+      return { ok: false, error: `Malformed message at index ${index}` };
+    }
+    messages.push(message);
+  }
+  return { ok: true, value: messages };
+};
@@ -0,0 +1,64 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Incremental Server-Sent Events parser.
+ *
+ * Network chunks split events anywhere, including inside a multi-byte
+ * character or between `\r` and `\n`, so text is buffered until an event's
+ * terminating blank line arrives. Comments and fields other than `event`
+ * and `data` are ignored.
+ */
+
+export interface Event {
+  // `message` unless the event names another type
+  event: string;
+  data: string;
+}
+
+export interface Parser {
+  // Feed a chunk, returning the events it completed
+  push(chunk: Uint8Array | string): Event[];
+  // Events left when the stream ends without a final blank line
+  end(): Event[];
+}
+
+function parseEvent(block: string): Event | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r\n|\r|\n/)) {
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+  return data.length === 0 ? null : { event, data: data.join('\n') };
+}
+
+export function parser(): Parser {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const drain = (final: boolean): Event[] => {
+    const blocks = buffer.split(/\r\n\r\n|\n\n|\r\r/);
+    // The last block is unfinished until a blank line follows it
+    buffer = final ? '' : (blocks.pop() ?? '');
+    return blocks.flatMap(block => parseEvent(block) ?? []);
+  };
+
+  return {
+    push(chunk) {
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      return drain(false);
+    },
+    end() {
+      buffer += decoder.decode();
+      return drain(true);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Runs the streams Elm starts through the `geminiStream` port and forwards
+ * their deltas to `geminiDelta`, tagged with the stream's ID. `geminiCancel`
+ * aborts one; starting a stream with an ID already in flight replaces it.
+ *
+ * `main.ts` connects this with the config the Tauri `proxy_config` command
+ * returns, so the signing secret comes from the environment at run time and
+ * never from the bundle.
+ */
+
+import * as PortRegistry from '../port-registry';
+import * as Ports from '../ports';
+import * as Client from './client';
+
+export function connect(bus: Ports.Bus, config: Client.Config): void {
+  const running = new Map<string, AbortController>();
+
+  bus.on(PortRegistry.geminiStream, async start => {
+    running.get(start.id)?.abort();
+    const controller = new AbortController();
+    running.set(start.id, controller);
+    try {
+      for await (const delta of Client.stream(config, start, controller.signal)) {
+        // A replaced stream goes quiet rather than reporting its cancellation
+        if (running.get(start.id) !== controller) {
+          break;
+        }
+        bus.send(PortRegistry.geminiDelta, { id: start.id, delta });
+      }
+    } finally {
+      if (running.get(start.id) === controller) {
+        running.delete(start.id);
+      }
+    }
+  });
+
+  bus.on(PortRegistry.geminiCancel, id => {
+    running.get(id)?.abort();
+  });
+}
@@ -0,0 +1,127 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+// Generated from translations/translations.yaml by scripts/generate-i18n.js.
+// Do not edit: change the YAML and run `npm run i18n`.
+
+import type * as Language from './language';
+
+export const SOURCE_HASH = '7fc8ae96e7d537757fa3d737c45d28d943fe5bc4aaaa68ebe33ed53796601fe3';
+
+export type TextKey =
+  | 'scientificAssistant'
+  | 'stepOf'
+  | 'models.fast'
+  | 'models.thinking'
+  | 'menu.open'
+  | 'menu.close'
+  | 'dialog.saveSession'
+  | 'dialog.openSession'
+  | 'dialog.sessionFiles'
+  | 'dialog.discardChanges'
+  | 'notification.replyReady'
+  | 'notification.copied'
+  | 'notification.fileTooLarge'
+  | 'chart.noData'
+  | 'chart.count';
+
+export type PluralKey = 'chart.points' | 'messageCount' | 'attachedFiles';
+
+// Placeholder names per key, apart from the `{count}` every plural gets
+export interface Placeholders {
+  scientificAssistant: never;
+  stepOf: 'current' | 'total';
+  'models.fast': never;
+  'models.thinking': never;
+  'menu.open': never;
+  'menu.close': never;
+  'dialog.saveSession': never;
+  'dialog.openSession': never;
+  'dialog.sessionFiles': never;
+  'dialog.discardChanges': 'name';
+  'notification.replyReady': never;
+  'notification.copied': never;
+  'notification.fileTooLarge': 'name' | 'limit';
+  'chart.noData': never;
+  'chart.count': never;
+  'chart.points': never;
+  messageCount: never;
+  attachedFiles: never;
+}
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export const TEXTS: Record<Language.Language, Record<TextKey, string>> = {
+  en: {
+    scientificAssistant: 'Scientific Assistant',
+    stepOf: 'Step {current} of {total}',
+    'models.fast': 'Fast',
+    'models.thinking': 'Thinking',
+    'menu.open': 'Open menu',
+    'menu.close': 'Close menu',
+    'dialog.saveSession': 'Save session',
+    'dialog.openSession': 'Open session',
+    'dialog.sessionFiles': 'Session files',
+    'dialog.discardChanges': 'Discard unsaved changes in {name}?',
+    'notification.replyReady': 'The reply is ready',
+    'notification.copied': 'Copied to clipboard',
+    'notification.fileTooLarge': '{name} is larger than {limit}',
+    'chart.noData': 'No data',
+    'chart.count': 'Count',
+  },
+  ru: {
+    scientificAssistant: 'Научный Ассистент',
+    stepOf: 'Шаг {current} из {total}',
+    'models.fast': 'Быстрая',
+    'models.thinking': 'Думающая',
+    'menu.open': 'Открыть меню',
+    'menu.close': 'Закрыть меню',
+    'dialog.saveSession': 'Сохранить сессию',
+    'dialog.openSession': 'Открыть сессию',
+    'dialog.sessionFiles': 'Файлы сессий',
+    'dialog.discardChanges': 'Отменить несохранённые изменения в {name}?',
+    'notification.replyReady': 'Ответ готов',
+    'notification.copied': 'Скопировано в буфер обмена',
+    'notification.fileTooLarge': '{name} больше {limit}',
+    'chart.noData': 'Нет данных',
+    'chart.count': 'Количество',
+  },
+};
+
+export const PLURALS: Record<Language.Language, Record<PluralKey, PluralForms>> = {
+  en: {
+    'chart.points': {
+      one: '{count} point',
+      other: '{count} points',
+    },
+    messageCount: {
+      one: '{count} message',
+      other: '{count} messages',
+    },
+    attachedFiles: {
+      one: '{count} file attached',
+      other: '{count} files attached',
+    },
+  },
+  ru: {
+    'chart.points': {
+      one: '{count} точка',
+      few: '{count} точки',
+      many: '{count} точек',
+      other: '{count} точки',
+    },
+    messageCount: {
+      one: '{count} сообщение',
+      few: '{count} сообщения',
+      many: '{count} сообщений',
+      other: '{count} сообщения',
+    },
+    attachedFiles: {
+      one: 'Прикреплён {count} файл',
+      few: 'Прикреплено {count} файла',
+      many: 'Прикреплено {count} файлов',
+      other: 'Прикреплено {count} файла',
+    },
+  },
+};
@@ -0,0 +1,60 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Translations for text rendered from TypeScript: the document title,
+ * native dialogs, notifications, chart labels and menu aria text.
+ *
+ * Strings come from `i18n-catalog.ts`, generated from
+ * `translations/translations.yaml`; the Elm view keeps its own strings.
+ * `{name}` placeholders are filled from `params`, which the
+ * compiler requires exactly when a key has placeholders. Plurals pick
+ * their form with `Intl.PluralRules` and also get `{count}`.
+ */
+
+import * as Catalog from './i18n-catalog';
+import type * as Language from './language';
+
+export type TextKey = Catalog.TextKey;
+
+export type PluralKey = Catalog.PluralKey;
+
+export type Params<K extends keyof Catalog.Placeholders> = [Catalog.Placeholders[K]] extends [never]
+  ? []
+  : [params: Record<Catalog.Placeholders[K], string | number>];
+
+const rules = new Map<Language.Language, Intl.PluralRules>();
+
+function pluralRules(lang: Language.Language): Intl.PluralRules {
+  const cached = rules.get(lang);
+  if (cached) {
+    return cached;
+  }
+  const created = new Intl.PluralRules(lang);
+  rules.set(lang, created);
+  return created;
+}
+
+// Unknown placeholders stay as written so a mistake shows up on screen
+function interpolate(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+export function t<K extends TextKey>(lang: Language.Language, key: K, ...params: Params<K>): string {
+  return interpolate(Catalog.TEXTS[lang][key], params[0] ?? {});
+}
+
+export function plural<K extends PluralKey>(
+  lang: Language.Language,
+  key: K,
+  count: number,
+  ...params: Params<K>
+): string {
+  const forms = Catalog.PLURALS[lang][key];
+  const template = forms[pluralRules(lang).select(count)] ?? forms.other;
+  return interpolate(template, { ...params[0], count });
+}
@@ -2,14 +2,15 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
+import * as Format from '@scientific-assistant/design-system/format';
+import * as I18n from './i18n';
+
 export const STORAGE_KEY = 'language';
 
 export type Language = 'en' | 'ru';
 
-const TITLES: Record<Language, string> = {
-  en: 'Scientific Assistant',
-  ru: 'Научный Ассистент',
-};
+// The lang attribute index.html ships with, shared with charts
+export const DEFAULT: Language = Format.DEFAULT_LANGUAGE;
 
 export function isLanguage(value: string): value is Language {
   return value === 'en' || value === 'ru';
@@ -17,10 +18,26 @@ export function isLanguage(value: string): value is Language {
 
 export function set(lang: Language): void {
   document.documentElement.setAttribute('lang', lang);
-  document.title = TITLES[lang];
+  document.title = I18n.t(lang, 'scientificAssistant');
+  // Charts read the language once; already rendered ones need to be told
+  document.querySelectorAll('ds-chart').forEach(chart => {
+    chart.language = lang;
+  });
   localStorage.setItem(STORAGE_KEY, lang);
 }
 
+export function current(): Language {
+  const lang = document.documentElement.getAttribute('lang') ?? '';
+  return isLanguage(lang) ? lang : DEFAULT;
+}
+
+/**
+ * Number and date formatting for the current language, the same charts use.
+ */
+export function format(): Format.Formatter {
+  return Format.formatter(current());
+}
+
 export function load(): string | null {
   return localStorage.getItem(STORAGE_KEY);
 }
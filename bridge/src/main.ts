@@ -6,11 +6,15 @@ import './main.css';
 
 import '@scientific-assistant/design-system';
 import * as TauriCore from '@tauri-apps/api/core';
+import * as Gemini from './gemini';
 import * as Language from './language';
+import * as PortRegistry from './port-registry';
+import * as Ports from './ports';
 import * as Theme from './theme';
 
 interface Flags {
   savedTheme: string | null;
+  resolvedTheme: string | null;
   savedLanguage: string | null;
 }
 
@@ -18,25 +22,12 @@ declare global {
   interface Window {
     Elm: {
       Main: {
-        init: (options: { node: HTMLElement; flags: Flags }) => ElmApp;
+        init: (options: { node: HTMLElement; flags: Flags }) => Ports.ElmApp;
       };
     };
   }
 }
 
-interface ElmPorts {
-  setTheme: {
-    subscribe: (callback: (theme: string) => void) => void;
-  };
-  setLanguage: {
-    subscribe: (callback: (lang: string) => void) => void;
-  };
-}
-
-interface ElmApp {
-  ports: ElmPorts;
-}
-
 async function initApp(): Promise<void> {
   const root = document.getElementById('app');
   if (!root) {
@@ -44,13 +35,10 @@ async function initApp(): Promise<void> {
   }
 
   // Load saved preferences
-  const savedTheme = Theme.load();
   const savedLanguage = Language.load();
 
-  // Apply preferences to document (only if previously saved)
-  if (savedTheme && Theme.isTheme(savedTheme)) {
-    Theme.set(savedTheme);
-  }
+  // Apply preferences to document; the theme follows the OS until one is saved
+  const theme = Theme.restore();
   if (savedLanguage && Language.isLanguage(savedLanguage)) {
     Language.set(savedLanguage);
   }
@@ -59,22 +47,23 @@ async function initApp(): Promise<void> {
   const app = window.Elm.Main.init({
     node: root,
     flags: {
-      savedTheme,
+      savedTheme: Theme.current(),
+      resolvedTheme: theme,
       savedLanguage,
     },
   });
 
   // Subscribe to preference changes
-  app.ports.setTheme.subscribe((theme: string) => {
-    if (Theme.isTheme(theme)) {
-      Theme.set(theme);
-    }
-  });
-  app.ports.setLanguage.subscribe((lang: string) => {
-    if (Language.isLanguage(lang)) {
-      Language.set(lang);
-    }
-  });
+  const bus = Ports.connect(app);
+  bus.on(PortRegistry.setTheme, preference => bus.send(PortRegistry.themeChanged, Theme.set(preference)));
+  Theme.follow(resolved => bus.send(PortRegistry.themeChanged, resolved));
+  bus.on(PortRegistry.setLanguage, Language.set);
+
+  // Stream chat replies once the Tauri side supplies the proxy settings and secret
+  TauriCore.invoke<Gemini.Client.Config>('proxy_config').then(
+    config => Gemini.Streams.connect(bus, config),
+    (error: unknown) => console.warn(`Chat streaming is off: ${String(error)}`)
+  );
 
   // Test Tauri command
   TauriCore.invoke<string>('greet', { name: 'Elm' }).then(greeting => {
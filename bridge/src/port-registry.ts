@@ -0,0 +1,31 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Every port the Elm app talks through, named as in `view/src/Main.elm`.
+ * Add new ports here with a decoder for their payload; request ports also
+ * need a `<name>Response` incoming port on the Elm side.
+ */
+
+import * as GeminiClient from './gemini/client';
+import * as Language from './language';
+import * as Ports from './ports';
+import * as Theme from './theme';
+
+function isStreamId(value: string): value is string {
+  return value !== '';
+}
+
+export const setTheme = Ports.command('setTheme', Ports.string(Theme.isPreference, 'a theme preference'));
+
+// The theme in effect, sent when it changes without Elm asking
+export const themeChanged = Ports.incoming<Theme.Theme>('themeChanged');
+
+export const setLanguage = Ports.command('setLanguage', Ports.string(Language.isLanguage, 'a language'));
+
+export const geminiStream = Ports.command('geminiStream', GeminiClient.decodeStart);
+
+export const geminiCancel = Ports.command('geminiCancel', Ports.string(isStreamId, 'a stream id'));
+
+export const geminiDelta = Ports.incoming<{ id: string; delta: GeminiClient.Delta }>('geminiDelta');
@@ -0,0 +1,211 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Typed Elm port layer.
+ *
+ * Each port is declared once (see `port-registry.ts`) with a decoder that
+ * checks its payload at runtime, since Elm's JSON encoding is not typed on
+ * this side. Commands are fire-and-forget messages from Elm. Requests pair
+ * an outgoing port with an incoming `<name>Response` port: Elm sends
+ * `{ id, payload }` and gets back `{ id, ok: true, payload }` or
+ * `{ id, ok: false, error: { code, message } }` with the same `id`, so it
+ * can match replies to requests still in flight. Incoming ports carry
+ * values JavaScript pushes to Elm on its own, such as stream events.
+ *
+ * Elm drops ports its program never uses, so a declared port may be missing
+ * from the running app; connecting it is reported, not fatal.
+ */
+
+export type Decoded<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type Decoder<T> = (value: unknown) => Decoded<T>;
+
+export interface Command<T> {
+  kind: 'command';
+  name: string;
+  decode: Decoder<T>;
+}
+
+export interface Request<Req, Res> {
+  kind: 'request';
+  name: string;
+  responseName: string;
+  decode: Decoder<Req>;
+  // Turn the handler's result into what Elm decodes
+  encode: (value: Res) => unknown;
+}
+
+export interface Incoming<T> {
+  kind: 'incoming';
+  name: string;
+  encode: (value: T) => unknown;
+}
+
+export interface ErrorReply {
+  code: string;
+  message: string;
+}
+
+export type Reply<T> = { id: string; ok: true; payload: T } | { id: string; ok: false; error: ErrorReply };
+
+/**
+ * Ports as compiled Elm exposes them: outgoing ports can be subscribed to,
+ * incoming ports accept values. Fakes in tests implement the same shape.
+ */
+export interface ElmApp {
+  ports?: Record<string, unknown>;
+}
+
+interface OutgoingPort {
+  subscribe: (callback: (value: unknown) => void) => void;
+  unsubscribe?: (callback: (value: unknown) => void) => void;
+}
+
+interface IncomingPort {
+  send: (value: unknown) => void;
+}
+
+export interface Bus {
+  on<T>(port: Command<T>, handler: (payload: T) => void | Promise<void>): void;
+  handle<Req, Res>(port: Request<Req, Res>, handler: (payload: Req) => Res | Promise<Res>): void;
+  send<T>(port: Incoming<T>, value: T): void;
+  // Unsubscribe every handler
+  dispose(): void;
+}
+
+/**
+ * Thrown by request handlers to choose the error code Elm receives.
+ * Other errors reply with `handler_failed`.
+ */
+export class PortError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PortError';
+  }
+}
+
+export function command<T>(name: string, decode: Decoder<T>): Command<T> {
+  return { kind: 'command', name, decode };
+}
+
+export function request<Req, Res>(
+  name: string,
+  decode: Decoder<Req>,
+  encode: (value: Res) => unknown = value => value
+): Request<Req, Res> {
+  return { kind: 'request', name, responseName: `${name}Response`, decode, encode };
+}
+
+export function incoming<T>(name: string, encode: (value: T) => unknown = value => value): Incoming<T> {
+  return { kind: 'incoming', name, encode };
+}
+
+// Decoders
+
+export function string<T extends string>(guard: (value: string) => value is T, expected: string): Decoder<T> {
+  return value =>
+    typeof value === 'string' && guard(value)
+      ? { ok: true, value }
+      : { ok: false, error: `Expected ${expected}, got ${JSON.stringify(value) ?? 'undefined'}` };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOutgoing(port: unknown): port is OutgoingPort {
+  return isRecord(port) && typeof port['subscribe'] === 'function';
+}
+
+function isIncoming(port: unknown): port is IncomingPort {
+  return isRecord(port) && typeof port['send'] === 'function';
+}
+
+function errorReply(error: unknown): ErrorReply {
+  if (error instanceof PortError) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: 'handler_failed', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Connect handlers to a running Elm app. Problems that cannot be replied to
+ * (missing ports, malformed commands or envelopes) go to `report`.
+ */
+export function connect(app: ElmApp, report: (message: string) => void = console.warn): Bus {
+  const ports = app.ports ?? {};
+  const subscriptions: Array<{ port: OutgoingPort; callback: (value: unknown) => void }> = [];
+
+  const subscribe = (name: string, callback: (value: unknown) => void): void => {
+    const port = ports[name];
+    if (!isOutgoing(port)) {
+      report(`Port ${name} is not exposed by the Elm app`);
+      return;
+    }
+    port.subscribe(callback);
+    subscriptions.push({ port, callback });
+  };
+
+  return {
+    on(port, handler) {
+      subscribe(port.name, value => {
+        const decoded = port.decode(value);
+        if (!decoded.ok) {
+          report(`Port ${port.name}: ${decoded.error}`);
+          return;
+        }
+        Promise.resolve()
+          .then(() => handler(decoded.value))
+          .catch((error: unknown) => report(`Port ${port.name}: ${errorReply(error).message}`));
+      });
+    },
+
+    handle(port, handler) {
+      const responses = ports[port.responseName];
+      if (!isIncoming(responses)) {
+        report(`Port ${port.responseName} is not exposed by the Elm app`);
+        return;
+      }
+      const reply = (message: Reply<unknown>): void => responses.send(message);
+
+      subscribe(port.name, envelope => {
+        if (!isRecord(envelope) || typeof envelope['id'] !== 'string') {
+          report(`Port ${port.name}: request without an id`);
+          return;
+        }
+        const id = envelope['id'];
+        const decoded = port.decode(envelope['payload']);
+        if (!decoded.ok) {
+          reply({ id, ok: false, error: { code: 'invalid_payload', message: decoded.error } });
+          return;
+        }
+        Promise.resolve()
+          .then(() => handler(decoded.value))
+          .then(
+            payload => reply({ id, ok: true, payload: port.encode(payload) }),
+            (error: unknown) => reply({ id, ok: false, error: errorReply(error) })
+          );
+      });
+    },
+
+    send(port, value) {
+      const target = ports[port.name];
+      if (!isIncoming(target)) {
+        report(`Port ${port.name} is not exposed by the Elm app`);
+        return;
+      }
+      target.send(port.encode(value));
+    },
+
+    dispose() {
+      for (const { port, callback } of subscriptions.splice(0)) {
+        port.unsubscribe?.(callback);
+      }
+    },
+  };
+}
@@ -2,19 +2,87 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
+/**
+ * Theme preference. `system` follows the OS color scheme: the saved value
+ * stays `system` while the document gets the theme it currently resolves to.
+ * A profile with nothing saved counts as `system`.
+ */
+
 export const STORAGE_KEY = 'theme';
 
+export const DARK_QUERY = '(prefers-color-scheme: dark)';
+
 export type Theme = 'light' | 'dark';
 
+export type Preference = Theme | 'system';
+
 export function isTheme(value: string): value is Theme {
   return value === 'light' || value === 'dark';
 }
 
-export function set(theme: Theme): void {
+export function isPreference(value: string): value is Preference {
+  return isTheme(value) || value === 'system';
+}
+
+export function resolve(preference: Preference): Theme {
+  if (preference !== 'system') {
+    return preference;
+  }
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+// Charts pick their palette from the theme property, not the document
+function apply(theme: Theme): void {
   document.documentElement.setAttribute('data-theme', theme);
-  localStorage.setItem(STORAGE_KEY, theme);
+  document.querySelectorAll('ds-chart').forEach(chart => {
+    chart.theme = theme;
+  });
+}
+
+/**
+ * Save a preference and apply the theme it resolves to, which is returned.
+ */
+export function set(preference: Preference): Theme {
+  const theme = resolve(preference);
+  apply(theme);
+  localStorage.setItem(STORAGE_KEY, preference);
+  return theme;
 }
 
 export function load(): string | null {
   return localStorage.getItem(STORAGE_KEY);
 }
+
+// The saved preference, or `system` when nothing valid is saved
+export function current(): Preference {
+  const saved = load();
+  return saved !== null && isPreference(saved) ? saved : 'system';
+}
+
+/**
+ * Apply the current preference without saving it, returning the theme.
+ */
+export function restore(): Theme {
+  const theme = resolve(current());
+  apply(theme);
+  return theme;
+}
+
+/**
+ * Re-apply the theme when the OS color scheme flips while the preference
+ * is `system`, calling `onChange` with the new theme.
+ * Returns a function that stops listening.
+ */
+export function follow(onChange: (theme: Theme) => void): () => void {
+  const media = window.matchMedia(DARK_QUERY);
+  const listener = (event: MediaQueryListEvent): void => {
+    if (current() !== 'system') {
+      return;
+    }
+    const theme = event.matches ? 'dark' : 'light';
+    apply(theme);
+    onChange(theme);
+  };
+  media.addEventListener('change', listener);
+  return () => media.removeEventListener('change', listener);
+}
@@ -12,7 +12,7 @@ export default defineConfig({
     port: 5173,
     strictPort: true,
     fs: {
-      allow: ['.', '../infra/design-system'],
+      allow: ['.', '../infra/design-system', '../proxy/src'],
     },
     watch: {
       ignored: ['**/platform/**', '**/*.elm'],
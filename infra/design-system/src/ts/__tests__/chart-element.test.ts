@@ -177,6 +177,56 @@ describe('ds-chart', () => {
     expect(mockSetOption).toHaveBeenCalledTimes(initialCalls);
   });
 
+  it('defaults language to the document lang attribute', () => {
+    document.documentElement.lang = 'ru';
+    const el = document.createElement('ds-chart');
+    document.documentElement.removeAttribute('lang');
+
+    expect(el.language).toBe('ru');
+  });
+
+  it('re-renders with the formatter for a new language', () => {
+    const el = document.createElement('ds-chart');
+    const config: Charts.HistogramChartConfig = {
+      type: 'histogram',
+      title: 'Test',
+      data: [1, 2],
+      bins: 1,
+    };
+    el.config = config;
+    el.language = 'en';
+    document.body.appendChild(el);
+
+    el.language = 'ru';
+
+    expect(mockSetOption).toHaveBeenCalledTimes(2);
+    const calls = mockSetOption.mock.calls;
+    if (calls[1] === undefined) {
+      throw new Error('Expected setOption to be called twice');
+    }
+    expect(calls[1][0].xAxis.data).toEqual(['1,0–2,0']);
+  });
+
+  it('formats with the default language when lang is not supported', () => {
+    document.documentElement.lang = 'de';
+    const el = document.createElement('ds-chart');
+    document.documentElement.removeAttribute('lang');
+    const config: Charts.HistogramChartConfig = {
+      type: 'histogram',
+      title: 'Test',
+      data: [1, 2],
+      bins: 1,
+    };
+    el.config = config;
+    document.body.appendChild(el);
+
+    const calls = mockSetOption.mock.calls;
+    if (calls[0] === undefined) {
+      throw new Error('Expected setOption to be called');
+    }
+    expect(calls[0][0].xAxis.data).toEqual(['1,0–2,0']);
+  });
+
   it('disposes ECharts on disconnect', () => {
     const el = document.createElement('ds-chart');
     const config: Charts.LineChartConfig = {
@@ -4,6 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import * as Charts from '../charts.ts';
+import * as Format from '../format.ts';
 import * as Setup from './setup.ts';
 
 // For calling functions that may have dynamic types
@@ -17,6 +18,7 @@ function callIfFunction(value: unknown, args: unknown[]): unknown {
 // Set up CSS properties once, then get tokens from the real function
 Setup.setupCssProperties();
 const tokens = Charts.getChartTokens();
+const ru = Format.formatter('ru');
 
 // ============================================================================
 // Shared Expectations
@@ -53,6 +55,7 @@ const tooltipAxisExpectation = {
   borderColor: '#d1dede',
   borderWidth: 3,
   textStyle: primaryTextStyle,
+  valueFormatter: expect.any(Function),
 };
 
 const tooltipItemExpectation = { ...tooltipAxisExpectation, trigger: 'item' };
@@ -92,7 +95,7 @@ function categoryAxisExpectation(data: string[]) {
 const valueAxisExpectation = {
   type: 'value',
   axisLine: { lineStyle: { color: '#d1dede' } },
-  axisLabel: secondaryTextStyle,
+  axisLabel: { ...secondaryTextStyle, formatter: expect.any(Function) },
   splitLine: { lineStyle: { color: '#d1dede' } },
   nameTextStyle: primaryTextStyle,
 };
@@ -202,6 +205,14 @@ describe('tooltipStyle', () => {
 
     expect(result).toEqual(tooltipItemExpectation);
   });
+
+  it('formats numbers, tuples and placeholders for the language', () => {
+    const result = Charts.tooltipStyle(tokens, 'item', ru);
+
+    expect(result.valueFormatter(0.5)).toBe('0,5');
+    expect(result.valueFormatter([1.5, 2])).toBe('1,5; 2');
+    expect(result.valueFormatter('-')).toBe('-');
+  });
 });
 
 describe('legendStyle', () => {
@@ -258,6 +269,13 @@ describe('valueAxisStyle', () => {
 
     expect(result).toEqual(valueAxisExpectation);
   });
+
+  it('formats axis labels for the language', () => {
+    const result = Charts.valueAxisStyle(tokens, 'Time', ru);
+
+    expect(result.axisLabel.formatter(0.25)).toBe('0,25');
+    expect(result.axisLabel.formatter(2e7)).toBe('2·10⁷');
+  });
 });
 
 describe('labelStyle', () => {
@@ -582,12 +600,13 @@ describe('gaugeToECharts', () => {
           data: [{ value: 75 }],
           progress: { show: true, itemStyle: { color: '#0f766e' } },
           axisLine: { lineStyle: { color: [[1, '#d1dede']], width: 9 } },
-          axisLabel: secondaryTextStyle,
+          axisLabel: { ...secondaryTextStyle, formatter: expect.any(Function) },
           detail: {
             fontFamily: 'Nunito, sans-serif',
             fontSize: '1.125rem',
             fontWeight: 600,
             color: '#0f766e',
+            formatter: expect.any(Function),
             valueAnimation: true,
           },
           pointer: { itemStyle: { color: '#0f766e' } },
@@ -629,11 +648,23 @@ describe('heatmapToECharts', () => {
             [0, 0, 10],
             [1, 1, 20],
           ],
-          label: { show: true, ...labelInverseExpectation },
+          label: { show: true, ...labelInverseExpectation, formatter: expect.any(Function) },
         },
       ],
     });
   });
+
+  it('formats cell labels for the language', () => {
+    const input: Charts.HeatmapChartConfig = {
+      type: 'heatmap',
+      title: 'Activity',
+      data: [{ x: 'Mon', y: 'AM', value: 0.5 }],
+    };
+
+    const result = Charts.heatmapToECharts(input, tokens, ru);
+
+    expect(result.series[0].label.formatter({ value: [0, 0, 0.5] })).toBe('0,5');
+  });
 });
 
 describe('histogramToECharts', () => {
@@ -651,7 +682,7 @@ describe('histogramToECharts', () => {
       title: { text: 'Distribution', ...titleExpectation },
       tooltip: tooltipAxisExpectation,
       grid: gridNoLegendExpectation,
-      xAxis: categoryAxisExpectation(['10.0-20.0', '20.0-30.0']),
+      xAxis: categoryAxisExpectation(['10,0–20,0', '20,0–30,0']),
       yAxis: valueAxisExpectation,
       series: [
         {
@@ -663,6 +694,19 @@ describe('histogramToECharts', () => {
       ],
     });
   });
+
+  it('labels bins with the language decimal separator', () => {
+    const input: Charts.HistogramChartConfig = {
+      type: 'histogram',
+      title: 'Distribution',
+      data: [0.5, 1.5, 2.5],
+      bins: 2,
+    };
+
+    const result = Charts.histogramToECharts(input, tokens, ru);
+
+    expect(result.xAxis.data).toEqual(['0,5–1,5', '1,5–2,5']);
+  });
 });
 
 describe('boxplotToECharts', () => {
@@ -904,4 +948,12 @@ describe('toEChartsOption', () => {
       expect(() => Charts.toEChartsOption(config, tokens)).not.toThrow();
     });
   });
+
+  it('passes the formatter to the transform', () => {
+    const config: Charts.ChartConfig = { type: 'histogram', title: 'T', data: [1, 2], bins: 1 };
+
+    const result = Charts.toEChartsOption(config, tokens, ru);
+
+    expect(result.xAxis).toMatchObject({ data: ['1,0–2,0'] });
+  });
 });
@@ -0,0 +1,138 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, vi } from 'vitest';
+import * as Format from '../format.ts';
+
+const en = Format.formatter('en');
+const ru = Format.formatter('ru');
+
+// Russian digit groups and units are separated by no-break spaces
+const NBSP = '\u00a0';
+
+describe('formatter', () => {
+  it('caches one formatter per language', () => {
+    expect(Format.formatter('ru')).toBe(ru);
+    expect(ru.language).toBe('ru');
+  });
+});
+
+describe('number', () => {
+  it('uses the language decimal and group separators', () => {
+    expect(en.number(1234.5)).toBe('1,234.5');
+    expect(ru.number(12345.5)).toBe(`12${NBSP}345,5`);
+  });
+
+  it('rounds to significant digits', () => {
+    expect(en.number(1234.5678, 3)).toBe('1,230');
+    expect(ru.number(0.012345, 2)).toBe('0,012');
+  });
+});
+
+describe('fixed', () => {
+  it('keeps exactly the given decimals', () => {
+    expect(en.fixed(10, 1)).toBe('10.0');
+    expect(ru.fixed(2.25, 1)).toBe('2,3');
+  });
+});
+
+describe('scientific', () => {
+  it('writes the exponent as a power of ten', () => {
+    expect(en.scientific(12345)).toBe('1.23×10⁴');
+    expect(ru.scientific(12345)).toBe('1,23·10⁴');
+  });
+
+  it('handles negative values and exponents', () => {
+    expect(en.scientific(-0.000123)).toBe('-1.23×10⁻⁴');
+  });
+
+  it('drops a zero exponent', () => {
+    expect(en.scientific(5)).toBe('5');
+  });
+});
+
+describe('engineering', () => {
+  it('uses exponents that are multiples of three', () => {
+    expect(en.engineering(12345)).toBe('12.3×10³');
+    expect(ru.engineering(0.000123)).toBe('123·10⁻⁶');
+  });
+});
+
+describe('si', () => {
+  it('picks the prefix for the magnitude', () => {
+    expect(en.si(0.00123, 'A')).toBe(`1.23${NBSP}mA`);
+    expect(en.si(4.7e-6, 'F')).toBe(`4.7${NBSP}µF`);
+    expect(ru.si(1500, 'Hz')).toBe(`1,5${NBSP}kHz`);
+  });
+
+  it('carries rounding into the next prefix', () => {
+    expect(en.si(999.96, 'Hz')).toBe(`1${NBSP}kHz`);
+  });
+
+  it('omits the space without a prefix or unit', () => {
+    expect(en.si(12)).toBe('12');
+    expect(en.si(0, 'm')).toBe(`0${NBSP}m`);
+  });
+
+  it('stops at the largest prefix', () => {
+    expect(en.si(1e33, 'g')).toBe(`1,000${NBSP}Qg`);
+  });
+});
+
+describe('value', () => {
+  it('hides floating point noise in plain notation', () => {
+    expect(en.value(0.1 + 0.2)).toBe('0.3');
+    expect(ru.value(2.5)).toBe('2,5');
+  });
+
+  it('switches to scientific outside the readable range', () => {
+    expect(en.value(1234567)).toBe('1.23457×10⁶');
+    expect(ru.value(-0.0001)).toBe('-1·10⁻⁴');
+    expect(en.value(0)).toBe('0');
+  });
+});
+
+describe('range', () => {
+  it('joins bounds with an en dash', () => {
+    expect(en.range(-5, 12.5, 1)).toBe('-5.0–12.5');
+    expect(ru.range(10, 20, 1)).toBe('10,0–20,0');
+  });
+});
+
+describe('list', () => {
+  it('avoids commas between Russian decimals', () => {
+    expect(en.list([1.5, 2])).toBe('1.5, 2');
+    expect(ru.list([1.5, 2])).toBe('1,5; 2');
+  });
+});
+
+describe('date', () => {
+  const date = new Date(2025, 2, 14, 9, 5);
+
+  it('formats dates in the language', () => {
+    expect(en.date(date)).toBe('Mar 14, 2025');
+    expect(ru.date(date)).toBe('14 мар. 2025 г.');
+  });
+
+  it('formats times', () => {
+    expect(ru.date(date, 'time')).toBe('09:05');
+  });
+
+  it('reuses one Intl formatter per style', () => {
+    let created = 0;
+    const Counting = class extends Intl.DateTimeFormat {
+      constructor(...args: ConstructorParameters<typeof Intl.DateTimeFormat>) {
+        super(...args);
+        created++;
+      }
+    };
+    vi.stubGlobal('Intl', { ...Intl, DateTimeFormat: Counting });
+    const formatted = [1, 2, 3].map(() => en.date(date, 'datetime'));
+    vi.unstubAllGlobals();
+
+    expect(formatted[0]).toContain('Mar 14, 2025');
+    expect(new Set(formatted).size).toBe(1);
+    expect(created).toBe(1);
+  });
+});
@@ -10,17 +10,21 @@
  * Properties:
  *   - config: ChartConfig | null - chart configuration, triggers re-render
  *   - theme: 'light' | 'dark' - theme name, triggers re-render on change
+ *   - language: 'en' | 'ru' - number formatting, triggers re-render on change;
+ *     defaults to the document's lang attribute, or Russian when that is not one
  *
  * Elm usage:
  *   Html.node "ds-chart"
  *       [ Attrs.property "config" chartJson
  *       , Attrs.property "theme" (Encode.string model.theme)
+ *       , Attrs.property "language" (Encode.string model.language)
  *       ]
  *       []
  */
 
 import * as echarts from 'echarts';
 import * as Charts from './charts.ts';
+import * as Format from './format.ts';
 
 // Extend HTMLElementTagNameMap so document.createElement('ds-chart') returns DsChart
 declare global {
@@ -32,6 +36,7 @@ declare global {
 export class DsChart extends HTMLElement {
   private _config: Charts.ChartConfig | null = null;
   private _theme = 'light';
+  private _language = document.documentElement.lang;
   private _chart: echarts.ECharts | null = null;
   private _resizeObserver: ResizeObserver | null = null;
 
@@ -76,6 +81,19 @@ export class DsChart extends HTMLElement {
     }
   }
 
+  get language(): string {
+    return this._language;
+  }
+
+  set language(value: string) {
+    if (this._language !== value) {
+      this._language = value;
+      if (this.isConnected && this._config) {
+        this.render();
+      }
+    }
+  }
+
   private render(): void {
     if (!this._config) return;
 
@@ -84,7 +102,8 @@ export class DsChart extends HTMLElement {
     }
 
     const tokens = Charts.getChartTokens();
-    const option = Charts.toEChartsOption(this._config, tokens);
+    const format = Format.formatter(Format.isLanguage(this._language) ? this._language : Format.DEFAULT_LANGUAGE);
+    const option = Charts.toEChartsOption(this._config, tokens, format);
     this._chart.setOption(option, true);
   }
 }
@@ -8,8 +8,11 @@
  * Input types are simple, strictly-typed interfaces for LLM generation.
  * Transform functions convert to ECharts options with theme applied.
  * Colors are applied automatically by array index from design tokens.
+ * Numbers in axis labels, tooltips and data labels go through the
+ * formatter for the chart's language.
  */
 
+import * as Format from './format.ts';
 import * as Tokens from './tokens.js';
 
 // ============================================================================
@@ -54,6 +57,10 @@ interface PositionStyle {
   right: number;
 }
 
+interface FormattedTextStyle extends TextStyle {
+  formatter: (value: number) => string;
+}
+
 // Data point types
 export type Point2D = [number, number];
 export type Point3D = [number, number, number];
@@ -92,6 +99,8 @@ interface TooltipOption {
   borderColor: string;
   borderWidth: number;
   textStyle: TextStyle;
+  // Values are numbers, tuples for scatter and boxplot, or '-' for empty waterfall bars
+  valueFormatter: (value: unknown) => string;
 }
 
 interface LegendOption {
@@ -125,7 +134,7 @@ interface CategoryAxisOptionWithName extends CategoryAxisOption {
 interface ValueAxisOption {
   type: 'value';
   axisLine: { lineStyle: LineStyle };
-  axisLabel: TextStyle;
+  axisLabel: FormattedTextStyle;
   splitLine: { lineStyle: LineStyle };
   nameTextStyle: TextStyle;
 }
@@ -237,15 +246,15 @@ interface GaugeSeriesOption extends PositionStyle {
   data: GaugeDataOption[];
   axisLine: { lineStyle: { color: Array<[number, string]>; width: number } };
   progress: { show: boolean; itemStyle: ItemStyle };
-  axisLabel: TextStyle;
-  detail: TextStyle & { valueAnimation: boolean };
+  axisLabel: FormattedTextStyle;
+  detail: FormattedTextStyle & { valueAnimation: boolean };
   pointer: { itemStyle: ItemStyle };
 }
 
 interface HeatmapSeriesOption {
   type: 'heatmap';
   data: Point3D[];
-  label: LabelStyle & { show: boolean };
+  label: LabelStyle & { show: boolean; formatter: (params: { value: unknown }) => string };
 }
 
 interface VisualMapOption {
@@ -726,40 +735,44 @@ export type ChartConfig =
 // Main Transform Function
 // ============================================================================
 
-export function toEChartsOption(config: ChartConfig, tokens: ChartTokens): ChartOption {
+export function toEChartsOption(
+  config: ChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): ChartOption {
   switch (config.type) {
     case 'line':
-      return lineToECharts(config, tokens);
+      return lineToECharts(config, tokens, format);
     case 'bar':
-      return barToECharts(config, tokens);
+      return barToECharts(config, tokens, format);
     case 'area':
-      return areaToECharts(config, tokens);
+      return areaToECharts(config, tokens, format);
     case 'scatter':
-      return scatterToECharts(config, tokens);
+      return scatterToECharts(config, tokens, format);
     case 'bubble':
-      return bubbleToECharts(config, tokens);
+      return bubbleToECharts(config, tokens, format);
     case 'pie':
-      return pieToECharts(config, tokens);
+      return pieToECharts(config, tokens, format);
     case 'donut':
-      return donutToECharts(config, tokens);
+      return donutToECharts(config, tokens, format);
     case 'radar':
-      return radarToECharts(config, tokens);
+      return radarToECharts(config, tokens, format);
     case 'gauge':
-      return gaugeToECharts(config, tokens);
+      return gaugeToECharts(config, tokens, format);
     case 'heatmap':
-      return heatmapToECharts(config, tokens);
+      return heatmapToECharts(config, tokens, format);
     case 'histogram':
-      return histogramToECharts(config, tokens);
+      return histogramToECharts(config, tokens, format);
     case 'boxplot':
-      return boxplotToECharts(config, tokens);
+      return boxplotToECharts(config, tokens, format);
     case 'waterfall':
-      return waterfallToECharts(config, tokens);
+      return waterfallToECharts(config, tokens, format);
     case 'funnel':
-      return funnelToECharts(config, tokens);
+      return funnelToECharts(config, tokens, format);
     case 'treemap':
-      return treemapToECharts(config, tokens);
+      return treemapToECharts(config, tokens, format);
     case 'sankey':
-      return sankeyToECharts(config, tokens);
+      return sankeyToECharts(config, tokens, format);
   }
 }
 
@@ -767,6 +780,9 @@ export function toEChartsOption(config: ChartConfig, tokens: ChartTokens): Chart
 // Shared Style Helpers (exported for testing)
 // ============================================================================
 
+// Charts rendered without a language use the app's default
+const DEFAULT_FORMAT = Format.formatter(Format.DEFAULT_LANGUAGE);
+
 // Safe color accessor that handles empty arrays gracefully
 export function getColor(tokens: ChartTokens, index: number): string {
   const colors = tokens.dataColors;
@@ -811,13 +827,27 @@ export function titleStyle(title: string, tokens: ChartTokens) {
   };
 }
 
-export function tooltipStyle(tokens: ChartTokens, trigger: 'axis' | 'item' = 'axis') {
+export function tooltipStyle(
+  tokens: ChartTokens,
+  trigger: 'axis' | 'item' = 'axis',
+  format: Format.Formatter = DEFAULT_FORMAT
+): TooltipOption {
+  const formatValue = (value: unknown): string => {
+    if (typeof value === 'number') {
+      return format.value(value);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+      return format.list(value);
+    }
+    return String(value ?? '');
+  };
   return {
     trigger,
     backgroundColor: tokens.bgSurface,
     borderColor: tokens.border,
     borderWidth: tokens.space1,
     textStyle: primaryTextStyle(tokens),
+    valueFormatter: formatValue,
   };
 }
 
@@ -892,13 +922,17 @@ export function categoryAxisStyle(
   return base;
 }
 
-export function valueAxisStyle(tokens: ChartTokens): ValueAxisOption;
-export function valueAxisStyle(tokens: ChartTokens, name: string): ValueAxisOptionWithName;
-export function valueAxisStyle(tokens: ChartTokens, name?: string): ValueAxisOption | ValueAxisOptionWithName {
+export function valueAxisStyle(tokens: ChartTokens, name?: undefined, format?: Format.Formatter): ValueAxisOption;
+export function valueAxisStyle(tokens: ChartTokens, name: string, format?: Format.Formatter): ValueAxisOptionWithName;
+export function valueAxisStyle(
+  tokens: ChartTokens,
+  name?: string,
+  format: Format.Formatter = DEFAULT_FORMAT
+): ValueAxisOption | ValueAxisOptionWithName {
   const base: ValueAxisOption = {
     type: 'value',
     axisLine: { lineStyle: { color: tokens.border } },
-    axisLabel: secondaryTextStyle(tokens),
+    axisLabel: { ...secondaryTextStyle(tokens), formatter: format.value },
     splitLine: { lineStyle: { color: tokens.border } },
     nameTextStyle: primaryTextStyle(tokens),
   };
@@ -934,17 +968,21 @@ export function labelStyleInverse(tokens: ChartTokens): LabelStyle {
 // Individual Transform Functions (exported for testing)
 // ============================================================================
 
-export function lineToECharts(config: LineChartConfig, tokens: ChartTokens): LineChartOption {
+export function lineToECharts(
+  config: LineChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): LineChartOption {
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens),
+    tooltip: tooltipStyle(tokens, 'axis', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
     ),
     grid: gridStyle(tokens),
     xAxis: categoryAxisStyle(config.xAxis, tokens),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: config.series.map((s, i) => ({
       name: s.name,
       type: 'line' as const,
@@ -955,17 +993,21 @@ export function lineToECharts(config: LineChartConfig, tokens: ChartTokens): Lin
   };
 }
 
-export function barToECharts(config: BarChartConfig, tokens: ChartTokens): BarChartOption {
+export function barToECharts(
+  config: BarChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): BarChartOption {
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens),
+    tooltip: tooltipStyle(tokens, 'axis', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
     ),
     grid: gridStyle(tokens),
     xAxis: categoryAxisStyle(config.xAxis, tokens),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: config.series.map((s, i) => ({
       name: s.name,
       type: 'bar' as const,
@@ -976,17 +1018,21 @@ export function barToECharts(config: BarChartConfig, tokens: ChartTokens): BarCh
   };
 }
 
-export function areaToECharts(config: AreaChartConfig, tokens: ChartTokens): AreaChartOption {
+export function areaToECharts(
+  config: AreaChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): AreaChartOption {
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens),
+    tooltip: tooltipStyle(tokens, 'axis', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
     ),
     grid: gridStyle(tokens),
     xAxis: categoryAxisStyle(config.xAxis, tokens),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: config.series.map((s, i) => ({
       name: s.name,
       type: 'line' as const,
@@ -998,10 +1044,14 @@ export function areaToECharts(config: AreaChartConfig, tokens: ChartTokens): Are
   };
 }
 
-export function scatterToECharts(config: ScatterChartConfig, tokens: ChartTokens): ScatterChartOption {
+export function scatterToECharts(
+  config: ScatterChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): ScatterChartOption {
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1010,8 +1060,8 @@ export function scatterToECharts(config: ScatterChartConfig, tokens: ChartTokens
       ...gridStyle(tokens),
       bottom: tokens.space20 + tokens.space6,
     },
-    xAxis: valueAxisStyle(tokens, config.xAxisName),
-    yAxis: valueAxisStyle(tokens, config.yAxisName),
+    xAxis: valueAxisStyle(tokens, config.xAxisName, format),
+    yAxis: valueAxisStyle(tokens, config.yAxisName, format),
     series: config.series.map((s, i) => ({
       name: s.name,
       type: 'scatter' as const,
@@ -1022,10 +1072,14 @@ export function scatterToECharts(config: ScatterChartConfig, tokens: ChartTokens
   };
 }
 
-export function bubbleToECharts(config: BubbleChartConfig, tokens: ChartTokens): BubbleChartOption {
+export function bubbleToECharts(
+  config: BubbleChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): BubbleChartOption {
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1034,8 +1088,8 @@ export function bubbleToECharts(config: BubbleChartConfig, tokens: ChartTokens):
       ...gridStyle(tokens),
       bottom: tokens.space20 + tokens.space6,
     },
-    xAxis: valueAxisStyle(tokens, config.xAxisName),
-    yAxis: valueAxisStyle(tokens, config.yAxisName),
+    xAxis: valueAxisStyle(tokens, config.xAxisName, format),
+    yAxis: valueAxisStyle(tokens, config.yAxisName, format),
     series: config.series.map((s, i) => ({
       name: s.name,
       type: 'scatter' as const,
@@ -1047,11 +1101,15 @@ export function bubbleToECharts(config: BubbleChartConfig, tokens: ChartTokens):
   };
 }
 
-export function pieToECharts(config: PieChartConfig, tokens: ChartTokens): PieChartOption {
+export function pieToECharts(
+  config: PieChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): PieChartOption {
   const content = contentStyle(tokens);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1075,11 +1133,15 @@ export function pieToECharts(config: PieChartConfig, tokens: ChartTokens): PieCh
   };
 }
 
-export function donutToECharts(config: DonutChartConfig, tokens: ChartTokens): DonutChartOption {
+export function donutToECharts(
+  config: DonutChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): DonutChartOption {
   const content = contentStyle(tokens);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1103,11 +1165,15 @@ export function donutToECharts(config: DonutChartConfig, tokens: ChartTokens): D
   };
 }
 
-export function radarToECharts(config: RadarChartConfig, tokens: ChartTokens): RadarChartOption {
+export function radarToECharts(
+  config: RadarChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): RadarChartOption {
   const content = contentStyle(tokens);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1138,12 +1204,16 @@ export function radarToECharts(config: RadarChartConfig, tokens: ChartTokens): R
   };
 }
 
-export function gaugeToECharts(config: GaugeChartConfig, tokens: ChartTokens): GaugeChartOption {
+export function gaugeToECharts(
+  config: GaugeChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): GaugeChartOption {
   const content = contentStyleNoLegend(tokens);
   const color = getColor(tokens, 0);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     series: [
       {
         type: 'gauge' as const,
@@ -1157,12 +1227,13 @@ export function gaugeToECharts(config: GaugeChartConfig, tokens: ChartTokens): G
         data: [{ value: config.value }],
         progress: { show: true, itemStyle: { color } },
         axisLine: { lineStyle: { color: [[1, tokens.border]], width: tokens.space3 } },
-        axisLabel: secondaryTextStyle(tokens),
+        axisLabel: { ...secondaryTextStyle(tokens), formatter: format.value },
         detail: {
           fontFamily: tokens.fontSans,
           fontSize: tokens.fontSizeLg,
           fontWeight: tokens.fontWeightSemibold,
           color,
+          formatter: format.value,
           valueAnimation: true,
         },
         pointer: { itemStyle: { color } },
@@ -1171,7 +1242,11 @@ export function gaugeToECharts(config: GaugeChartConfig, tokens: ChartTokens): G
   };
 }
 
-export function heatmapToECharts(config: HeatmapChartConfig, tokens: ChartTokens): HeatmapChartOption {
+export function heatmapToECharts(
+  config: HeatmapChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): HeatmapChartOption {
   // Extract unique x and y values preserving order of first occurrence
   const xValues: string[] = [];
   const yValues: string[] = [];
@@ -1185,7 +1260,7 @@ export function heatmapToECharts(config: HeatmapChartConfig, tokens: ChartTokens
 
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     grid: gridStyleNoLegend(tokens),
     xAxis: categoryAxisStyle(xValues, tokens),
     yAxis: categoryAxisStyle(yValues, tokens),
@@ -1199,13 +1274,22 @@ export function heatmapToECharts(config: HeatmapChartConfig, tokens: ChartTokens
       {
         type: 'heatmap' as const,
         data: indexedData,
-        label: { show: true, ...labelStyleInverse(tokens) },
+        label: {
+          show: true,
+          ...labelStyleInverse(tokens),
+          // Cells are [x, y, value]
+          formatter: params => (Array.isArray(params.value) ? format.value(Number(params.value[2])) : ''),
+        },
       },
     ],
   };
 }
 
-export function histogramToECharts(config: HistogramChartConfig, tokens: ChartTokens): HistogramChartOption {
+export function histogramToECharts(
+  config: HistogramChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): HistogramChartOption {
   const min = Math.min(...config.data);
   const max = Math.max(...config.data);
   const binWidth = (max - min) / config.bins;
@@ -1213,18 +1297,18 @@ export function histogramToECharts(config: HistogramChartConfig, tokens: ChartTo
     const binStart = min + i * binWidth;
     const binEnd = binStart + binWidth;
     const count = config.data.filter(d => d >= binStart && (i === config.bins - 1 ? d <= binEnd : d < binEnd)).length;
-    return { label: `${binStart.toFixed(1)}-${binEnd.toFixed(1)}`, count };
+    return { label: format.range(binStart, binEnd, 1), count };
   });
 
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens),
+    tooltip: tooltipStyle(tokens, 'axis', format),
     grid: gridStyleNoLegend(tokens),
     xAxis: categoryAxisStyle(
       bins.map(b => b.label),
       tokens
     ),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: [
       {
         type: 'bar' as const,
@@ -1236,16 +1320,20 @@ export function histogramToECharts(config: HistogramChartConfig, tokens: ChartTo
   };
 }
 
-export function boxplotToECharts(config: BoxplotChartConfig, tokens: ChartTokens): BoxplotChartOption {
+export function boxplotToECharts(
+  config: BoxplotChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): BoxplotChartOption {
   const categories = config.data.map(d => d.category);
   const values = config.data.map(d => [d.min, d.q1, d.median, d.q3, d.max]);
 
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     grid: gridStyleNoLegend(tokens),
     xAxis: categoryAxisStyle(categories, tokens),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: [
       {
         type: 'boxplot' as const,
@@ -1259,7 +1347,11 @@ export function boxplotToECharts(config: BoxplotChartConfig, tokens: ChartTokens
   };
 }
 
-export function waterfallToECharts(config: WaterfallChartConfig, tokens: ChartTokens): WaterfallChartOption {
+export function waterfallToECharts(
+  config: WaterfallChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): WaterfallChartOption {
   const labels = config.data.map(d => d.label);
   const placeholder: number[] = [];
   const increase: (number | string)[] = [];
@@ -1291,10 +1383,10 @@ export function waterfallToECharts(config: WaterfallChartConfig, tokens: ChartTo
 
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens),
+    tooltip: tooltipStyle(tokens, 'axis', format),
     grid: gridStyleNoLegend(tokens),
     xAxis: categoryAxisStyle(labels, tokens),
-    yAxis: valueAxisStyle(tokens),
+    yAxis: valueAxisStyle(tokens, undefined, format),
     series: [
       {
         type: 'bar' as const,
@@ -1320,11 +1412,15 @@ export function waterfallToECharts(config: WaterfallChartConfig, tokens: ChartTo
   };
 }
 
-export function funnelToECharts(config: FunnelChartConfig, tokens: ChartTokens): FunnelChartOption {
+export function funnelToECharts(
+  config: FunnelChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): FunnelChartOption {
   const content = contentStyle(tokens);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     legend: legendStyle(
       config.series.map(s => s.name),
       tokens
@@ -1347,11 +1443,15 @@ export function funnelToECharts(config: FunnelChartConfig, tokens: ChartTokens):
   };
 }
 
-export function treemapToECharts(config: TreemapChartConfig, tokens: ChartTokens): TreemapChartOption {
+export function treemapToECharts(
+  config: TreemapChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): TreemapChartOption {
   const content = contentStyleNoLegend(tokens);
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     series: [
       {
         type: 'treemap' as const,
@@ -1372,7 +1472,11 @@ export function treemapToECharts(config: TreemapChartConfig, tokens: ChartTokens
   };
 }
 
-export function sankeyToECharts(config: SankeyChartConfig, tokens: ChartTokens): SankeyChartOption {
+export function sankeyToECharts(
+  config: SankeyChartConfig,
+  tokens: ChartTokens,
+  format: Format.Formatter = DEFAULT_FORMAT
+): SankeyChartOption {
   const content = contentStyleNoLegend(tokens);
   // Extract unique nodes and identify rightmost nodes (targets that are never sources)
   const sources = new Set<string>();
@@ -1387,7 +1491,7 @@ export function sankeyToECharts(config: SankeyChartConfig, tokens: ChartTokens):
 
   return {
     title: titleStyle(config.title, tokens),
-    tooltip: tooltipStyle(tokens, 'item'),
+    tooltip: tooltipStyle(tokens, 'item', format),
     series: [
       {
         type: 'sankey' as const,
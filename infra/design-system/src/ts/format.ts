@@ -0,0 +1,211 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Locale-aware number and date formatting.
+ *
+ * One formatter per app language, shared by chart transforms and the
+ * bridge so every number on screen uses the same separators: Russian
+ * writes 12 345,6 where English writes 12,345.6. Built on Intl, with
+ * scientific and engineering notation written as `1.23×10⁴` (`1,23·10⁴`
+ * in Russian) rather than Intl's `1.23E4`, and SI prefixes using the
+ * international symbols in both languages, after a no-break space.
+ */
+
+export type Language = 'en' | 'ru';
+
+export type DateStyle = 'date' | 'time' | 'datetime';
+
+// The app's language until the user picks one, matching the view and the bridge
+export const DEFAULT_LANGUAGE: Language = 'ru';
+
+export interface Formatter {
+  language: Language;
+  // Plain notation, rounded to `digits` significant digits when given
+  number(value: number, digits?: number): string;
+  // Plain notation with exactly `fractionDigits` decimals
+  fixed(value: number, fractionDigits: number): string;
+  scientific(value: number, digits?: number): string;
+  // Scientific with the exponent a multiple of three
+  engineering(value: number, digits?: number): string;
+  // With an SI prefix, e.g. `si(0.00123, 'A')` is `1.23 mA`
+  si(value: number, unit?: string, digits?: number): string;
+  // Plain notation in the readable range, scientific outside it; for axes and tooltips
+  value(value: number): string;
+  range(start: number, end: number, fractionDigits: number): string;
+  // A tuple of values; Russian separates with semicolons since commas are decimal marks
+  list(values: number[]): string;
+  date(value: Date | number, style?: DateStyle): string;
+}
+
+// Significant digits for scientific, engineering and SI output
+const DEFAULT_DIGITS = 3;
+
+// Significant digits `value` keeps in plain notation
+const VALUE_DIGITS = 6;
+
+// `value` switches to scientific notation outside [1e-3, 1e6)
+const PLAIN_MIN = 1e-3;
+const PLAIN_MAX = 1e6;
+
+// From quecto (10⁻³⁰) to quetta (10³⁰)
+const SI_PREFIXES = [
+  'q',
+  'r',
+  'y',
+  'z',
+  'a',
+  'f',
+  'p',
+  'n',
+  'µ',
+  'm',
+  '',
+  'k',
+  'M',
+  'G',
+  'T',
+  'P',
+  'E',
+  'Z',
+  'Y',
+  'R',
+  'Q',
+];
+const SI_MIN_EXPONENT = -30;
+const SI_MAX_EXPONENT = 30;
+
+const TIMES: Record<Language, string> = { en: '×', ru: '·' };
+
+const LIST_SEPARATORS: Record<Language, string> = { en: ', ', ru: '; ' };
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰',
+  '1': '¹',
+  '2': '²',
+  '3': '³',
+  '4': '⁴',
+  '5': '⁵',
+  '6': '⁶',
+  '7': '⁷',
+  '8': '⁸',
+  '9': '⁹',
+  '-': '⁻',
+};
+
+const DATE_OPTIONS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  date: { dateStyle: 'medium' },
+  time: { timeStyle: 'short' },
+  datetime: { dateStyle: 'medium', timeStyle: 'short' },
+};
+
+export function isLanguage(value: string): value is Language {
+  return value === 'en' || value === 'ru';
+}
+
+function superscript(digits: string): string {
+  return Array.from(digits, digit => SUPERSCRIPTS[digit] ?? digit).join('');
+}
+
+function create(language: Language): Formatter {
+  const numberFormats = new Map<string, Intl.NumberFormat>();
+  const numberFormat = (options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+    const key = JSON.stringify(options);
+    const cached = numberFormats.get(key);
+    if (cached) {
+      return cached;
+    }
+    const created = new Intl.NumberFormat(language, options);
+    numberFormats.set(key, created);
+    return created;
+  };
+
+  const dateFormats = new Map<string, Intl.DateTimeFormat>();
+  const dateFormat = (options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat => {
+    const key = JSON.stringify(options);
+    const cached = dateFormats.get(key);
+    if (cached) {
+      return cached;
+    }
+    const created = new Intl.DateTimeFormat(language, options);
+    dateFormats.set(key, created);
+    return created;
+  };
+
+  const number = (value: number, digits?: number): string =>
+    numberFormat(digits === undefined ? {} : { maximumSignificantDigits: digits }).format(value);
+
+  const fixed = (value: number, fractionDigits: number): string =>
+    numberFormat({ minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+
+  // Intl writes `1.23E4`; split off the exponent and write it as a power of ten
+  const exponential = (value: number, digits: number, notation: 'scientific' | 'engineering'): string => {
+    const parts = numberFormat({ notation, maximumSignificantDigits: digits }).formatToParts(value);
+    const separator = parts.findIndex(part => part.type === 'exponentSeparator');
+    if (separator === -1) {
+      return parts.map(part => part.value).join('');
+    }
+    const mantissa = parts
+      .slice(0, separator)
+      .map(part => part.value)
+      .join('');
+    const exponent = parts.slice(separator + 1).reduce((text, part) => {
+      return text + (part.type === 'exponentMinusSign' ? '-' : part.value);
+    }, '');
+    return exponent === '0' ? mantissa : `${mantissa}${TIMES[language]}10${superscript(exponent)}`;
+  };
+
+  const si = (value: number, unit = '', digits = DEFAULT_DIGITS): string => {
+    const withUnit = (text: string, prefix: string): string =>
+      prefix + unit === '' ? text : `${text}\u00a0${prefix}${unit}`;
+    if (value === 0 || !Number.isFinite(value)) {
+      return withUnit(number(value, digits), '');
+    }
+    const magnitude = Math.floor(Math.log10(Math.abs(value)) / 3) * 3;
+    let exponent = Math.min(Math.max(magnitude, SI_MIN_EXPONENT), SI_MAX_EXPONENT);
+    // Rounding can carry into the next prefix: 999.96 is 1.00 k, not 1000
+    if (Math.abs(Number((value / 10 ** exponent).toPrecision(digits))) >= 1000 && exponent < SI_MAX_EXPONENT) {
+      exponent += 3;
+    }
+    const prefix = SI_PREFIXES[(exponent - SI_MIN_EXPONENT) / 3] ?? '';
+    return withUnit(number(value / 10 ** exponent, digits), prefix);
+  };
+
+  const value = (input: number): string => {
+    const magnitude = Math.abs(input);
+    if (magnitude !== 0 && Number.isFinite(input) && (magnitude < PLAIN_MIN || magnitude >= PLAIN_MAX)) {
+      return exponential(input, VALUE_DIGITS, 'scientific');
+    }
+    return number(input, VALUE_DIGITS);
+  };
+
+  return {
+    language,
+    number,
+    fixed,
+    scientific: (input, digits = DEFAULT_DIGITS) => exponential(input, digits, 'scientific'),
+    engineering: (input, digits = DEFAULT_DIGITS) => exponential(input, digits, 'engineering'),
+    si,
+    value,
+    range: (start, end, fractionDigits) => `${fixed(start, fractionDigits)}–${fixed(end, fractionDigits)}`,
+    list: values => values.map(value).join(LIST_SEPARATORS[language]),
+    date: (input, style = 'date') => dateFormat(DATE_OPTIONS[style]).format(input),
+  };
+}
+
+const formatters = new Map<Language, Formatter>();
+
+/**
+ * The formatter for a language. Formatters are cached, so calling this on
+ * every render is cheap.
+ */
+export function formatter(language: Language): Formatter {
+  const cached = formatters.get(language);
+  if (cached) {
+    return cached;
+  }
+  const created = create(language);
+  formatters.set(language, created);
+  return created;
+}
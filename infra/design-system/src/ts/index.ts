@@ -31,6 +31,10 @@ export type {
 } from './charts.ts';
 export { toEChartsOption, getChartTokens } from './charts.ts';
 
+// Re-export locale-aware formatting
+export type { Formatter, DateStyle, Language } from './format.ts';
+export { formatter, isLanguage } from './format.ts';
+
 // Export and register ds-chart custom element
 export { DsChart } from './chart-element.ts';
 
@@ -2,16 +2,45 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
+use serde::Serialize;
+
+/// Where the bridge sends chat requests and how it signs them. Read from the
+/// environment at run time so the signing secret never ships in the web bundle.
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+struct ProxyConfig {
+    proxy_url: String,
+    key_id: String,
+    secret: String,
+}
+
+fn required_var(name: &str) -> Result<String, String> {
+    std::env::var(name)
+        .ok()
+        .filter(|value| !value.is_empty())
+        .ok_or_else(|| format!("{} is not set", name))
+}
+
 #[tauri::command]
 fn greet(name: &str) -> String {
     format!("Hello, {}!", name)
 }
 
+/// Proxy settings for the bridge; the legacy shared key signs as `default`.
+#[tauri::command]
+fn proxy_config() -> Result<ProxyConfig, String> {
+    Ok(ProxyConfig {
+        proxy_url: required_var("SCIENTIFIC_ASSISTANT_PROXY_URL")?,
+        key_id: std::env::var("SCIENTIFIC_ASSISTANT_PROXY_KEY_ID").unwrap_or_else(|_| "default".to_string()),
+        secret: required_var("SCIENTIFIC_ASSISTANT_PROXY_SECRET")?,
+    })
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .invoke_handler(tauri::generate_handler![greet, proxy_config])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
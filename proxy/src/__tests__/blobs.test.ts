@@ -0,0 +1,25 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Blobs from '../blobs';
+
+const png = { bytes: new Uint8Array([137, 80, 78, 71]), mimeType: 'image/png' };
+
+describe('Blobs.memoryBlobStore', () => {
+  it('returns null for missing keys', async () => {
+    expect(await Blobs.memoryBlobStore().get('missing')).toBe(null);
+  });
+
+  it('returns stored blobs until they expire', async () => {
+    let now = 1_000;
+    const store = Blobs.memoryBlobStore(() => now);
+
+    await store.put('images/a', png, 10);
+    expect(await store.get('images/a')).toEqual(png);
+
+    now += 10_000;
+    expect(await store.get('images/a')).toBe(null);
+  });
+});
@@ -0,0 +1,86 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Catalog from '../catalog';
+import * as Store from '../store';
+
+const upstreamList = {
+  models: [
+    { name: 'models/gemini-2.5-pro', inputTokenLimit: 2_000_000, outputTokenLimit: 65536 },
+    { name: 'models/gemini-2.5-flash', inputTokenLimit: 1_048_576 },
+    { name: 'models/embedding-001', inputTokenLimit: 2048 },
+  ],
+};
+
+function listing(body: unknown, status = 200): () => Promise<Response> {
+  return async () => new Response(JSON.stringify(body), { status });
+}
+
+describe('Catalog.staticList', () => {
+  it('lists every registry model with metadata', () => {
+    const [flash, pro, image] = Catalog.staticList();
+
+    expect(flash).toEqual({
+      id: 'gemini-2.5-flash',
+      alias: 'fast',
+      default: true,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 65536,
+      supportsImages: true,
+      supportsThinking: true,
+      supportsGrounding: true,
+      labels: { en: 'Fast', ru: 'Быстрая' },
+    });
+    expect(pro).toMatchObject({ id: 'gemini-2.5-pro', alias: 'thinking', default: false });
+    expect(image).toMatchObject({ id: 'gemini-2.5-flash-image', supportsThinking: false, supportsGrounding: false });
+  });
+});
+
+describe('Catalog.parseList', () => {
+  it('keeps registry models only', () => {
+    expect(Catalog.parseList(upstreamList)).toEqual([
+      { id: 'gemini-2.5-pro', inputTokenLimit: 2_000_000 },
+      { id: 'gemini-2.5-flash', inputTokenLimit: 1_048_576 },
+    ]);
+  });
+
+  it('rejects unrecognized bodies', () => {
+    expect(Catalog.parseList({ error: {} })).toBe(null);
+  });
+});
+
+describe('Catalog.load', () => {
+  it('builds the list from upstream in registry order and caches it', async () => {
+    const store = Store.memoryStore();
+
+    const loaded = await Catalog.load(store, listing(upstreamList));
+
+    expect(loaded.source).toBe('upstream');
+    expect(loaded.entries.map(entry => [entry.id, entry.contextWindow])).toEqual([
+      ['gemini-2.5-flash', 1_048_576],
+      ['gemini-2.5-pro', 2_000_000],
+    ]);
+    expect(await Catalog.load(store, listing({}, 500))).toEqual({ entries: loaded.entries, source: 'cache' });
+  });
+
+  it('falls back to the static list when upstream fails', async () => {
+    const failing = async (): Promise<Response> => {
+      throw new Error('offline');
+    };
+
+    expect(await Catalog.load(Store.memoryStore(), failing)).toEqual({
+      entries: Catalog.staticList(),
+      source: 'static',
+    });
+    expect((await Catalog.load(Store.memoryStore(), listing({}, 403))).source).toBe('static');
+  });
+
+  it('does not cache the static fallback', async () => {
+    const store = Store.memoryStore();
+    await Catalog.load(store, listing({}, 503));
+
+    expect((await Catalog.load(store, listing(upstreamList))).source).toBe('upstream');
+  });
+});
@@ -0,0 +1,105 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as ContextCache from '../context-cache';
+import * as Gemini from '../gemini';
+import * as Store from '../store';
+
+const upstreamCache = {
+  name: 'cachedContents/abc-123',
+  model: 'models/gemini-2.5-pro',
+  displayName: 'Paper',
+  usageMetadata: { totalTokenCount: 52_000 },
+  expireTime: '2026-10-19T13:00:00Z',
+};
+
+describe('ContextCache.ttlSeconds', () => {
+  it('defaults and caps the requested lifetime', () => {
+    expect(ContextCache.ttlSeconds(null)).toBe(ContextCache.DEFAULT_TTL_SECONDS);
+    expect(ContextCache.ttlSeconds('600')).toBe(600);
+    expect(ContextCache.ttlSeconds('99999999')).toBe(ContextCache.MAX_TTL_SECONDS);
+  });
+});
+
+describe('ContextCache.referenced', () => {
+  it('reads the cache ID from a generate body', () => {
+    expect(ContextCache.referenced({ contents: [], cachedContent: 'cachedContents/abc-123' })).toBe('abc-123');
+    expect(ContextCache.referenced({ contents: [] })).toBe(null);
+    expect(ContextCache.referenced({ cachedContent: 'files/abc' })).toBe(null);
+  });
+});
+
+describe('ContextCache.validate', () => {
+  it('rejects generation settings in cached content', () => {
+    expect(ContextCache.validate({ contents: [], generationConfig: {} })).toEqual([
+      { path: 'generationConfig', message: 'Not allowed in cached content' },
+    ]);
+    expect(ContextCache.validate({ contents: [], systemInstruction: { parts: [] } })).toEqual([]);
+  });
+});
+
+describe('ContextCache requests', () => {
+  it('creates caches for a model with a lifetime', () => {
+    const request = ContextCache.createRequest('secret', 'gemini-2.5-pro', { contents: [] }, 600, 'Paper');
+
+    expect(request.url).toBe(`${Gemini.BASE_URL}/cachedContents?key=secret`);
+    expect(JSON.parse(request.body)).toEqual({
+      contents: [],
+      model: 'models/gemini-2.5-pro',
+      ttl: '600s',
+      displayName: 'Paper',
+    });
+  });
+
+  it('refreshes only the lifetime', () => {
+    const request = ContextCache.refreshRequest('secret', 'abc-123', 60);
+
+    expect(request.url).toBe(`${Gemini.BASE_URL}/cachedContents/abc-123?key=secret&updateMask=ttl`);
+    expect(JSON.parse(request.body)).toEqual({ ttl: '60s' });
+  });
+});
+
+describe('ContextCache.fromUpstream', () => {
+  it('reads a cachedContent resource', () => {
+    expect(ContextCache.fromUpstream(upstreamCache)).toEqual({
+      id: 'abc-123',
+      name: 'cachedContents/abc-123',
+      model: 'gemini-2.5-pro',
+      displayName: 'Paper',
+      totalTokens: 52_000,
+      expiresAt: '2026-10-19T13:00:00Z',
+    });
+  });
+
+  it('returns null for unrecognized resources', () => {
+    expect(ContextCache.fromUpstream({ name: 'files/abc' })).toBe(null);
+  });
+
+  it('reads list pages', () => {
+    const page = ContextCache.fromListResponse({ cachedContents: [upstreamCache, {}], nextPageToken: 'next' });
+
+    expect(page.caches.map(cache => cache.id)).toEqual(['abc-123']);
+    expect(page.nextPageToken).toBe('next');
+  });
+});
+
+describe('ContextCache ownership', () => {
+  it('records, reads and releases the owner', async () => {
+    const store = Store.memoryStore();
+
+    await ContextCache.claim(store, 'abc-123', { keyId: 'lab-a', model: 'gemini-2.5-pro' }, 60);
+    expect(await ContextCache.ownerOf(store, 'abc-123')).toEqual({ keyId: 'lab-a', model: 'gemini-2.5-pro' });
+
+    await ContextCache.release(store, 'abc-123');
+    expect(await ContextCache.ownerOf(store, 'abc-123')).toBe(null);
+  });
+
+  it('ignores malformed records', async () => {
+    const store = Store.memoryStore();
+
+    await store.put('context-cache:abc-123', { keyId: 'lab-a', model: 'gpt-4' }, 60);
+    expect(await ContextCache.ownerOf(store, 'abc-123')).toBe(null);
+  });
+});
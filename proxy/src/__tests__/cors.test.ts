@@ -0,0 +1,62 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Cors from '../cors';
+
+describe('Cors.configure', () => {
+  it('parses a comma-separated list', () => {
+    expect(Cors.configure(' https://a.example , tauri://localhost,')).toEqual([
+      'https://a.example',
+      'tauri://localhost',
+    ]);
+  });
+
+  it('falls back to the default origins', () => {
+    expect(Cors.configure(undefined)).toBe(Cors.DEFAULT_ORIGINS);
+    expect(Cors.configure(' ')).toBe(Cors.DEFAULT_ORIGINS);
+  });
+});
+
+describe('Cors.isAllowed', () => {
+  it('allows the Tauri, landing and localhost origins by default', () => {
+    for (const origin of [
+      'tauri://localhost',
+      'http://tauri.localhost',
+      'https://akoppela.github.io',
+      'http://localhost:5173',
+      'http://127.0.0.1:8787',
+    ]) {
+      expect(Cors.isAllowed(origin, Cors.DEFAULT_ORIGINS)).toBe(true);
+    }
+  });
+
+  it('matches port wildcards on the port only', () => {
+    expect(Cors.isAllowed('http://localhost', Cors.DEFAULT_ORIGINS)).toBe(false);
+    expect(Cors.isAllowed('http://localhost:80.evil.com', Cors.DEFAULT_ORIGINS)).toBe(false);
+    expect(Cors.isAllowed('https://localhost:5173', Cors.DEFAULT_ORIGINS)).toBe(false);
+  });
+
+  it('allows everything with a lone wildcard', () => {
+    expect(Cors.isAllowed('https://anything.example', ['*'])).toBe(true);
+  });
+});
+
+describe('Cors.headers', () => {
+  it('echoes allowed origins', () => {
+    expect(Cors.headers('tauri://localhost', Cors.DEFAULT_ORIGINS)).toMatchObject({
+      'Access-Control-Allow-Origin': 'tauri://localhost',
+      Vary: 'Origin',
+    });
+  });
+
+  it('answers * when every origin is allowed', () => {
+    expect(Cors.headers('https://a.example', ['*'])['Access-Control-Allow-Origin']).toBe('*');
+  });
+
+  it('only varies on Origin otherwise', () => {
+    expect(Cors.headers(null, Cors.DEFAULT_ORIGINS)).toEqual({ Vary: 'Origin' });
+    expect(Cors.headers('https://evil.example', Cors.DEFAULT_ORIGINS)).toEqual({ Vary: 'Origin' });
+  });
+});
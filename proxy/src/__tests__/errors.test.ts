@@ -0,0 +1,102 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Errors from '../errors';
+
+function geminiError(code: number, status: string, message: string): unknown {
+  return { error: { code, status, message, details: [{ reason: 'TEST' }] } };
+}
+
+describe('Errors.fromUpstream', () => {
+  it('maps INVALID_ARGUMENT to a non-retryable invalid request', () => {
+    const normalized = Errors.fromUpstream(400, geminiError(400, 'INVALID_ARGUMENT', 'Bad field'), 'req-1');
+
+    expect(normalized).toEqual({
+      status: 400,
+      body: {
+        error: 'Bad field',
+        code: 'invalid_request',
+        message: 'Bad field',
+        retryable: false,
+        upstreamStatus: 400,
+        details: { status: 'INVALID_ARGUMENT', details: [{ reason: 'TEST' }] },
+        requestId: 'req-1',
+      },
+    });
+  });
+
+  it('maps RESOURCE_EXHAUSTED to a retryable quota error', () => {
+    const { body } = Errors.fromUpstream(429, geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota'), 'req-1');
+
+    expect(body).toMatchObject({ code: 'quota_exceeded', retryable: true, upstreamStatus: 429 });
+  });
+
+  it('maps PERMISSION_DENIED to a non-retryable error', () => {
+    const { body } = Errors.fromUpstream(403, geminiError(403, 'PERMISSION_DENIED', 'Denied'), 'req-1');
+
+    expect(body).toMatchObject({ code: 'permission_denied', retryable: false });
+  });
+
+  it('maps INTERNAL and UNAVAILABLE to retryable outages', () => {
+    expect(Errors.fromUpstream(500, geminiError(500, 'INTERNAL', 'Oops'), 'r').body).toMatchObject({
+      code: 'upstream_error',
+      retryable: true,
+    });
+    expect(Errors.fromUpstream(503, geminiError(503, 'UNAVAILABLE', 'Overloaded'), 'r').body).toMatchObject({
+      code: 'upstream_unavailable',
+      retryable: true,
+    });
+  });
+
+  it('falls back to the HTTP status for unparseable bodies', () => {
+    const { body } = Errors.fromUpstream(504, undefined, 'req-1');
+
+    expect(body).toMatchObject({
+      code: 'upstream_timeout',
+      message: 'Upstream returned HTTP 504',
+      retryable: true,
+      details: { status: null, details: [] },
+    });
+  });
+
+  it('ignores inherited property names as statuses', () => {
+    const { body } = Errors.fromUpstream(400, geminiError(400, 'constructor', 'Odd'), 'req-1');
+
+    expect(body.code).toBe('invalid_request');
+  });
+});
+
+describe('Errors.fromBlockedPrompt', () => {
+  it('reports blocked prompts as safety errors', () => {
+    const normalized = Errors.fromBlockedPrompt(
+      { promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT' }] } },
+      'req-1'
+    );
+
+    expect(normalized?.status).toBe(400);
+    expect(normalized?.body).toMatchObject({
+      code: 'safety_blocked',
+      retryable: false,
+      upstreamStatus: 200,
+      details: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT' }] },
+    });
+  });
+
+  it('returns null for unblocked responses', () => {
+    expect(Errors.fromBlockedPrompt({ candidates: [], promptFeedback: {} }, 'req-1')).toBe(null);
+    expect(Errors.fromBlockedPrompt({ candidates: [] }, 'req-1')).toBe(null);
+  });
+});
+
+describe('Errors.fromNetworkError', () => {
+  it('reports fetch failures as retryable network errors', () => {
+    const normalized = Errors.fromNetworkError(new Error('ECONNRESET'), 'req-1');
+
+    expect(normalized).toMatchObject({
+      status: 502,
+      body: { code: 'network_error', error: 'Proxy error: ECONNRESET', retryable: true, upstreamStatus: null },
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Files from '../files';
+import * as Store from '../store';
+
+const upstreamFile = {
+  name: 'files/abc-123',
+  displayName: 'paper.pdf',
+  mimeType: 'application/pdf',
+  sizeBytes: '2048',
+  state: 'ACTIVE',
+  uri: 'https://generativelanguage.googleapis.com/v1beta/files/abc-123',
+  expirationTime: '2026-10-21T12:00:00Z',
+};
+
+describe('Files.checkUpload', () => {
+  it('accepts allowed types within the size limit', () => {
+    expect(Files.checkUpload('text/csv; charset=utf-8', '10', 100)).toEqual({
+      ok: true,
+      mimeType: 'text/csv',
+      sizeBytes: 10,
+    });
+  });
+
+  it('rejects unsupported types', () => {
+    const upload = Files.checkUpload('application/zip', '10', 100);
+
+    expect(upload.ok ? null : upload.status).toBe(415);
+  });
+
+  it('requires a declared length', () => {
+    expect(Files.checkUpload('application/pdf', null, 100)).toMatchObject({ ok: false, status: 411 });
+    expect(Files.checkUpload('application/pdf', '1e3', 100)).toMatchObject({ ok: false, status: 411 });
+  });
+
+  it('rejects empty and oversized files', () => {
+    expect(Files.checkUpload('application/pdf', '0', 100)).toMatchObject({ ok: false, status: 400 });
+    expect(Files.checkUpload('application/pdf', '101', 100)).toMatchObject({ ok: false, status: 413 });
+  });
+});
+
+describe('Files.startUpload', () => {
+  it('opens a resumable session declaring the size and type', () => {
+    const request = Files.startUpload('secret', { mimeType: 'application/pdf', sizeBytes: 2048 }, 'paper.pdf');
+
+    expect(request.url).toBe(`${Files.UPLOAD_URL}?key=secret`);
+    expect(request.headers).toMatchObject({
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': '2048',
+      'X-Goog-Upload-Header-Content-Type': 'application/pdf',
+    });
+    expect(JSON.parse(request.body)).toEqual({ file: { display_name: 'paper.pdf' } });
+  });
+});
+
+describe('Files.listUrl', () => {
+  it('caps the page size and passes the page token', () => {
+    const url = new URL(Files.listUrl('secret', 500, 'next'));
+
+    expect(url.searchParams.get('pageSize')).toBe(String(Files.MAX_PAGE_SIZE));
+    expect(url.searchParams.get('pageToken')).toBe('next');
+  });
+});
+
+describe('Files.fromUpstream', () => {
+  it('reads a file resource', () => {
+    expect(Files.fromUpstream(upstreamFile)).toEqual({
+      id: 'abc-123',
+      fileUri: upstreamFile.uri,
+      mimeType: 'application/pdf',
+      sizeBytes: 2048,
+      displayName: 'paper.pdf',
+      state: 'ACTIVE',
+      expiresAt: '2026-10-21T12:00:00Z',
+    });
+  });
+
+  it('returns null for unrecognized resources', () => {
+    expect(Files.fromUpstream({ name: 'files/abc' })).toBe(null);
+    expect(Files.fromUploadResponse({ error: {} })).toBe(null);
+  });
+});
+
+describe('Files.fromListResponse', () => {
+  it('reads files and the next page token, skipping unrecognized entries', () => {
+    const page = Files.fromListResponse({ files: [upstreamFile, { name: 7 }], nextPageToken: 'next' });
+
+    expect(page.files.map(file => file.id)).toEqual(['abc-123']);
+    expect(page.nextPageToken).toBe('next');
+  });
+
+  it('treats an empty body as an empty page', () => {
+    expect(Files.fromListResponse({})).toEqual({ files: [], nextPageToken: null });
+  });
+});
+
+describe('Files.referenced', () => {
+  it('collects Files API URIs from contents and the system instruction', () => {
+    const part = (fileUri: string): unknown => ({ fileData: { mimeType: 'application/pdf', fileUri } });
+    const body = {
+      systemInstruction: { parts: [part(upstreamFile.uri)] },
+      contents: [{ role: 'user', parts: [{ text: 'Compare' }, part('https://images.example.com/a.png')] }],
+    };
+
+    expect(Files.referenced(body)).toEqual([upstreamFile.uri]);
+    expect(
+      Files.referenced({ contents: [{ parts: [part('HTTPS://GenerativeLanguage.googleapis.com/v1/files/x')] }] })
+    ).toHaveLength(1);
+  });
+});
+
+describe('Files.idFromUri', () => {
+  it('reads the ID of a file URI only', () => {
+    expect(Files.idFromUri(upstreamFile.uri)).toBe('abc-123');
+    expect(Files.idFromUri('https://generativelanguage.googleapis.com/v1/files/abc-123')).toBe(null);
+    expect(Files.idFromUri(`${upstreamFile.uri}?alt=media`)).toBe(null);
+  });
+});
+
+describe('Files owners', () => {
+  it('records, reads and releases the owner', async () => {
+    const store = Store.memoryStore();
+
+    await Files.claim(store, 'abc-123', { keyId: 'lab-a' });
+    expect(await Files.ownerOf(store, 'abc-123')).toEqual({ keyId: 'lab-a' });
+
+    await Files.release(store, 'abc-123');
+    expect(await Files.ownerOf(store, 'abc-123')).toBe(null);
+  });
+});
@@ -0,0 +1,65 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Gemini from '../gemini';
+
+const provider = Gemini.provider('secret');
+
+const body = {
+  systemInstruction: { parts: [{ text: 'Be brief.' }] },
+  contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+  generationConfig: { temperature: 0.5 },
+};
+
+describe('Gemini.provider', () => {
+  it('targets generateContent or streamGenerateContent', () => {
+    expect(provider.request('gemini-2.5-flash', body, false).url).toBe(
+      `${Gemini.BASE_URL}/models/gemini-2.5-flash:generateContent?key=secret`
+    );
+    expect(provider.request('gemini-2.5-pro', body, true).url).toBe(
+      `${Gemini.BASE_URL}/models/gemini-2.5-pro:streamGenerateContent?alt=sse&key=secret`
+    );
+  });
+
+  it('serves every registry model', () => {
+    expect(provider.supports('gemini-2.5-flash-image')).toBe(true);
+  });
+
+  it('round-trips requests and responses unchanged', async () => {
+    const response = { candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] } }] };
+
+    expect(JSON.parse(provider.request('gemini-2.5-flash', body, false).body)).toEqual(body);
+    expect(provider.response(response)).toBe(response);
+
+    const upstream = new Response('data: {"candidates":[]}\r\n\r\n').body;
+    expect(upstream).not.toBe(null);
+    if (upstream) {
+      expect(provider.stream(upstream)).toBe(upstream);
+    }
+  });
+});
+
+describe('Gemini.countTokensRequest', () => {
+  it('counts the whole generateContent request', () => {
+    const request = Gemini.countTokensRequest('secret', 'gemini-2.5-pro', body);
+
+    expect(request.url).toBe(`${Gemini.BASE_URL}/models/gemini-2.5-pro:countTokens?key=secret`);
+    expect(JSON.parse(request.body)).toEqual({ generateContentRequest: { ...body, model: 'models/gemini-2.5-pro' } });
+  });
+});
+
+describe('Gemini.fromCountTokens', () => {
+  it('reads the total and cached token counts', () => {
+    expect(Gemini.fromCountTokens({ totalTokens: 42 })).toEqual({ totalTokens: 42, cachedTokens: 0 });
+    expect(Gemini.fromCountTokens({ totalTokens: 42, cachedContentTokenCount: 40 })).toEqual({
+      totalTokens: 42,
+      cachedTokens: 40,
+    });
+  });
+
+  it('returns null for unrecognized bodies', () => {
+    expect(Gemini.fromCountTokens({ error: {} })).toBe(null);
+  });
+});
@@ -0,0 +1,108 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as GenerationPolicy from '../generation-policy';
+
+const NONE = { defaults: undefined, limits: undefined, safetyDefaults: undefined };
+
+const POLICY = GenerationPolicy.configure({
+  defaults: JSON.stringify({ temperature: 0.7, maxOutputTokens: 4096 }),
+  limits: JSON.stringify({ maxOutputTokens: { max: 8192 }, temperature: { min: 0.2, max: 1 }, seed: { max: 1 } }),
+  safetyDefaults: JSON.stringify({ HARM_CATEGORY_HARASSMENT: 'BLOCK_MEDIUM_AND_ABOVE', HARM_CATEGORY_BAD: 'LOUD' }),
+  minThreshold: 'BLOCK_ONLY_HIGH',
+  maxThreshold: undefined,
+});
+
+const CONTENTS = [{ role: 'user', parts: [{ text: 'Hi' }] }];
+
+describe('GenerationPolicy.configure', () => {
+  it('reads defaults, numeric limits and the threshold range', () => {
+    expect(POLICY).toEqual({
+      generationConfig: { temperature: 0.7, maxOutputTokens: 4096 },
+      safetySettings: { HARM_CATEGORY_HARASSMENT: 'BLOCK_MEDIUM_AND_ABOVE' },
+      limits: { maxOutputTokens: { min: null, max: 8192 }, temperature: { min: 0.2, max: 1 } },
+      safetyRange: { min: 'BLOCK_ONLY_HIGH', max: 'BLOCK_LOW_AND_ABOVE' },
+    });
+  });
+
+  it('ignores malformed JSON', () => {
+    const policy = GenerationPolicy.configure({
+      defaults: '{',
+      limits: '[]',
+      safetyDefaults: 'null',
+      minThreshold: 'NONE',
+      maxThreshold: '',
+    });
+
+    expect(policy).toEqual(GenerationPolicy.configure({ ...NONE, minThreshold: undefined, maxThreshold: undefined }));
+  });
+});
+
+describe('GenerationPolicy.apply', () => {
+  it('forwards bodies untouched without a policy', () => {
+    const policy = GenerationPolicy.configure({ ...NONE, minThreshold: undefined, maxThreshold: undefined });
+    const body = { contents: CONTENTS, safetySettings: [{ category: 'X', threshold: 'OFF' }] };
+
+    expect(GenerationPolicy.apply(policy, body)).toEqual({ ok: true, body, adjustments: [] });
+  });
+
+  it('fills in missing fields and categories', () => {
+    const result = GenerationPolicy.apply(POLICY, { contents: CONTENTS });
+
+    expect(result).toEqual({
+      ok: true,
+      body: {
+        contents: CONTENTS,
+        generationConfig: { temperature: 0.7, maxOutputTokens: 4096 },
+        safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' }],
+      },
+      adjustments: [
+        { path: 'generationConfig.temperature', action: 'default' },
+        { path: 'generationConfig.maxOutputTokens', action: 'default' },
+        { path: 'safetySettings.HARM_CATEGORY_HARASSMENT', action: 'default' },
+      ],
+    });
+  });
+
+  it('keeps client values within limits and clamps the rest', () => {
+    const result = GenerationPolicy.apply(POLICY, {
+      contents: CONTENTS,
+      generationConfig: { temperature: 0, maxOutputTokens: 100000, topK: 40 },
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' }],
+    });
+
+    expect(result.ok && result.body).toEqual({
+      contents: CONTENTS,
+      generationConfig: { temperature: 0.2, maxOutputTokens: 8192, topK: 40 },
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' }],
+    });
+    expect(result.ok && GenerationPolicy.header(result.adjustments)).toBe(
+      'generationConfig.temperature=clamped, generationConfig.maxOutputTokens=clamped'
+    );
+  });
+
+  it('rejects thresholds outside the allowed range', () => {
+    for (const threshold of ['BLOCK_NONE', 'OFF', 'HARM_BLOCK_THRESHOLD_UNSPECIFIED']) {
+      const result = GenerationPolicy.apply(POLICY, {
+        contents: CONTENTS,
+        safetySettings: [{ category: 'HARM_CATEGORY_HATE_SPEECH', threshold }],
+      });
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: {
+          code: 'safety_threshold_not_allowed',
+          allowed: ['BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'],
+        },
+      });
+    }
+  });
+});
+
+describe('GenerationPolicy.header', () => {
+  it('is null when nothing changed', () => {
+    expect(GenerationPolicy.header([])).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Grounding from '../grounding';
+
+const grounded = { contents: [], tools: [{ googleSearch: {} }] };
+
+describe('Grounding.requested', () => {
+  it('detects the googleSearch tool', () => {
+    expect(Grounding.requested(grounded)).toBe(true);
+    expect(Grounding.requested({ tools: [{ codeExecution: {} }] })).toBe(false);
+    expect(Grounding.requested({ contents: [] })).toBe(false);
+  });
+
+  it('detects the older googleSearchRetrieval tool', () => {
+    expect(Grounding.requested({ tools: [{ googleSearchRetrieval: {} }] })).toBe(true);
+  });
+});
+
+describe('Grounding.apply', () => {
+  it('leaves requests alone when allowed', () => {
+    expect(Grounding.apply('allow', grounded, true)).toEqual({ body: grounded, action: null });
+  });
+
+  it('strips the tool when denied', () => {
+    expect(Grounding.apply('deny', grounded, true)).toEqual({ body: { contents: [] }, action: 'stripped' });
+  });
+
+  it('keeps other tools and fields of a stripped tool', () => {
+    const body = { contents: [], tools: [{ googleSearch: {}, other: {} }, { codeExecution: {} }] };
+
+    expect(Grounding.apply('deny', body, true).body).toEqual({
+      contents: [],
+      tools: [{ other: {} }, { codeExecution: {} }],
+    });
+  });
+
+  it('strips googleSearchRetrieval when denied', () => {
+    const body = { contents: [], tools: [{ googleSearchRetrieval: {} }, { googleSearch: {} }] };
+
+    expect(Grounding.apply('deny', body, true)).toEqual({ body: { contents: [] }, action: 'stripped' });
+  });
+
+  it('does not force a second search tool onto googleSearchRetrieval', () => {
+    const body = { contents: [], tools: [{ googleSearchRetrieval: {} }] };
+
+    expect(Grounding.apply('force', body, true)).toEqual({ body, action: null });
+  });
+
+  it('does nothing on denial when grounding was not requested', () => {
+    expect(Grounding.apply('deny', { contents: [] }, true)).toEqual({ body: { contents: [] }, action: null });
+  });
+
+  it('adds the tool when forced', () => {
+    expect(Grounding.apply('force', { contents: [] }, true)).toEqual({ body: grounded, action: 'forced' });
+    expect(Grounding.apply('force', grounded, true).action).toBe(null);
+  });
+
+  it('never forces grounding onto models without it', () => {
+    expect(Grounding.apply('force', { contents: [] }, false)).toEqual({ body: { contents: [] }, action: null });
+  });
+});
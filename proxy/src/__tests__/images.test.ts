@@ -0,0 +1,127 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Blobs from '../blobs';
+import * as Images from '../images';
+
+const limits: Images.Limits = { maxInputImages: 2, maxOutputImages: 2, offloadBytes: 4, ttlSeconds: 60 };
+
+function imagePart(mimeType: string, data = 'AAAA'): Record<string, unknown> {
+  return { inlineData: { mimeType, data } };
+}
+
+describe('Images.configure', () => {
+  it('uses defaults for missing or invalid values', () => {
+    expect(Images.configure({})).toEqual(Images.DEFAULT_LIMITS);
+    expect(Images.configure({ maxInputImages: '5', offloadBytes: 'lots' })).toEqual({
+      ...Images.DEFAULT_LIMITS,
+      maxInputImages: 5,
+    });
+  });
+});
+
+describe('Images.validate', () => {
+  it('accepts allowed reference images', () => {
+    const body = {
+      contents: [{ role: 'user', parts: [{ text: 'Draw this' }, imagePart('image/png'), imagePart('image/webp')] }],
+    };
+
+    expect(Images.validate(body, limits)).toEqual([]);
+  });
+
+  it('rejects other mime types with the field path', () => {
+    const body = {
+      contents: [
+        { role: 'user', parts: [imagePart('application/pdf'), { fileData: { mimeType: 'image/heic', fileUri: 'x' } }] },
+      ],
+    };
+
+    expect(Images.validate(body, limits).map(error => error.path)).toEqual([
+      'contents[0].parts[0].inlineData.mimeType',
+      'contents[0].parts[1].fileData.mimeType',
+    ]);
+  });
+
+  it('counts images across messages', () => {
+    const body = {
+      contents: [
+        { role: 'user', parts: [imagePart('image/png'), imagePart('image/png')] },
+        { role: 'user', parts: [imagePart('image/jpeg')] },
+      ],
+    };
+
+    expect(Images.validate(body, limits)).toEqual([{ path: 'contents', message: 'Expected at most 2 images' }]);
+  });
+
+  it('limits the number of candidates', () => {
+    const body = { contents: [], generationConfig: { candidateCount: 3 } };
+
+    expect(Images.validate(body, limits).map(error => error.path)).toEqual(['generationConfig.candidateCount']);
+  });
+});
+
+describe('Images.isId', () => {
+  it('accepts only plain IDs', () => {
+    expect(Images.isId('0b6a1c9e-5f7d-4a3e-9c21-8d4e2f6b7a10')).toBe(true);
+    expect(Images.isId('../keys')).toBe(false);
+    expect(Images.isId('')).toBe(false);
+  });
+});
+
+describe('Images.offload', () => {
+  function response(parts: unknown[]): Record<string, unknown> {
+    return { candidates: [{ content: { role: 'model', parts } }], usageMetadata: { totalTokenCount: 3 } };
+  }
+
+  it('moves large images into the store behind a URL', async () => {
+    const store = Blobs.memoryBlobStore();
+    const body = await Images.offload(
+      response([{ text: 'Here it is' }, imagePart('image/png', 'iVBORw0K')]),
+      store,
+      limits,
+      () => 'blob-1',
+      id => `https://proxy.example.com/v1/images/${id}`
+    );
+
+    expect(body).toEqual(
+      response([
+        { text: 'Here it is' },
+        { fileData: { mimeType: 'image/png', fileUri: 'https://proxy.example.com/v1/images/blob-1' } },
+      ])
+    );
+    expect(await store.get(Images.blobKey('blob-1'))).toEqual({
+      bytes: new Uint8Array([137, 80, 78, 71, 13, 10]),
+      mimeType: 'image/png',
+    });
+  });
+
+  it('keeps small images inline', async () => {
+    const body = response([imagePart('image/png', 'AAA=')]);
+
+    expect(
+      await Images.offload(
+        body,
+        Blobs.memoryBlobStore(),
+        limits,
+        () => 'unused',
+        id => id
+      )
+    ).toEqual(body);
+  });
+
+  it('leaves bodies without candidates alone', async () => {
+    const body = { error: { code: 400 } };
+
+    expect(
+      await Images.offload(
+        body,
+        Blobs.memoryBlobStore(),
+        limits,
+        () => 'unused',
+        id => id
+      )
+    ).toBe(body);
+  });
+});
@@ -2,12 +2,35 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import type * as Index from '../index';
+import * as Blobs from '../blobs';
+import * as Keys from '../keys';
+import type * as Log from '../log';
+import * as Signing from '../signing';
+import * as Store from '../store';
 
 interface ErrorResponse {
   error?: string;
 }
 
+interface ModelErrorResponse extends ErrorResponse {
+  code?: string;
+  allowed?: string[];
+}
+
+interface ValidationErrorResponse extends ModelErrorResponse {
+  errors?: Array<{ path: string; message: string }>;
+}
+
+interface UpstreamErrorResponse extends ErrorResponse {
+  code?: string;
+  message?: string;
+  retryable?: boolean;
+  upstreamStatus?: number | null;
+  requestId?: string;
+}
+
 interface GeminiResponse {
   candidates?: Array<{
     content?: {
@@ -25,11 +48,15 @@ const mockEnv = {
 };
 
 // Import handler after defining mocks
-let handleRequest: (request: Request, env: typeof mockEnv) => Promise<Response>;
+let handleRequest: (request: Request, env: Index.Env, services?: Index.Services) => Promise<Response>;
+let createServices: (env: Index.Env) => Index.Services;
 
 beforeAll(async () => {
+  // Audit records go to the console unless a test captures them
+  vi.spyOn(console, 'log').mockImplementation(() => {});
   const module = await import('../index');
   handleRequest = module.handleRequest;
+  createServices = module.createServices;
 });
 
 describe('Gemini Proxy', () => {
@@ -65,12 +92,15 @@ describe('Gemini Proxy', () => {
   it('handles OPTIONS preflight requests', async () => {
     const request = new Request('https://proxy.example.com/', {
       method: 'OPTIONS',
+      headers: {
+        Origin: 'tauri://localhost',
+      },
     });
 
     const response = await handleRequest(request, mockEnv);
 
     expect(response.status).toBe(200);
-    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('tauri://localhost');
     expect(response.headers.get('Access-Control-Allow-Methods')).toContain('POST');
   });
 
@@ -117,6 +147,7 @@ describe('Gemini Proxy - Integration', () => {
         headers: {
           Authorization: 'Bearer test-proxy-key',
           'Content-Type': 'application/json',
+          Origin: 'http://tauri.localhost',
         },
         body: JSON.stringify({
           contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
@@ -128,7 +159,7 @@ describe('Gemini Proxy - Integration', () => {
       expect(response.status).toBe(200);
       const body: GeminiResponse = await response.json();
       expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Hello from Gemini!');
-      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('http://tauri.localhost');
     } finally {
       globalThis.fetch = originalFetch;
     }
@@ -159,3 +190,2307 @@ describe('Gemini Proxy - Integration', () => {
     }
   });
 });
+
+describe('Gemini Proxy - Models', () => {
+  function modelRequest(model: string, body: Record<string, unknown> = { contents: [] }): Request {
+    return new Request(`https://proxy.example.com/?model=${encodeURIComponent(model)}`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('maps app aliases to model IDs in the upstream URL', async () => {
+    let capturedUrl = '';
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (url: string | URL | Request) => {
+      capturedUrl = url.toString();
+      return new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+    };
+
+    try {
+      await handleRequest(modelRequest('thinking'), mockEnv);
+
+      expect(capturedUrl).toContain('/models/gemini-2.5-pro:generateContent');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('rejects unknown models without calling upstream', async () => {
+    let called = false;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      called = true;
+      return new Response(null, { status: 200 });
+    };
+
+    try {
+      const response = await handleRequest(modelRequest('gemini-1.0-ultra'), mockEnv);
+
+      expect(response.status).toBe(400);
+      const body: ModelErrorResponse = await response.json();
+      expect(body.code).toBe('unknown_model');
+      expect(body.allowed).toContain('fast');
+      expect(called).toBe(false);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('rejects model names containing path fragments', async () => {
+    const response = await handleRequest(modelRequest('../../v1/files'), mockEnv);
+
+    expect(response.status).toBe(400);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('invalid_model');
+  });
+
+  it('rejects maxOutputTokens above the model limit', async () => {
+    const response = await handleRequest(
+      modelRequest('creative', { contents: [], generationConfig: { maxOutputTokens: 1_000_000 } }),
+      mockEnv
+    );
+
+    expect(response.status).toBe(400);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('output_tokens_exceeded');
+  });
+});
+
+describe('Gemini Proxy - Streaming', () => {
+  const encoder = new TextEncoder();
+
+  function sseUpstream(events: string[], failure?: Error): ReadableStream<Uint8Array> {
+    let index = 0;
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const event = events[index];
+        index += 1;
+        if (event !== undefined) {
+          controller.enqueue(encoder.encode(event));
+        } else if (failure) {
+          controller.error(failure);
+        } else {
+          controller.close();
+        }
+      },
+    });
+  }
+
+  function streamRequest(): Request {
+    return new Request('https://proxy.example.com/?model=gemini-2.5-flash&stream=1', {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+        Origin: 'tauri://localhost',
+      },
+      body: JSON.stringify({ contents: [] }),
+    });
+  }
+
+  it('forwards to streamGenerateContent with SSE enabled', async () => {
+    let capturedUrl = '';
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (url: string | URL | Request) => {
+      capturedUrl = url.toString();
+      return new Response(sseUpstream([]), { status: 200 });
+    };
+
+    try {
+      await handleRequest(streamRequest(), mockEnv);
+
+      expect(capturedUrl).toContain('gemini-2.5-flash:streamGenerateContent?alt=sse');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('pipes upstream chunks to the client as Server-Sent Events', async () => {
+    const events = ['data: {"candidates":[{"index":0}]}\n\n', 'data: {"candidates":[{"index":1}]}\n\n'];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(sseUpstream(events), { status: 200 });
+
+    try {
+      const response = await handleRequest(streamRequest(), mockEnv);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('tauri://localhost');
+      expect(await response.text()).toBe(events.join(''));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('terminates the stream with an error event on mid-stream upstream failure', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(sseUpstream(['data: {"candidates":[]}\n\n'], new Error('socket hang up')), { status: 200 });
+
+    try {
+      const response = await handleRequest(streamRequest(), mockEnv);
+      const text = await response.text();
+
+      expect(text.startsWith('data: {"candidates":[]}\n\n')).toBe(true);
+      expect(text).toContain('event: error');
+      expect(text).toContain('socket hang up');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('returns upstream errors as JSON instead of a stream', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(JSON.stringify({ error: { code: 400, message: 'Bad request' } }), { status: 400 });
+
+    try {
+      const response = await handleRequest(streamRequest(), mockEnv);
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Rate limiting', () => {
+  const NOON = Date.UTC(2025, 0, 1, 12);
+
+  function testServices(): Index.Services {
+    return { ...createServices(mockEnv), rateLimitStore: Store.memoryStore(() => NOON), now: () => NOON };
+  }
+
+  function authorizedRequest(query = ''): Request {
+    return new Request(`https://proxy.example.com/${query}`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+      },
+      body: JSON.stringify({ contents: [] }),
+    });
+  }
+
+  it('adds rate limit headers to forwarded responses', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+
+    try {
+      const response = await handleRequest(
+        authorizedRequest(),
+        { ...mockEnv, RATE_LIMIT_PER_MINUTE: '10' },
+        testServices()
+      );
+
+      expect(response.headers.get('X-RateLimit-Limit')).toBe('10');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+      expect(response.headers.get('X-RateLimit-Reset')).not.toBe(null);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('answers 429 with Retry-After once the per-minute limit is spent', async () => {
+    const env = { ...mockEnv, RATE_LIMIT_PER_MINUTE: '1' };
+    const services = testServices();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+
+    try {
+      await handleRequest(authorizedRequest(), env, services);
+      const response = await handleRequest(authorizedRequest(), env, services);
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('60');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+      const body: ModelErrorResponse = await response.json();
+      expect(body.code).toBe('rate_limited');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('counts usageMetadata tokens against the daily token quota', async () => {
+    const env = { ...mockEnv, DAILY_TOKEN_QUOTA: '100' };
+    const services = testServices();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(JSON.stringify({ candidates: [], usageMetadata: { totalTokenCount: 150 } }), { status: 200 });
+
+    try {
+      const first = await handleRequest(authorizedRequest(), env, services);
+      const second = await handleRequest(authorizedRequest(), env, services);
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(429);
+      const body: ModelErrorResponse = await second.json();
+      expect(body.code).toBe('daily_token_quota');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('counts tokens from the final chunk of streamed responses', async () => {
+    const env = { ...mockEnv, DAILY_TOKEN_QUOTA: '100' };
+    const services = testServices();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response('data: {"candidates":[]}\n\ndata: {"candidates":[],"usageMetadata":{"totalTokenCount":120}}\n\n', {
+        status: 200,
+      });
+
+    try {
+      const first = await handleRequest(authorizedRequest('?stream=1'), env, services);
+      await first.text();
+      const second = await handleRequest(authorizedRequest('?stream=1'), env, services);
+
+      expect(second.status).toBe(429);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('does not charge requests that fail validation', async () => {
+    const env = { ...mockEnv, RATE_LIMIT_PER_MINUTE: '1' };
+    const services = testServices();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+
+    try {
+      const invalid = await handleRequest(
+        new Request('https://proxy.example.com/', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer test-proxy-key' },
+          body: JSON.stringify({ contents: 'not a list' }),
+        }),
+        env,
+        services
+      );
+      const valid = await handleRequest(authorizedRequest(), env, services);
+
+      expect(invalid.status).toBe(400);
+      expect(valid.status).toBe(200);
+      expect(valid.headers.get('X-RateLimit-Remaining')).toBe('0');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('limits token counting and cache creation too', async () => {
+    const env = { ...mockEnv, RATE_LIMIT_PER_MINUTE: '1' };
+    const services = { ...testServices(), contextCaches: Store.memoryStore() };
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(
+        JSON.stringify({ totalTokens: 3, name: 'cachedContents/abc-123', model: 'models/gemini-2.5-flash' })
+      );
+    const post = (path: string): Request =>
+      new Request(`https://proxy.example.com${path}`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer test-proxy-key' },
+        body: JSON.stringify({ contents: [] }),
+      });
+
+    try {
+      const counted = await handleRequest(post('/v1/count-tokens'), env, services);
+      const cached = await handleRequest(post('/v1/caches'), env, services);
+
+      expect(counted.status).toBe(200);
+      expect(counted.headers.get('X-RateLimit-Remaining')).toBe('0');
+      expect(cached.status).toBe(429);
+      const body: ModelErrorResponse = await cached.json();
+      expect(body.code).toBe('rate_limited');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Named keys', () => {
+  let keysEnv: Index.Env;
+
+  beforeAll(async () => {
+    keysEnv = {
+      GEMINI_API_KEY: 'test-gemini-key',
+      PROXY_KEYS: JSON.stringify({
+        'lab-a': { secretHash: await Keys.sha256Hex('secret-a'), models: ['gemini-2.5-flash'], grounding: false },
+      }),
+    };
+  });
+
+  function keyRequest(authorization: string, query = '', body: Record<string, unknown> = { contents: [] }): Request {
+    return new Request(`https://proxy.example.com/${query}`, {
+      method: 'POST',
+      headers: {
+        Authorization: authorization,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('accepts a named key and reports its ID', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+
+    try {
+      const response = await handleRequest(keyRequest('Bearer lab-a.secret-a'), keysEnv);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Proxy-Key-Id')).toBe('lab-a');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('reports the default key ID for the legacy shared key', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }), { status: 200 });
+
+    try {
+      const response = await handleRequest(keyRequest('Bearer test-proxy-key'), mockEnv);
+
+      expect(response.headers.get('X-Proxy-Key-Id')).toBe('default');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('reports the key ID on every authenticated route', async () => {
+    const request = (method: string, path: string): Request =>
+      new Request(`https://proxy.example.com${path}`, {
+        method,
+        headers: { Authorization: 'Bearer lab-a.secret-a' },
+        ...(method === 'POST' ? { body: JSON.stringify({ contents: 'text' }) } : {}),
+      });
+
+    const responses = await Promise.all([
+      handleRequest(request('POST', '/v1/count-tokens'), keysEnv),
+      handleRequest(request('POST', '/v1/caches'), keysEnv),
+      handleRequest(request('DELETE', '/v1/files/UNKNOWN'), keysEnv),
+      handleRequest(request('DELETE', '/v1/caches/UNKNOWN'), keysEnv),
+    ]);
+
+    expect(responses.map(response => response.headers.get('X-Proxy-Key-Id'))).toEqual([
+      'lab-a',
+      'lab-a',
+      'lab-a',
+      'lab-a',
+    ]);
+  });
+
+  it('rejects non-Bearer schemes explicitly', async () => {
+    const response = await handleRequest(keyRequest('Basic dGVzdC1wcm94eS1rZXk='), mockEnv);
+
+    expect(response.status).toBe(401);
+    const body: ErrorResponse = await response.json();
+    expect(body.error).toBe('Malformed Authorization header');
+  });
+
+  it('rejects Bearer tokens with extra whitespace', async () => {
+    const response = await handleRequest(keyRequest('Bearer  test-proxy-key'), mockEnv);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects models outside the key allow-list', async () => {
+    const response = await handleRequest(keyRequest('Bearer lab-a.secret-a', '?model=thinking'), keysEnv);
+
+    expect(response.status).toBe(403);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('model_not_allowed');
+    expect(response.headers.get('X-Proxy-Key-Id')).toBe('lab-a');
+  });
+
+  it('strips grounding for keys that deny it', async () => {
+    let forwarded: unknown = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (_input, init) => {
+      forwarded = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ candidates: [] }));
+    };
+
+    try {
+      const response = await handleRequest(
+        keyRequest('Bearer lab-a.secret-a', '', { contents: [], tools: [{ googleSearch: {} }] }),
+        keysEnv
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Proxy-Grounding')).toBe('stripped');
+      expect(forwarded).toEqual({ contents: [] });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('strips grounding from caches created by keys that deny it', async () => {
+    let forwarded: unknown = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (_input, init) => {
+      forwarded = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ name: 'cachedContents/abc-123', model: 'models/gemini-2.5-flash' }));
+    };
+
+    try {
+      const response = await handleRequest(
+        new Request('https://proxy.example.com/v1/caches', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer lab-a.secret-a' },
+          body: JSON.stringify({ contents: [], tools: [{ googleSearch: {} }] }),
+        }),
+        keysEnv,
+        { ...createServices(keysEnv), contextCaches: Store.memoryStore() }
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('X-Proxy-Grounding')).toBe('stripped');
+      expect(forwarded).not.toHaveProperty('tools');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Body validation', () => {
+  function rawRequest(body: string, env: Index.Env = mockEnv): Promise<Response> {
+    return handleRequest(
+      new Request('https://proxy.example.com/', {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer test-proxy-key',
+        },
+        body,
+      }),
+      env
+    );
+  }
+
+  it('rejects malformed JSON', async () => {
+    const response = await rawRequest('{"contents": [');
+
+    expect(response.status).toBe(400);
+    const body: ValidationErrorResponse = await response.json();
+    expect(body.code).toBe('invalid_json');
+  });
+
+  it('returns field-level error paths for invalid bodies', async () => {
+    const response = await rawRequest(
+      JSON.stringify({ contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'text/html', data: 'PGI+' } }] }] })
+    );
+
+    expect(response.status).toBe(400);
+    const body: ValidationErrorResponse = await response.json();
+    expect(body.code).toBe('invalid_body');
+    expect(body.errors).toEqual([
+      { path: 'contents[0].parts[0].inlineData.mimeType', message: expect.stringContaining('image/png') },
+    ]);
+  });
+
+  it('rejects bodies over the configured size limit with 413', async () => {
+    const response = await rawRequest(
+      JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'x'.repeat(200) }] }] }),
+      { ...mockEnv, MAX_REQUEST_BYTES: '100' }
+    );
+
+    expect(response.status).toBe(413);
+    const body: ValidationErrorResponse = await response.json();
+    expect(body.code).toBe('body_too_large');
+  });
+
+  it('does not call upstream for invalid bodies', async () => {
+    let called = false;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      called = true;
+      return new Response(null, { status: 200 });
+    };
+
+    try {
+      await rawRequest(JSON.stringify({ contents: 'hello' }));
+
+      expect(called).toBe(false);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Upstream errors', () => {
+  function services(): Index.Services {
+    return { ...createServices(mockEnv), generateId: () => 'req-42' };
+  }
+
+  function generateRequest(): Request {
+    return new Request('https://proxy.example.com/', {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+      },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] }),
+    });
+  }
+
+  it('normalizes Gemini error bodies into the envelope', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(JSON.stringify({ error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded' } }), {
+        status: 429,
+      });
+
+    try {
+      const response = await handleRequest(generateRequest(), mockEnv, services());
+
+      expect(response.status).toBe(429);
+      const body: UpstreamErrorResponse = await response.json();
+      expect(body).toMatchObject({
+        code: 'quota_exceeded',
+        message: 'Quota exceeded',
+        retryable: true,
+        upstreamStatus: 429,
+        requestId: 'req-42',
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('reports blocked prompts as safety errors', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(JSON.stringify({ promptFeedback: { blockReason: 'SAFETY' } }), { status: 200 });
+
+    try {
+      const response = await handleRequest(generateRequest(), mockEnv, services());
+
+      expect(response.status).toBe(400);
+      const body: UpstreamErrorResponse = await response.json();
+      expect(body).toMatchObject({ code: 'safety_blocked', retryable: false, upstreamStatus: 200 });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('reports fetch failures as retryable network errors', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      throw new Error('connection refused');
+    };
+
+    try {
+      const response = await handleRequest(generateRequest(), mockEnv, services());
+
+      expect(response.status).toBe(502);
+      const body: UpstreamErrorResponse = await response.json();
+      expect(body).toMatchObject({
+        error: 'Proxy error: connection refused',
+        code: 'network_error',
+        retryable: true,
+        upstreamStatus: null,
+        requestId: 'req-42',
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('tags every response with the request ID', async () => {
+    const response = await handleRequest(
+      new Request('https://proxy.example.com/', { method: 'POST' }),
+      mockEnv,
+      services()
+    );
+
+    expect(response.headers.get('X-Request-Id')).toBe('req-42');
+  });
+});
+
+describe('Gemini Proxy - Retry', () => {
+  const retryEnv = {
+    ...mockEnv,
+    RETRY_MAX_ATTEMPTS: '3',
+    MODEL_FALLBACKS: JSON.stringify({ 'gemini-2.5-pro': 'gemini-2.5-flash' }),
+  };
+
+  function services(sleeps: number[]): Index.Services {
+    return {
+      ...createServices(mockEnv),
+      sleep: async ms => {
+        sleeps.push(ms);
+      },
+      random: () => 0.5,
+    };
+  }
+
+  function generateRequest(query = ''): Request {
+    return new Request(`https://proxy.example.com/${query}`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+      },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] }),
+    });
+  }
+
+  function unavailable(): Response {
+    return new Response(JSON.stringify({ error: { code: 503, status: 'UNAVAILABLE', message: 'Overloaded' } }), {
+      status: 503,
+    });
+  }
+
+  it('retries transient failures with backoff', async () => {
+    const sleeps: number[] = [];
+    const statuses = [503, 503, 200];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      const status = statuses.shift() ?? 200;
+      return status === 200 ? new Response(JSON.stringify({ candidates: [] }), { status }) : unavailable();
+    };
+
+    try {
+      const response = await handleRequest(generateRequest(), retryEnv, services(sleeps));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Proxy-Model')).toBe('gemini-2.5-flash');
+      expect(sleeps).toEqual([125, 250]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('does not retry when retries are not configured', async () => {
+    let calls = 0;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      calls++;
+      return unavailable();
+    };
+
+    try {
+      const response = await handleRequest(generateRequest(), mockEnv, services([]));
+
+      expect(response.status).toBe(503);
+      expect(calls).toBe(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('falls back to the configured model once retries are spent', async () => {
+    const urls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      const url = input instanceof Request ? input.url : String(input);
+      urls.push(url);
+      return url.includes('gemini-2.5-pro') ? unavailable() : new Response(JSON.stringify({ candidates: [] }));
+    };
+
+    try {
+      const response = await handleRequest(generateRequest('?model=thinking'), retryEnv, services([]));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Proxy-Model')).toBe('gemini-2.5-flash');
+      expect(urls.filter(url => url.includes('gemini-2.5-pro'))).toHaveLength(3);
+      expect(urls.filter(url => url.includes('gemini-2.5-flash'))).toHaveLength(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('does not fall back to a model the key may not use', async () => {
+    const keys: Keys.Table = {
+      lookup: async id =>
+        id === 'pro-only'
+          ? {
+              id,
+              secretHash: await Keys.sha256Hex('secret'),
+              signingKey: null,
+              models: ['gemini-2.5-pro'],
+              grounding: 'deny',
+              expiresAt: null,
+            }
+          : null,
+    };
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => unavailable();
+
+    try {
+      const request = new Request('https://proxy.example.com/?model=thinking', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer pro-only.secret' },
+        body: JSON.stringify({ contents: [] }),
+      });
+      const response = await handleRequest(request, retryEnv, { ...services([]), keys });
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get('X-Proxy-Model')).toBe('gemini-2.5-pro');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Response cache', () => {
+  function services(): Index.Services {
+    return { ...createServices(mockEnv), responseCache: Store.memoryStore() };
+  }
+
+  function generateRequest(generationConfig: Record<string, unknown>, headers: Record<string, string> = {}): Request {
+    return new Request('https://proxy.example.com/', {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+        ...headers,
+      },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }], generationConfig }),
+    });
+  }
+
+  function countingFetch(): { calls: number } {
+    const counter = { calls: 0 };
+    globalThis.fetch = async () => {
+      counter.calls++;
+      return new Response(
+        JSON.stringify({ candidates: [{ content: { parts: [{ text: `Answer ${counter.calls}` }] } }] })
+      );
+    };
+    return counter;
+  }
+
+  it('serves repeated deterministic requests from the cache', async () => {
+    const cacheServices = services();
+    const originalFetch = globalThis.fetch;
+    const counter = countingFetch();
+
+    try {
+      const first = await handleRequest(generateRequest({ temperature: 0 }), mockEnv, cacheServices);
+      const second = await handleRequest(generateRequest({ temperature: 0 }), mockEnv, cacheServices);
+
+      expect(first.headers.get('X-Cache')).toBe('MISS');
+      expect(second.headers.get('X-Cache')).toBe('HIT');
+      expect(second.headers.get('X-Proxy-Model')).toBe('gemini-2.5-flash');
+      const body: GeminiResponse = await second.json();
+      expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Answer 1');
+      expect(counter.calls).toBe(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('skips the cache for sampled requests', async () => {
+    const cacheServices = services();
+    const originalFetch = globalThis.fetch;
+    const counter = countingFetch();
+
+    try {
+      await handleRequest(generateRequest({ temperature: 0.7 }), mockEnv, cacheServices);
+      const response = await handleRequest(generateRequest({ temperature: 0.7 }), mockEnv, cacheServices);
+
+      expect(response.headers.get('X-Cache')).toBe(null);
+      expect(counter.calls).toBe(2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('bypasses the cache on Cache-Control: no-store', async () => {
+    const cacheServices = services();
+    const originalFetch = globalThis.fetch;
+    const counter = countingFetch();
+
+    try {
+      await handleRequest(generateRequest({ temperature: 0 }), mockEnv, cacheServices);
+      const response = await handleRequest(
+        generateRequest({ temperature: 0 }, { 'Cache-Control': 'no-store' }),
+        mockEnv,
+        cacheServices
+      );
+
+      expect(response.headers.get('X-Cache')).toBe('BYPASS');
+      expect(counter.calls).toBe(2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('does not cache answers from a fallback model', async () => {
+    const fallbackEnv = { ...mockEnv, MODEL_FALLBACKS: JSON.stringify({ 'gemini-2.5-pro': 'gemini-2.5-flash' }) };
+    const cacheServices = services();
+    const urls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      const url = input instanceof Request ? input.url : String(input);
+      urls.push(url);
+      return url.includes('gemini-2.5-pro')
+        ? new Response(JSON.stringify({ error: { status: 'UNAVAILABLE' } }), { status: 503 })
+        : new Response(JSON.stringify({ candidates: [] }));
+    };
+
+    try {
+      const request = (): Request =>
+        new Request('https://proxy.example.com/?model=thinking', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer test-proxy-key' },
+          body: JSON.stringify({
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+            generationConfig: { temperature: 0 },
+          }),
+        });
+      const first = await handleRequest(request(), fallbackEnv, cacheServices);
+      const second = await handleRequest(request(), fallbackEnv, cacheServices);
+
+      expect(first.headers.get('X-Proxy-Model')).toBe('gemini-2.5-flash');
+      expect(second.headers.get('X-Cache')).toBe('MISS');
+      expect(urls.filter(url => url.includes('gemini-2.5-pro'))).toHaveLength(2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('keeps entries separate per client key', async () => {
+    const keysEnv = {
+      GEMINI_API_KEY: 'test-gemini-key',
+      PROXY_KEYS: JSON.stringify({
+        'lab-a': { secretHash: await Keys.sha256Hex('secret-a') },
+        'lab-b': { secretHash: await Keys.sha256Hex('secret-b') },
+      }),
+    };
+    const cacheServices = { ...createServices(keysEnv), responseCache: Store.memoryStore() };
+    const originalFetch = globalThis.fetch;
+    const counter = countingFetch();
+
+    try {
+      const first = await handleRequest(
+        generateRequest({ temperature: 0 }, { Authorization: 'Bearer lab-a.secret-a' }),
+        keysEnv,
+        cacheServices
+      );
+      const second = await handleRequest(
+        generateRequest({ temperature: 0 }, { Authorization: 'Bearer lab-b.secret-b' }),
+        keysEnv,
+        cacheServices
+      );
+
+      expect(first.headers.get('X-Cache')).toBe('MISS');
+      expect(second.headers.get('X-Cache')).toBe('MISS');
+      const body: GeminiResponse = await second.json();
+      expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Answer 2');
+      expect(counter.calls).toBe(2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('does not cache upstream errors', async () => {
+    const cacheServices = services();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ error: { status: 'INTERNAL' } }), { status: 500 });
+
+    try {
+      await handleRequest(generateRequest({ temperature: 0 }), mockEnv, cacheServices);
+      const response = await handleRequest(generateRequest({ temperature: 0 }), mockEnv, cacheServices);
+
+      expect(response.status).toBe(500);
+      expect(response.headers.get('X-Cache')).toBe('MISS');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Providers', () => {
+  const openAiEnv = {
+    ...mockEnv,
+    OPENAI_BASE_URL: 'http://localhost:8080/v1',
+    OPENAI_MODELS: JSON.stringify({ 'gemini-2.5-flash': 'qwen2.5' }),
+  };
+
+  function generateRequest(query: string): Request {
+    return new Request(`https://proxy.example.com/${query}`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer test-proxy-key',
+      },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] }),
+    });
+  }
+
+  it('rejects unknown providers', async () => {
+    const response = await handleRequest(generateRequest('?provider=mystery'), mockEnv);
+
+    expect(response.status).toBe(400);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('unknown_provider');
+    expect(body.allowed).toEqual(['gemini', 'openai']);
+  });
+
+  it('rejects models the provider does not serve', async () => {
+    const response = await handleRequest(generateRequest('?provider=openai&model=thinking'), openAiEnv);
+
+    expect(response.status).toBe(400);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('model_unavailable');
+  });
+
+  it('rejects file data the provider cannot send', async () => {
+    const originalFetch = globalThis.fetch;
+    let called = false;
+    globalThis.fetch = async () => {
+      called = true;
+      return new Response('{}');
+    };
+
+    try {
+      const response = await handleRequest(
+        new Request('https://proxy.example.com/?provider=openai', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer test-proxy-key' },
+          body: JSON.stringify({
+            contents: [
+              {
+                role: 'user',
+                parts: [{ fileData: { mimeType: 'application/pdf', fileUri: 'https://example.com/paper.pdf' } }],
+              },
+            ],
+          }),
+        }),
+        openAiEnv
+      );
+
+      expect(response.status).toBe(400);
+      const body: { code: string; errors: Array<{ path: string }> } = await response.json();
+      expect(body.code).toBe('invalid_body');
+      expect(body.errors).toEqual([expect.objectContaining({ path: 'contents[0].parts[0].fileData' })]);
+      expect(called).toBe(false);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('translates through an OpenAI-compatible server', async () => {
+    const requests: Array<{ url: string; body: unknown }> = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+      requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+      return new Response(
+        JSON.stringify({ choices: [{ message: { content: 'Hello from qwen' }, finish_reason: 'stop' }] })
+      );
+    };
+
+    try {
+      const response = await handleRequest(generateRequest('?provider=openai'), openAiEnv);
+
+      expect(response.status).toBe(200);
+      const body: GeminiResponse = await response.json();
+      expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Hello from qwen');
+      expect(requests).toEqual([
+        {
+          url: 'http://localhost:8080/v1/chat/completions',
+          body: { model: 'qwen2.5', messages: [{ role: 'user', content: 'Hi' }] },
+        },
+      ]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - CORS and routing', () => {
+  function services(): Index.Services {
+    return { ...createServices(mockEnv), generateId: () => 'req-7' };
+  }
+
+  it('echoes allowed origins and varies on Origin', async () => {
+    const request = new Request('https://proxy.example.com/health', { headers: { Origin: 'http://localhost:5173' } });
+
+    const response = await handleRequest(request, mockEnv, services());
+
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:5173');
+    expect(response.headers.get('Vary')).toBe('Origin');
+  });
+
+  it('rejects disallowed origins', async () => {
+    const request = new Request('https://proxy.example.com/v1/generate', {
+      method: 'POST',
+      headers: { Origin: 'https://evil.example.com', Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify({ contents: [] }),
+    });
+
+    const response = await handleRequest(request, mockEnv, services());
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe(null);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('origin_not_allowed');
+  });
+
+  it('reads the allow-list from the environment', async () => {
+    const env = { ...mockEnv, ALLOWED_ORIGINS: 'https://lab.example.org' };
+    const allowed = new Request('https://proxy.example.com/', {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://lab.example.org' },
+    });
+    const refused = new Request('https://proxy.example.com/', {
+      method: 'OPTIONS',
+      headers: { Origin: 'tauri://localhost' },
+    });
+
+    expect((await handleRequest(allowed, env, services())).status).toBe(200);
+    expect((await handleRequest(refused, env, services())).status).toBe(403);
+  });
+
+  it('answers health checks without a key', async () => {
+    const response = await handleRequest(new Request('https://proxy.example.com/health'), mockEnv, services());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+    expect(response.headers.get('X-Request-Id')).toBe('req-7');
+  });
+
+  it('returns 404 for unknown paths and 405 with Allow for wrong methods', async () => {
+    const missing = await handleRequest(new Request('https://proxy.example.com/v2/generate'), mockEnv, services());
+    const wrongMethod = await handleRequest(new Request('https://proxy.example.com/v1/generate'), mockEnv, services());
+
+    expect(missing.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('POST');
+  });
+
+  it('routes /v1/generate and /v1/stream to the matching upstream method', async () => {
+    const urls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      urls.push(String(input));
+      return new Response(JSON.stringify({ candidates: [] }));
+    };
+
+    try {
+      for (const path of ['/v1/generate', '/v1/stream']) {
+        await handleRequest(
+          new Request(`https://proxy.example.com${path}`, {
+            method: 'POST',
+            headers: { Authorization: 'Bearer test-proxy-key' },
+            body: JSON.stringify({ contents: [] }),
+          }),
+          mockEnv,
+          services()
+        );
+      }
+
+      expect(urls[0]).toContain(':generateContent?');
+      expect(urls[1]).toContain(':streamGenerateContent?alt=sse');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('lists the models a key may use', async () => {
+    const request = new Request('https://proxy.example.com/v1/models', {
+      headers: { Authorization: 'Bearer test-proxy-key' },
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      throw new Error('offline');
+    };
+
+    try {
+      const response = await handleRequest(request, mockEnv, { ...services(), responseCache: Store.memoryStore() });
+
+      expect(response.status).toBe(200);
+      const body: { models: Array<{ id: string }>; default: string; source: string } = await response.json();
+      expect(body.models.map(model => model.id)).toEqual([
+        'gemini-2.5-flash',
+        'gemini-2.5-pro',
+        'gemini-2.5-flash-image',
+      ]);
+      expect(body.default).toBe('gemini-2.5-flash');
+      expect(body.source).toBe('static');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Model catalog', () => {
+  interface CatalogResponse {
+    models: Array<{ id: string; contextWindow: number; labels: { en: string; ru: string } }>;
+    source: string;
+  }
+
+  function listRequest(authorization: string, query = ''): Request {
+    return new Request(`https://proxy.example.com/v1/models${query}`, { headers: { Authorization: authorization } });
+  }
+
+  it('serves upstream metadata and caches it', async () => {
+    let calls = 0;
+    const services = { ...createServices(mockEnv), responseCache: Store.memoryStore() };
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      calls++;
+      expect(String(input)).toContain('/v1beta/models?pageSize=1000&key=test-gemini-key');
+      return new Response(JSON.stringify({ models: [{ name: 'models/gemini-2.5-flash', inputTokenLimit: 999 }] }));
+    };
+
+    try {
+      const first: CatalogResponse = await (
+        await handleRequest(listRequest('Bearer test-proxy-key'), mockEnv, services)
+      ).json();
+      const second: CatalogResponse = await (
+        await handleRequest(listRequest('Bearer test-proxy-key'), mockEnv, services)
+      ).json();
+
+      expect(first.models).toMatchObject([{ id: 'gemini-2.5-flash', contextWindow: 999, labels: { ru: 'Быстрая' } }]);
+      expect([first.source, second.source]).toEqual(['upstream', 'cache']);
+      expect(calls).toBe(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('filters by key scope and provider', async () => {
+    const keys: Keys.Table = {
+      lookup: async id =>
+        id === 'pro'
+          ? {
+              id,
+              secretHash: await Keys.sha256Hex('secret'),
+              signingKey: null,
+              models: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+              grounding: 'allow',
+              expiresAt: null,
+            }
+          : null,
+    };
+    const env = { ...mockEnv, OPENAI_MODELS: JSON.stringify({ 'gemini-2.5-flash': 'llama3.1' }) };
+    const services = { ...createServices(mockEnv), keys, responseCache: Store.memoryStore() };
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response('{}', { status: 500 });
+
+    try {
+      const scoped: CatalogResponse = await (
+        await handleRequest(listRequest('Bearer pro.secret'), env, services)
+      ).json();
+      const openAi: CatalogResponse = await (
+        await handleRequest(listRequest('Bearer pro.secret', '?provider=openai'), env, services)
+      ).json();
+
+      expect(scoped.models.map(model => model.id)).toEqual(['gemini-2.5-flash', 'gemini-2.5-pro']);
+      expect(openAi.models.map(model => model.id)).toEqual(['gemini-2.5-flash']);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('requires a key', async () => {
+    const response = await handleRequest(new Request('https://proxy.example.com/v1/models'), mockEnv);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Gemini Proxy - Audit log', () => {
+  const START = Date.UTC(2025, 0, 1, 12);
+
+  function capturing(entries: Log.Entry[]): Index.Services {
+    let now = START;
+    return {
+      ...createServices(mockEnv),
+      rateLimitStore: Store.memoryStore(),
+      responseCache: Store.memoryStore(),
+      generateId: () => 'req-audit',
+      now: () => (now += 10),
+      logger: { write: entry => entries.push(entry) },
+    };
+  }
+
+  function generateRequest(path: string, body: unknown): Request {
+    return new Request(`https://proxy.example.com${path}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const prompt = {
+    contents: [
+      {
+        role: 'user',
+        parts: [{ text: 'Secret hypothesis' }, { inlineData: { mimeType: 'image/png', data: 'QUJD' } }],
+      },
+    ],
+    tools: [{ googleSearch: {} }],
+  };
+
+  it('logs one record per request with usage and no prompt content', async () => {
+    const entries: Log.Entry[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response(
+        JSON.stringify({
+          candidates: [],
+          usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 6, totalTokenCount: 10 },
+        })
+      );
+
+    try {
+      await handleRequest(generateRequest('/v1/generate?model=thinking', prompt), mockEnv, capturing(entries));
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        level: 'info',
+        requestId: 'req-audit',
+        method: 'POST',
+        path: '/v1/generate',
+        status: 200,
+        keyId: 'default',
+        model: 'gemini-2.5-pro',
+        provider: 'gemini',
+        stream: false,
+        grounding: true,
+        attempts: 1,
+        upstreamStatus: 200,
+        usage: { promptTokens: 4, candidatesTokens: 6, totalTokens: 10 },
+        errorCode: null,
+      });
+      expect(entries[0]?.latencyMs).toBeGreaterThan(0);
+      expect(JSON.stringify(entries)).not.toContain('Secret hypothesis');
+      expect(JSON.stringify(entries)).not.toContain('QUJD');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('logs prompt text with inline data redacted when enabled', async () => {
+    const entries: Log.Entry[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [] }));
+
+    try {
+      await handleRequest(
+        generateRequest('/v1/generate', prompt),
+        { ...mockEnv, LOG_PROMPTS: 'text' },
+        capturing(entries)
+      );
+
+      expect(JSON.stringify(entries[0]?.prompt)).toContain('Secret hypothesis');
+      expect(JSON.stringify(entries[0]?.prompt)).not.toContain('QUJD');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('logs failures with their error code', async () => {
+    const entries: Log.Entry[] = [];
+
+    await handleRequest(
+      new Request('https://proxy.example.com/v1/generate', { method: 'POST', body: '{}' }),
+      mockEnv,
+      capturing(entries)
+    );
+
+    expect(entries[0]).toMatchObject({ level: 'warn', status: 401, errorCode: 'missing_key', keyId: null });
+  });
+
+  it('answers and logs exceptions the handlers do not catch', async () => {
+    const entries: Log.Entry[] = [];
+    const failing: Store.Store = {
+      ...Store.memoryStore(),
+      get: () => Promise.reject(new Error('KV GET failed: 503')),
+    };
+
+    const response = await handleRequest(generateRequest('/v1/generate', { contents: [] }), mockEnv, {
+      ...capturing(entries),
+      rateLimitStore: failing,
+    });
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get('X-Request-Id')).toBe('req-audit');
+    const body: Record<string, unknown> = await response.json();
+    expect(body).toMatchObject({ code: 'internal_error', retryable: true, requestId: 'req-audit' });
+    expect(JSON.stringify(body)).not.toContain('KV GET failed');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: 'error',
+      requestId: 'req-audit',
+      status: 500,
+      errorCode: 'internal_error',
+      error: 'KV GET failed: 503',
+    });
+  });
+
+  it('logs streams once they finish, with usage from the final chunk', async () => {
+    const entries: Log.Entry[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () =>
+      new Response('data: {"candidates":[],"usageMetadata":{"totalTokenCount":7}}\r\n\r\n', { status: 200 });
+
+    try {
+      const response = await handleRequest(
+        generateRequest('/v1/stream', { contents: [] }),
+        mockEnv,
+        capturing(entries)
+      );
+      expect(entries).toHaveLength(0);
+
+      await response.text();
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ stream: true, usage: { totalTokens: 7 } });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Gemini Proxy - Grounding policy', () => {
+  function services(policy: string): Index.Services {
+    return {
+      ...createServices(mockEnv),
+      keys: {
+        lookup: async id =>
+          id === 'lab'
+            ? {
+                id,
+                secretHash: await Keys.sha256Hex('secret'),
+                signingKey: null,
+                models: null,
+                grounding: policy === 'force' ? 'force' : 'allow',
+                expiresAt: null,
+              }
+            : null,
+      },
+    };
+  }
+
+  async function forwardedTools(policy: string, query: string, body: Record<string, unknown>) {
+    let forwarded: { tools?: unknown } = {};
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (_input, init) => {
+      forwarded = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ candidates: [] }));
+    };
+
+    try {
+      const response = await handleRequest(
+        new Request(`https://proxy.example.com/v1/generate${query}`, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer lab.secret' },
+          body: JSON.stringify(body),
+        }),
+        mockEnv,
+        services(policy)
+      );
+      return { tools: forwarded.tools, header: response.headers.get('X-Proxy-Grounding') };
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  it('forwards the client choice when allowed', async () => {
+    expect(await forwardedTools('allow', '', { contents: [], tools: [{ googleSearch: {} }] })).toEqual({
+      tools: [{ googleSearch: {} }],
+      header: null,
+    });
+    expect(await forwardedTools('allow', '', { contents: [] })).toEqual({ tools: undefined, header: null });
+  });
+
+  it('forces grounding onto models that support it', async () => {
+    expect(await forwardedTools('force', '', { contents: [] })).toEqual({
+      tools: [{ googleSearch: {} }],
+      header: 'forced',
+    });
+    expect(await forwardedTools('force', '?model=creative', { contents: [] })).toEqual({
+      tools: undefined,
+      header: null,
+    });
+  });
+});
+
+describe('Gemini Proxy - Images', () => {
+  const imageEnv = { ...mockEnv, IMAGE_OFFLOAD_BYTES: '4' };
+  const generated = {
+    candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }] } }],
+  };
+
+  function services(withBlobs: boolean): Index.Services {
+    let ids = 0;
+    return {
+      ...createServices(imageEnv),
+      imageBlobs: withBlobs ? Blobs.memoryBlobStore() : null,
+      generateId: () => `id-${++ids}`,
+    };
+  }
+
+  function imageRequest(body: unknown, query = ''): Request {
+    return new Request(`https://proxy.example.com/v1/images${query}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function withUpstream<T>(run: (urls: string[]) => Promise<T>): Promise<T> {
+    const urls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      urls.push(String(input));
+      return new Response(JSON.stringify(generated));
+    };
+    try {
+      return await run(urls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  it('generates with the image model and serves large images by URL', async () => {
+    const imageServices = services(true);
+    const body: { candidates: Array<{ content: { parts: unknown[] } }> } = await withUpstream(async urls => {
+      const response = await handleRequest(
+        imageRequest({ contents: [{ role: 'user', parts: [{ text: 'A cat' }] }] }, '?model=pro'),
+        imageEnv,
+        imageServices
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Proxy-Model')).toBe('gemini-2.5-flash-image');
+      expect(urls[0]).toContain('/models/gemini-2.5-flash-image:generateContent');
+      return response.json();
+    });
+
+    // The request ID took the first generated ID
+    const fileUri = 'https://proxy.example.com/v1/images/id-2';
+    expect(body.candidates[0]?.content.parts).toEqual([{ fileData: { mimeType: 'image/png', fileUri } }]);
+
+    const image = await handleRequest(new Request(fileUri), imageEnv, imageServices);
+    expect(image.status).toBe(200);
+    expect(image.headers.get('Content-Type')).toBe('image/png');
+    expect(new Uint8Array(await image.arrayBuffer())).toEqual(new Uint8Array([137, 80, 78, 71, 13, 10]));
+  });
+
+  it('keeps images inline without a blob store', async () => {
+    const body = await withUpstream(async () => {
+      const response = await handleRequest(imageRequest({ contents: [] }), imageEnv, services(false));
+      return response.json();
+    });
+
+    expect(body).toEqual(generated);
+  });
+
+  it('rejects reference images of other types', async () => {
+    const response = await handleRequest(
+      imageRequest({
+        contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'application/pdf', data: 'AAAA' } }] }],
+      }),
+      imageEnv,
+      services(true)
+    );
+
+    expect(response.status).toBe(400);
+    const body: ValidationErrorResponse = await response.json();
+    expect(body.code).toBe('invalid_body');
+    expect(body.errors?.[0]?.path).toBe('contents[0].parts[0].inlineData.mimeType');
+  });
+
+  it('answers 404 for unknown or expired images', async () => {
+    const response = await handleRequest(
+      new Request('https://proxy.example.com/v1/images/missing'),
+      imageEnv,
+      services(true)
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Gemini Proxy - Files', () => {
+  let filesEnv: Index.Env;
+  const uploaded = {
+    name: 'files/abc-123',
+    displayName: 'data.csv',
+    mimeType: 'text/csv',
+    sizeBytes: '11',
+    state: 'ACTIVE',
+    uri: 'https://generativelanguage.googleapis.com/v1beta/files/abc-123',
+  };
+
+  interface Call {
+    method: string;
+    url: string;
+    headers: Headers;
+    body: string;
+  }
+
+  beforeAll(async () => {
+    filesEnv = {
+      GEMINI_API_KEY: 'test-gemini-key',
+      PROXY_KEYS: JSON.stringify({
+        'lab-a': { secretHash: await Keys.sha256Hex('secret-a') },
+        'lab-b': { secretHash: await Keys.sha256Hex('secret-b') },
+      }),
+    };
+  });
+
+  // Files API stand-in: upload sessions, listing, deletion and generation
+  async function withFilesApi<T>(run: (calls: Call[]) => Promise<T>, failDelete = false): Promise<T> {
+    const calls: Call[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+      // Upload bodies are streams, which `new Request` refuses without `duplex`
+      const request = { method: init?.method ?? 'GET', url: String(input) };
+      const body = init?.body ? await new Response(init.body).text() : '';
+      calls.push({ ...request, headers: new Headers(init?.headers), body });
+      const url = new URL(request.url);
+      if (url.pathname === '/upload/v1beta/files') {
+        return new Response(null, { headers: { 'X-Goog-Upload-URL': 'https://upload.example.com/session-1' } });
+      }
+      if (url.hostname === 'upload.example.com') {
+        return new Response(JSON.stringify({ file: uploaded }));
+      }
+      if (url.pathname.endsWith(':generateContent') || url.pathname.endsWith(':countTokens')) {
+        return new Response(JSON.stringify({ candidates: [], totalTokens: 10 }));
+      }
+      if (request.method === 'DELETE') {
+        return failDelete
+          ? new Response(JSON.stringify({ error: { code: 403, message: 'Denied', status: 'PERMISSION_DENIED' } }), {
+              status: 403,
+            })
+          : new Response('{}');
+      }
+      return new Response(JSON.stringify({ files: [uploaded], nextPageToken: 'page-2' }));
+    };
+    try {
+      return await run(calls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  function filesRequest(path: string, init: RequestInit = {}, keyId: 'lab-a' | 'lab-b' = 'lab-a'): Request {
+    const secret = keyId === 'lab-a' ? 'secret-a' : 'secret-b';
+    return new Request(`https://proxy.example.com${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${keyId}.${secret}`, ...init.headers },
+    });
+  }
+
+  function filesServices(): Index.Services {
+    return { ...createServices(filesEnv), files: Store.memoryStore() };
+  }
+
+  const upload = (services: Index.Services): Promise<Response> =>
+    handleRequest(
+      filesRequest('/v1/files?name=data.csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv', 'Content-Length': '11' },
+        body: 'a,b\n1,2\n3,4',
+      }),
+      filesEnv,
+      services
+    );
+
+  it('relays uploads through a resumable session without exposing the API key', async () => {
+    await withFilesApi(async calls => {
+      const response = await upload(filesServices());
+
+      expect(response.status).toBe(201);
+      const text = await response.text();
+      expect(text).not.toContain('test-gemini-key');
+      expect(text).not.toContain('session-1');
+      expect(JSON.parse(text).file).toMatchObject({ id: 'abc-123', fileUri: uploaded.uri, sizeBytes: 11 });
+
+      expect(calls.map(call => call.method)).toEqual(['POST', 'POST']);
+      expect(calls[0]?.url).toContain('key=test-gemini-key');
+      expect(calls[0]?.headers.get('X-Goog-Upload-Header-Content-Type')).toBe('text/csv');
+      expect(JSON.parse(calls[0]?.body ?? '')).toEqual({ file: { display_name: 'data.csv' } });
+      expect(calls[1]?.url).toBe('https://upload.example.com/session-1');
+      expect(calls[1]?.headers.get('X-Goog-Upload-Command')).toBe('upload, finalize');
+      expect(calls[1]?.body).toBe('a,b\n1,2\n3,4');
+    });
+  });
+
+  it('rejects unsupported types and oversized files before calling upstream', async () => {
+    await withFilesApi(async calls => {
+      const zip = await handleRequest(
+        filesRequest('/v1/files', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/zip', 'Content-Length': '4' },
+          body: 'PK..',
+        }),
+        filesEnv
+      );
+      const large = await handleRequest(
+        filesRequest('/v1/files', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/pdf', 'Content-Length': '5' },
+          body: '%PDF-',
+        }),
+        { ...filesEnv, FILE_MAX_BYTES: '4' }
+      );
+
+      expect(zip.status).toBe(415);
+      expect(large.status).toBe(413);
+      expect(calls).toEqual([]);
+    });
+  });
+
+  it('lists files with paging', async () => {
+    await withFilesApi(async calls => {
+      const services = filesServices();
+      await upload(services);
+      const response = await handleRequest(filesRequest('/v1/files?pageSize=10&pageToken=page-1'), filesEnv, services);
+
+      expect(response.status).toBe(200);
+      const body: { files: Array<{ id: string }>; nextPageToken: string } = await response.json();
+      expect(body.files.map(file => file.id)).toEqual(['abc-123']);
+      expect(body.nextPageToken).toBe('page-2');
+      expect(calls.at(-1)?.url).toContain('pageSize=10');
+      expect(calls.at(-1)?.url).toContain('pageToken=page-1');
+    });
+  });
+
+  it('lists only files the key uploaded', async () => {
+    await withFilesApi(async () => {
+      const services = filesServices();
+      await upload(services);
+
+      const response = await handleRequest(filesRequest('/v1/files', {}, 'lab-b'), filesEnv, services);
+
+      const body: { files: Array<{ id: string }> } = await response.json();
+      expect(body.files).toEqual([]);
+    });
+  });
+
+  it('deletes files', async () => {
+    await withFilesApi(async calls => {
+      const services = filesServices();
+      await upload(services);
+      const response = await handleRequest(filesRequest('/v1/files/abc-123', { method: 'DELETE' }), filesEnv, services);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ id: 'abc-123', deleted: true });
+      expect(calls.at(-1)?.method).toBe('DELETE');
+      expect(calls.at(-1)?.url).toContain('/v1beta/files/abc-123?');
+
+      const again = await handleRequest(filesRequest('/v1/files/abc-123', { method: 'DELETE' }), filesEnv, services);
+      expect(again.status).toBe(404);
+    });
+  });
+
+  it('does not delete files another key uploaded', async () => {
+    await withFilesApi(async calls => {
+      const services = filesServices();
+      await upload(services);
+
+      const response = await handleRequest(
+        filesRequest('/v1/files/abc-123', { method: 'DELETE' }, 'lab-b'),
+        filesEnv,
+        services
+      );
+
+      expect(response.status).toBe(404);
+      expect(calls.some(call => call.method === 'DELETE')).toBe(false);
+    });
+  });
+
+  it('lets only the uploading key reference a file', async () => {
+    await withFilesApi(async calls => {
+      const services = filesServices();
+      await upload(services);
+      const withFile = (path: string, keyId: 'lab-a' | 'lab-b', fileUri = uploaded.uri): Promise<Response> =>
+        handleRequest(
+          filesRequest(
+            path,
+            {
+              method: 'POST',
+              body: JSON.stringify({
+                contents: [{ role: 'user', parts: [{ fileData: { mimeType: 'text/csv', fileUri } }] }],
+              }),
+            },
+            keyId
+          ),
+          filesEnv,
+          services
+        );
+
+      expect((await withFile('/v1/generate', 'lab-a')).status).toBe(200);
+      const foreign = await withFile('/v1/generate', 'lab-b');
+      expect(foreign.status).toBe(404);
+      const body: ModelErrorResponse = await foreign.json();
+      expect(body.code).toBe('unknown_file');
+      expect((await withFile('/v1/count-tokens', 'lab-b')).status).toBe(404);
+      expect((await withFile('/v1/caches', 'lab-b')).status).toBe(404);
+      expect((await withFile('/v1/generate', 'lab-a', `${uploaded.uri}-other`)).status).toBe(404);
+      expect(calls.filter(call => call.url.includes(':generateContent'))).toHaveLength(1);
+    });
+  });
+
+  it('normalizes upstream failures', async () => {
+    await withFilesApi(async () => {
+      const services = filesServices();
+      await upload(services);
+      const response = await handleRequest(filesRequest('/v1/files/abc-123', { method: 'DELETE' }), filesEnv, services);
+
+      expect(response.status).toBe(403);
+      const body: UpstreamErrorResponse = await response.json();
+      expect(body.code).toBe('permission_denied');
+    }, true);
+  });
+
+  it('requires a key', async () => {
+    const response = await handleRequest(new Request('https://proxy.example.com/v1/files'), mockEnv);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Gemini Proxy - Token counting', () => {
+  function countRequest(body: unknown, query = ''): Request {
+    return new Request(`https://proxy.example.com/v1/count-tokens${query}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function withUpstream<T>(upstream: Response, run: (urls: string[]) => Promise<T>): Promise<T> {
+    const urls: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async input => {
+      urls.push(String(input));
+      return upstream;
+    };
+    try {
+      return await run(urls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  it('returns the token count with an estimated price', async () => {
+    await withUpstream(new Response(JSON.stringify({ totalTokens: 100_000 })), async urls => {
+      const response = await handleRequest(
+        countRequest(
+          {
+            contents: [{ role: 'user', parts: [{ text: 'Long paper' }] }],
+            generationConfig: { maxOutputTokens: 1000 },
+          },
+          '?model=thinking'
+        ),
+        { ...mockEnv, MODEL_PRICES: '{"gemini-2.5-pro":{"inputPerMillion":2}}' }
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        model: 'gemini-2.5-pro',
+        totalTokens: 100_000,
+        cachedTokens: 0,
+        price: { inputPerMillion: 2, outputPerMillion: 10 },
+        estimate: { currency: 'USD', input: 0.2, maxOutput: 0.01 },
+      });
+      expect(urls[0]).toContain('/models/gemini-2.5-pro:countTokens');
+    });
+  });
+
+  it('validates the body before counting', async () => {
+    await withUpstream(new Response('{}'), async urls => {
+      const response = await handleRequest(countRequest({ contents: 'text' }), mockEnv);
+
+      expect(response.status).toBe(400);
+      expect(urls).toEqual([]);
+    });
+  });
+
+  it('normalizes upstream failures', async () => {
+    const upstream = new Response(
+      JSON.stringify({ error: { code: 400, message: 'Bad', status: 'INVALID_ARGUMENT' } }),
+      {
+        status: 400,
+      }
+    );
+    await withUpstream(upstream, async () => {
+      const response = await handleRequest(countRequest({ contents: [] }), mockEnv);
+
+      expect(response.status).toBe(400);
+      const body: UpstreamErrorResponse = await response.json();
+      expect(body.code).toBe('invalid_request');
+    });
+  });
+});
+
+describe('Gemini Proxy - Context caches', () => {
+  let cacheEnv: Index.Env;
+  const cached = {
+    name: 'cachedContents/abc-123',
+    model: 'models/gemini-2.5-pro',
+    usageMetadata: { totalTokenCount: 52_000 },
+    expireTime: '2026-10-19T13:00:00Z',
+  };
+
+  beforeAll(async () => {
+    cacheEnv = {
+      GEMINI_API_KEY: 'test-gemini-key',
+      PROXY_KEYS: JSON.stringify({
+        'lab-a': { secretHash: await Keys.sha256Hex('secret-a') },
+        'lab-b': { secretHash: await Keys.sha256Hex('secret-b') },
+      }),
+    };
+  });
+
+  // Cached contents stand-in; a foreign cache created outside the proxy is always listed
+  async function withCachesApi<T>(run: (calls: Array<{ method: string; url: string }>) => Promise<T>): Promise<T> {
+    const calls: Array<{ method: string; url: string }> = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+      const method = init?.method ?? 'GET';
+      const url = String(input);
+      calls.push({ method, url });
+      if (url.includes(':generateContent')) {
+        return new Response(JSON.stringify({ candidates: [] }));
+      }
+      if (url.includes(':countTokens')) {
+        return new Response(JSON.stringify({ totalTokens: 52_010, cachedContentTokenCount: 52_000 }));
+      }
+      if (method === 'GET') {
+        return new Response(
+          JSON.stringify({ cachedContents: [cached, { ...cached, name: 'cachedContents/other-1' }] })
+        );
+      }
+      return new Response(method === 'DELETE' ? '{}' : JSON.stringify(cached));
+    };
+    try {
+      return await run(calls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  function cacheRequest(keyId: 'lab-a' | 'lab-b', path: string, init: RequestInit = {}): Request {
+    const secret = keyId === 'lab-a' ? 'secret-a' : 'secret-b';
+    return new Request(`https://proxy.example.com${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${keyId}.${secret}` },
+    });
+  }
+
+  const create = (services: Index.Services): Promise<Response> =>
+    handleRequest(
+      cacheRequest('lab-a', '/v1/caches?model=thinking&ttl=600', {
+        method: 'POST',
+        body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'A long paper' }] }] }),
+      }),
+      cacheEnv,
+      services
+    );
+
+  function cacheServices(): Index.Services {
+    return { ...createServices(cacheEnv), contextCaches: Store.memoryStore() };
+  }
+
+  it('creates caches for the requesting key', async () => {
+    await withCachesApi(async calls => {
+      const response = await create(cacheServices());
+
+      expect(response.status).toBe(201);
+      const body: { cache: { id: string; totalTokens: number } } = await response.json();
+      expect(body.cache).toMatchObject({ id: 'abc-123', totalTokens: 52_000 });
+      expect(calls[0]).toMatchObject({ method: 'POST' });
+      expect(calls[0]?.url).toContain('/v1beta/cachedContents?');
+    });
+  });
+
+  it('lists only caches the key created', async () => {
+    await withCachesApi(async () => {
+      const services = cacheServices();
+      await create(services);
+
+      const own = await handleRequest(cacheRequest('lab-a', '/v1/caches'), cacheEnv, services);
+      const other = await handleRequest(cacheRequest('lab-b', '/v1/caches'), cacheEnv, services);
+
+      const ownBody: { caches: Array<{ id: string }> } = await own.json();
+      const otherBody: { caches: Array<{ id: string }> } = await other.json();
+      expect(ownBody.caches.map(cache => cache.id)).toEqual(['abc-123']);
+      expect(otherBody.caches).toEqual([]);
+    });
+  });
+
+  it('lets only the owner use a cache in generate requests', async () => {
+    await withCachesApi(async calls => {
+      const services = cacheServices();
+      await create(services);
+      const generate = (keyId: 'lab-a' | 'lab-b', model: string): Promise<Response> =>
+        handleRequest(
+          cacheRequest(keyId, `/v1/generate?model=${model}`, {
+            method: 'POST',
+            body: JSON.stringify({ contents: [], cachedContent: 'cachedContents/abc-123' }),
+          }),
+          cacheEnv,
+          services
+        );
+
+      expect((await generate('lab-a', 'thinking')).status).toBe(200);
+      expect((await generate('lab-a', 'fast')).status).toBe(400);
+      const foreign = await generate('lab-b', 'thinking');
+      expect(foreign.status).toBe(404);
+      const body: ModelErrorResponse = await foreign.json();
+      expect(body.code).toBe('unknown_cache');
+      expect(calls.filter(call => call.url.includes(':generateContent'))).toHaveLength(1);
+    });
+  });
+
+  it('lets only the owner count tokens with a cache', async () => {
+    await withCachesApi(async calls => {
+      const services = cacheServices();
+      await create(services);
+      const count = (keyId: 'lab-a' | 'lab-b'): Promise<Response> =>
+        handleRequest(
+          cacheRequest(keyId, '/v1/count-tokens?model=thinking', {
+            method: 'POST',
+            body: JSON.stringify({ contents: [], cachedContent: 'cachedContents/abc-123' }),
+          }),
+          cacheEnv,
+          services
+        );
+
+      expect((await count('lab-a')).status).toBe(200);
+      const foreign = await count('lab-b');
+      expect(foreign.status).toBe(404);
+      const body: ModelErrorResponse = await foreign.json();
+      expect(body.code).toBe('unknown_cache');
+      expect(calls.filter(call => call.url.includes(':countTokens'))).toHaveLength(1);
+    });
+  });
+
+  it('refreshes and deletes owned caches only', async () => {
+    await withCachesApi(async calls => {
+      const services = cacheServices();
+      await create(services);
+
+      const foreign = await handleRequest(
+        cacheRequest('lab-b', '/v1/caches/abc-123', { method: 'DELETE' }),
+        cacheEnv,
+        services
+      );
+      expect(foreign.status).toBe(404);
+
+      const refreshed = await handleRequest(
+        cacheRequest('lab-a', '/v1/caches/abc-123?ttl=1200', { method: 'PATCH' }),
+        cacheEnv,
+        services
+      );
+      expect(refreshed.status).toBe(200);
+      expect(calls.at(-1)).toMatchObject({ method: 'PATCH' });
+      expect(calls.at(-1)?.url).toContain('updateMask=ttl');
+
+      const deleted = await handleRequest(
+        cacheRequest('lab-a', '/v1/caches/abc-123', { method: 'DELETE' }),
+        cacheEnv,
+        services
+      );
+      expect(await deleted.json()).toEqual({ id: 'abc-123', deleted: true });
+
+      const again = await handleRequest(
+        cacheRequest('lab-a', '/v1/caches/abc-123', { method: 'DELETE' }),
+        cacheEnv,
+        services
+      );
+      expect(again.status).toBe(404);
+    });
+  });
+});
+
+describe('Gemini Proxy - Mock mode', () => {
+  const mockModeEnv = {
+    ...mockEnv,
+    MOCK_MODE: '1',
+    MOCK_FIXTURES: JSON.stringify({
+      mitochondria: { body: { candidates: [{ content: { parts: [{ text: 'Fixture' }] } }] } },
+    }),
+  };
+
+  function mockRequest(text: string, path = '/v1/generate'): Request {
+    return new Request(`https://proxy.example.com${path}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text }] }] }),
+    });
+  }
+
+  // Any real network call fails the test
+  async function offline<T>(run: () => Promise<T>): Promise<T> {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      throw new Error('Network used in mock mode');
+    };
+    try {
+      return await run();
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }
+
+  it('answers generate requests without the network', async () => {
+    await offline(async () => {
+      const response = await handleRequest(mockRequest('What is a cell?'), mockModeEnv);
+
+      expect(response.status).toBe(200);
+      const body: GeminiResponse = await response.json();
+      expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Mock response to: What is a cell?');
+    });
+  });
+
+  it('streams scripted replies', async () => {
+    await offline(async () => {
+      const response = await handleRequest(mockRequest('mock:thinking', '/v1/stream'), mockModeEnv);
+
+      expect(response.status).toBe(200);
+      const text = await response.text();
+      expect(text).toContain('"thought":true');
+      expect(text).toContain('"finishReason":"STOP"');
+    });
+  });
+
+  it('answers from fixtures by keyword', async () => {
+    await offline(async () => {
+      const response = await handleRequest(mockRequest('Tell me about Mitochondria'), mockModeEnv);
+
+      const body: GeminiResponse = await response.json();
+      expect(body.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Fixture');
+    });
+  });
+
+  it('goes through the error envelope for blocks and errors', async () => {
+    await offline(async () => {
+      const blocked = await handleRequest(mockRequest('mock:blocked'), mockModeEnv);
+      const limited = await handleRequest(mockRequest('mock:error:429'), mockModeEnv);
+
+      expect(blocked.status).toBe(400);
+      const blockedBody: UpstreamErrorResponse = await blocked.json();
+      expect(blockedBody.code).toBe('safety_blocked');
+      expect(limited.status).toBe(429);
+      const limitedBody: UpstreamErrorResponse = await limited.json();
+      expect(limitedBody.code).toBe('quota_exceeded');
+    });
+  });
+});
+
+describe('Gemini Proxy - Request signing', () => {
+  const NOW = Date.UTC(2025, 0, 1);
+  const BODY = JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hello' }] }] });
+
+  function signingServices(env: Index.Env): Index.Services {
+    return {
+      ...createServices(env),
+      nonces: Store.memoryStore(() => NOW),
+      fetch: async () => new Response(JSON.stringify({ candidates: [] })),
+      now: () => NOW,
+    };
+  }
+
+  async function signedRequest(path: string, secret = 'test-proxy-key', body = BODY): Promise<Request> {
+    const headers = await Signing.sign({ method: 'POST', path, body }, Keys.LEGACY_KEY_ID, secret, NOW);
+    return new Request(`https://proxy.example.com${path}`, { method: 'POST', headers, body });
+  }
+
+  it('accepts a signed request without a bearer token', async () => {
+    const response = await handleRequest(
+      await signedRequest('/v1/generate?model=thinking'),
+      mockEnv,
+      signingServices(mockEnv)
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Proxy-Key-Id')).toBe('default');
+  });
+
+  it('rejects a replayed request', async () => {
+    const services = signingServices(mockEnv);
+    const request = await signedRequest('/v1/generate');
+
+    expect((await handleRequest(request.clone(), mockEnv, services)).status).toBe(200);
+    const replay = await handleRequest(request, mockEnv, services);
+
+    expect(replay.status).toBe(401);
+    const body: ModelErrorResponse = await replay.json();
+    expect(body.code).toBe('replayed_nonce');
+  });
+
+  it('rejects a request whose body was altered', async () => {
+    const signed = await signedRequest('/v1/generate');
+    const altered = new Request(signed, { body: JSON.stringify({ contents: [] }) });
+
+    const response = await handleRequest(altered, mockEnv, signingServices(mockEnv));
+
+    expect(response.status).toBe(403);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('invalid_signature');
+  });
+
+  it('rejects requests signed outside the configured skew', async () => {
+    const env = { ...mockEnv, SIGNATURE_MAX_SKEW: '60' };
+    const services = { ...signingServices(env), now: () => NOW + 61_000 };
+
+    const response = await handleRequest(await signedRequest('/v1/generate'), env, services);
+
+    expect(response.status).toBe(401);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('stale_request');
+  });
+
+  it('refuses to buffer bodies larger than any route accepts', async () => {
+    const env = { ...mockEnv, MAX_REQUEST_BYTES: '64', FILE_MAX_BYTES: '128' };
+    const body = 'x'.repeat(200);
+    const headers = await Signing.sign(
+      { method: 'POST', path: '/v1/generate', body },
+      Keys.LEGACY_KEY_ID,
+      'test-proxy-key',
+      NOW
+    );
+    const declared = new Request('https://proxy.example.com/v1/generate', {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': '200' },
+      body,
+    });
+    // Without a declared length the body is read until it passes the limit
+    const undeclared = new Request('https://proxy.example.com/v1/generate', { method: 'POST', headers, body });
+
+    for (const request of [declared, undeclared]) {
+      const response = await handleRequest(request, env, signingServices(env));
+      expect(response.status).toBe(413);
+      const error: ModelErrorResponse = await response.json();
+      expect(error.code).toBe('body_too_large');
+    }
+  });
+
+  it('rejects malformed signature headers', async () => {
+    const request = await signedRequest('/v1/generate');
+    request.headers.delete('X-Proxy-Nonce');
+
+    const response = await handleRequest(request, mockEnv, signingServices(mockEnv));
+
+    expect(response.status).toBe(401);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('malformed_signature');
+  });
+
+  it('rejects bearer tokens when signatures are required', async () => {
+    const env = { ...mockEnv, REQUIRE_SIGNATURES: '1' };
+    const bearer = new Request('https://proxy.example.com/v1/generate', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: BODY,
+    });
+
+    const rejected = await handleRequest(bearer, env, signingServices(env));
+    const accepted = await handleRequest(await signedRequest('/v1/generate'), env, signingServices(env));
+
+    expect(rejected.status).toBe(401);
+    const body: ModelErrorResponse = await rejected.json();
+    expect(body.code).toBe('signature_required');
+    expect(accepted.status).toBe(200);
+  });
+
+  it('allows the signing headers in CORS preflights', async () => {
+    const response = await handleRequest(
+      new Request('https://proxy.example.com/v1/generate', {
+        method: 'OPTIONS',
+        headers: { Origin: 'tauri://localhost' },
+      }),
+      mockEnv
+    );
+
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('X-Proxy-Signature');
+  });
+});
+
+describe('Gemini Proxy - Generation policy', () => {
+  const policyEnv = {
+    ...mockEnv,
+    GENERATION_DEFAULTS: JSON.stringify({ temperature: 0.5 }),
+    GENERATION_LIMITS: JSON.stringify({ maxOutputTokens: { max: 1024 } }),
+    SAFETY_DEFAULTS: JSON.stringify({ HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_LOW_AND_ABOVE' }),
+    SAFETY_MIN_THRESHOLD: 'BLOCK_ONLY_HIGH',
+  };
+
+  function policyRequest(body: Record<string, unknown>): Request {
+    return new Request('https://proxy.example.com/v1/generate', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-proxy-key' },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }], ...body }),
+    });
+  }
+
+  function forwarding(): { services: Index.Services; forwarded: () => unknown } {
+    let forwarded: unknown = null;
+    const services = {
+      ...createServices(policyEnv),
+      fetch: async (_url: string, init?: RequestInit) => {
+        forwarded = JSON.parse(String(init?.body));
+        return new Response(JSON.stringify({ candidates: [] }));
+      },
+    };
+    return { services, forwarded: () => forwarded };
+  }
+
+  it('merges defaults, clamps caps and reports both', async () => {
+    const { services, forwarded } = forwarding();
+
+    const response = await handleRequest(
+      policyRequest({ generationConfig: { maxOutputTokens: 60000 } }),
+      policyEnv,
+      services
+    );
+
+    expect(response.status).toBe(200);
+    expect(forwarded()).toMatchObject({
+      generationConfig: { temperature: 0.5, maxOutputTokens: 1024 },
+      safetySettings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_LOW_AND_ABOVE' }],
+    });
+    expect(response.headers.get('X-Proxy-Adjusted')).toBe(
+      'generationConfig.temperature=default, generationConfig.maxOutputTokens=clamped, ' +
+        'safetySettings.HARM_CATEGORY_DANGEROUS_CONTENT=default'
+    );
+  });
+
+  it('clamps before checking model output limits', async () => {
+    const { services } = forwarding();
+
+    const response = await handleRequest(
+      policyRequest({ generationConfig: { maxOutputTokens: 1000000 } }),
+      policyEnv,
+      services
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it('omits the header when nothing changed', async () => {
+    const { services, forwarded } = forwarding();
+    const body = {
+      generationConfig: { temperature: 1, maxOutputTokens: 512 },
+      safetySettings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' }],
+    };
+
+    const response = await handleRequest(policyRequest(body), policyEnv, services);
+
+    expect(response.headers.get('X-Proxy-Adjusted')).toBeNull();
+    expect(forwarded()).toMatchObject(body);
+  });
+
+  it('rejects thresholds below the allowed range', async () => {
+    const { services, forwarded } = forwarding();
+
+    const response = await handleRequest(
+      policyRequest({ safetySettings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' }] }),
+      policyEnv,
+      services
+    );
+
+    expect(response.status).toBe(400);
+    const body: ModelErrorResponse = await response.json();
+    expect(body.code).toBe('safety_threshold_not_allowed');
+    expect(forwarded()).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as Keys from '../keys';
+import * as Signing from '../signing';
+import * as Store from '../store';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+let table: Keys.Table;
+
+beforeAll(async () => {
+  table = Keys.fromJson(
+    JSON.stringify({
+      'lab-a': {
+        secretHash: await Keys.sha256Hex('secret-a'),
+        signingKey: await Signing.signingKey('secret-a'),
+        models: ['gemini-2.5-flash'],
+        grounding: false,
+      },
+      'lab-b': {
+        secretHash: await Keys.sha256Hex('secret-b'),
+        signingKey: await Signing.signingKey('secret-b'),
+        expiresAt: '2024-12-31T00:00:00Z',
+      },
+      'lab-c': { secretHash: await Keys.sha256Hex('secret-c') },
+      broken: { models: [] },
+    })
+  );
+});
+
+describe('Keys.fromJson', () => {
+  it('loads records with scopes', async () => {
+    const record = await table.lookup('lab-a');
+
+    expect(record).toMatchObject({ id: 'lab-a', models: ['gemini-2.5-flash'], grounding: 'deny', expiresAt: null });
+  });
+
+  it('defaults to all models and grounding allowed', async () => {
+    const record = await table.lookup('lab-b');
+
+    expect(record).toMatchObject({ models: null, grounding: 'allow', expiresAt: Date.UTC(2024, 11, 31) });
+  });
+
+  it('reads grounding policies, denying unrecognized values', async () => {
+    const secretHash = await Keys.sha256Hex('s');
+    const policies = Keys.fromJson(
+      JSON.stringify({
+        forced: { secretHash, grounding: 'force' },
+        allowed: { secretHash, grounding: true },
+        odd: { secretHash, grounding: 'sometimes' },
+      })
+    );
+
+    expect((await policies.lookup('forced'))?.grounding).toBe('force');
+    expect((await policies.lookup('allowed'))?.grounding).toBe('allow');
+    expect((await policies.lookup('odd'))?.grounding).toBe('deny');
+  });
+
+  it('skips malformed entries', async () => {
+    expect(await table.lookup('broken')).toBe(null);
+  });
+
+  it('returns an empty table for missing or invalid JSON', async () => {
+    expect(await Keys.fromJson(undefined).lookup('lab-a')).toBe(null);
+    expect(await Keys.fromJson('{not json').lookup('lab-a')).toBe(null);
+  });
+});
+
+describe('Keys.parseBearer', () => {
+  it('extracts well-formed Bearer tokens', () => {
+    expect(Keys.parseBearer('Bearer lab-a.secret')).toBe('lab-a.secret');
+  });
+
+  it('rejects other schemes and stray whitespace', () => {
+    expect(Keys.parseBearer('Basic dXNlcjpwYXNz')).toBe(null);
+    expect(Keys.parseBearer('bearer lab-a.secret')).toBe(null);
+    expect(Keys.parseBearer('Bearer  lab-a.secret')).toBe(null);
+    expect(Keys.parseBearer('Bearer lab-a.secret ')).toBe(null);
+    expect(Keys.parseBearer(' Bearer lab-a.secret')).toBe(null);
+    expect(Keys.parseBearer('Bearer lab-a secret')).toBe(null);
+    expect(Keys.parseBearer('Bearer ')).toBe(null);
+    expect(Keys.parseBearer('lab-a.secret')).toBe(null);
+  });
+});
+
+describe('Keys.constantTimeEqual', () => {
+  it('compares strings', () => {
+    expect(Keys.constantTimeEqual('abc', 'abc')).toBe(true);
+    expect(Keys.constantTimeEqual('abc', 'abd')).toBe(false);
+    expect(Keys.constantTimeEqual('abc', 'abcd')).toBe(false);
+    expect(Keys.constantTimeEqual('abc', '')).toBe(false);
+  });
+});
+
+describe('Keys.authenticate', () => {
+  it('requires a header', async () => {
+    const result = await Keys.authenticate(null, table, undefined, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 401, code: 'missing_key' });
+  });
+
+  it('rejects malformed headers', async () => {
+    const result = await Keys.authenticate('Token lab-a.secret-a', table, undefined, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 401, code: 'malformed_key' });
+  });
+
+  it('accepts a named key with the right secret', async () => {
+    const result = await Keys.authenticate('Bearer lab-a.secret-a', table, undefined, NOW);
+
+    expect(result.ok && result.key.id).toBe('lab-a');
+  });
+
+  it('rejects a named key with the wrong secret', async () => {
+    const result = await Keys.authenticate('Bearer lab-a.secret-b', table, undefined, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 403, code: 'invalid_key' });
+  });
+
+  it('rejects unknown key IDs', async () => {
+    const result = await Keys.authenticate('Bearer lab-z.secret-a', table, undefined, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 403, code: 'invalid_key' });
+  });
+
+  it('rejects expired keys', async () => {
+    const result = await Keys.authenticate('Bearer lab-b.secret-b', table, undefined, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 403, code: 'expired_key' });
+  });
+
+  it('accepts the legacy shared key as the default key', async () => {
+    const result = await Keys.authenticate('Bearer shared-secret', table, 'shared-secret', NOW);
+
+    expect(result.ok && result.key).toMatchObject({ id: Keys.LEGACY_KEY_ID, models: null, grounding: 'allow' });
+  });
+});
+
+describe('Keys.authenticateSigned', () => {
+  const request = { method: 'POST', path: '/v1/generate', body: '{"contents":[]}' };
+
+  async function signedAs(keyId: string, secret: string, at = NOW): Promise<Signing.Signed> {
+    const result = Signing.fromHeaders(new Headers(await Signing.sign(request, keyId, secret, at)));
+    if (result === null || result === 'malformed') throw new Error('signature headers missing');
+    return result;
+  }
+
+  function check(signed: Signing.Signed, nonces = Store.memoryStore(() => NOW)): Promise<Keys.AuthResult> {
+    return Keys.authenticateSigned(signed, request, table, 'shared-secret', nonces, NOW, 300);
+  }
+
+  it('accepts a named key signing with its secret', async () => {
+    const result = await check(await signedAs('lab-a', 'secret-a'));
+
+    expect(result.ok && result.key.id).toBe('lab-a');
+  });
+
+  it('accepts the legacy shared key as the default key', async () => {
+    const result = await check(await signedAs(Keys.LEGACY_KEY_ID, 'shared-secret'));
+
+    expect(result.ok && result.key.id).toBe(Keys.LEGACY_KEY_ID);
+  });
+
+  it('rejects signatures from the wrong secret or unknown keys', async () => {
+    expect(await check(await signedAs('lab-a', 'secret-b'))).toMatchObject({ status: 403, code: 'invalid_signature' });
+    expect(await check(await signedAs('lab-z', 'secret-a'))).toMatchObject({ status: 403, code: 'invalid_signature' });
+  });
+
+  it('rejects keys without a signing key', async () => {
+    expect(await check(await signedAs('lab-c', 'secret-c'))).toMatchObject({ status: 403, code: 'invalid_signature' });
+  });
+
+  it('rejects signatures made from the stored secret hash', async () => {
+    const forged = await signedAs('lab-a', await Keys.sha256Hex('secret-a'));
+
+    expect(await check(forged)).toMatchObject({ status: 403, code: 'invalid_signature' });
+  });
+
+  it('rejects expired keys', async () => {
+    expect(await check(await signedAs('lab-b', 'secret-b'))).toMatchObject({ status: 403, code: 'expired_key' });
+  });
+
+  it('rejects timestamps outside the skew window either way', async () => {
+    const early = await check(await signedAs('lab-a', 'secret-a', NOW - 301_000));
+    const late = await check(await signedAs('lab-a', 'secret-a', NOW + 301_000));
+
+    expect(early).toMatchObject({ status: 401, code: 'stale_request' });
+    expect(late).toMatchObject({ status: 401, code: 'stale_request' });
+    expect((await check(await signedAs('lab-a', 'secret-a', NOW - 299_000))).ok).toBe(true);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const nonces = Store.memoryStore(() => NOW);
+    const signed = await signedAs('lab-a', 'secret-a');
+
+    expect((await check(signed, nonces)).ok).toBe(true);
+    expect(await check(signed, nonces)).toMatchObject({ status: 401, code: 'replayed_nonce' });
+  });
+
+  it('does not record nonces of rejected requests', async () => {
+    const nonces = Store.memoryStore(() => NOW);
+    const signed = await signedAs('lab-a', 'secret-a');
+
+    await check({ ...signed, signature: '0'.repeat(64) }, nonces);
+
+    expect((await check(signed, nonces)).ok).toBe(true);
+  });
+});
+
+describe('Keys.allowsModel', () => {
+  it('checks the model allow-list', async () => {
+    const record = await table.lookup('lab-a');
+    if (!record) throw new Error('lab-a missing');
+
+    expect(Keys.allowsModel(record, 'gemini-2.5-flash')).toBe(true);
+    expect(Keys.allowsModel(record, 'gemini-2.5-pro')).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Log from '../log';
+
+const body = {
+  systemInstruction: { parts: [{ text: 'Be brief.' }] },
+  contents: [{ role: 'user', parts: [{ text: 'Hi' }, { inlineData: { mimeType: 'image/png', data: 'QUJD' } }] }],
+  generationConfig: { temperature: 0 },
+};
+
+describe('Log.configure', () => {
+  it('defaults to not logging prompts', () => {
+    expect(Log.configure(undefined)).toBe('off');
+    expect(Log.configure('everything')).toBe('off');
+    expect(Log.configure('text')).toBe('text');
+  });
+});
+
+describe('Log.prompt', () => {
+  it('omits prompts by default', () => {
+    expect(Log.prompt(body, 'off')).toBe(undefined);
+  });
+
+  it('replaces inline data with its size in text mode', () => {
+    expect(Log.prompt(body, 'text')).toEqual({
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }, { inlineData: { mimeType: 'image/png', data: '[3 bytes]' } }] },
+      ],
+    });
+  });
+
+  it('logs the whole body in full mode', () => {
+    expect(Log.prompt(body, 'full')).toBe(body);
+  });
+});
+
+describe('Log.record', () => {
+  const request = { requestId: 'req-1', method: 'POST', path: '/v1/generate' };
+
+  it('fills unknown fields with defaults', () => {
+    expect(Log.record(request, 200, 1000, 1250, {})).toEqual({
+      timestamp: '1970-01-01T00:00:01.250Z',
+      level: 'info',
+      requestId: 'req-1',
+      method: 'POST',
+      path: '/v1/generate',
+      status: 200,
+      latencyMs: 250,
+      keyId: null,
+      model: null,
+      provider: null,
+      stream: false,
+      grounding: false,
+      cache: null,
+      attempts: null,
+      upstreamStatus: null,
+      usage: null,
+      errorCode: null,
+    });
+  });
+
+  it('grades the level by status', () => {
+    expect(Log.record(request, 429, 0, 0, {}).level).toBe('warn');
+    expect(Log.record(request, 502, 0, 0, {}).level).toBe('error');
+  });
+});
@@ -0,0 +1,150 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Mock from '../mock';
+
+function body(text: string): Record<string, unknown> {
+  return {
+    contents: [
+      { role: 'user', parts: [{ text: 'Earlier question' }] },
+      { role: 'model', parts: [{ text: 'Earlier answer' }] },
+      { role: 'user', parts: [{ text }] },
+    ],
+  };
+}
+
+describe('Mock.isEnabled', () => {
+  it('accepts 1 and true only', () => {
+    expect(Mock.isEnabled('1')).toBe(true);
+    expect(Mock.isEnabled('true')).toBe(true);
+    expect(Mock.isEnabled('0')).toBe(false);
+    expect(Mock.isEnabled(undefined)).toBe(false);
+  });
+});
+
+describe('Mock.parseFixtures', () => {
+  it('reads fixtures in order, defaulting the status', () => {
+    expect(
+      Mock.parseFixtures(JSON.stringify({ cells: { body: { candidates: [] } }, quota: { status: 429, body: {} } }))
+    ).toEqual([
+      { keyword: 'cells', status: 200, body: { candidates: [] } },
+      { keyword: 'quota', status: 429, body: {} },
+    ]);
+  });
+
+  it('skips malformed entries', () => {
+    expect(Mock.parseFixtures(JSON.stringify({ a: { status: 200 }, b: 'text' }))).toEqual([]);
+    expect(Mock.parseFixtures('not json')).toEqual([]);
+  });
+});
+
+describe('Mock.promptText', () => {
+  it('reads the last user message', () => {
+    expect(Mock.promptText(body('  Latest  '))).toBe('Latest');
+    expect(Mock.promptText({})).toBe('');
+  });
+});
+
+describe('Mock.scenario', () => {
+  it('reads the scenario keyword', () => {
+    expect(Mock.scenario('Show mock:image please')).toEqual({ scenario: 'image', status: 200 });
+    expect(Mock.scenario('mock:error:429')).toEqual({ scenario: 'error', status: 429 });
+    expect(Mock.scenario('mock:error')).toEqual({ scenario: 'error', status: 500 });
+    expect(Mock.scenario('plain question')).toEqual({ scenario: 'text', status: 200 });
+  });
+});
+
+describe('Mock.respond', () => {
+  it('echoes the prompt by default, with usage', () => {
+    expect(Mock.respond(body('Hello'), 'gemini-2.5-flash', [], false)).toEqual({
+      status: 200,
+      events: [
+        {
+          candidates: [
+            {
+              content: { role: 'model', parts: [{ text: 'Mock response to: Hello' }] },
+              index: 0,
+              finishReason: 'STOP',
+            },
+          ],
+          usageMetadata: { promptTokenCount: 2, candidatesTokenCount: 6, totalTokenCount: 8 },
+          modelVersion: 'gemini-2.5-flash',
+        },
+      ],
+    });
+  });
+
+  it('is deterministic', () => {
+    const first = Mock.respond(body('mock:grounding'), 'gemini-2.5-pro', [], true);
+
+    expect(Mock.respond(body('mock:grounding'), 'gemini-2.5-pro', [], true)).toEqual(first);
+  });
+
+  it('streams thoughts before the answer in chunks', () => {
+    const reply = Mock.respond(body('mock:thinking'), 'gemini-2.5-pro', [], true);
+    const parts = reply.events.map(event => JSON.stringify(event));
+
+    expect(reply.events.length).toBeGreaterThan(2);
+    expect(parts[0]).toContain('"thought":true');
+    expect(parts.at(-1)).toContain('"finishReason":"STOP"');
+    expect(parts.at(-1)).toContain('thoughtsTokenCount');
+  });
+
+  it('prefers fixtures over scenarios', () => {
+    const fixtures = [{ keyword: 'CELLS', status: 200, body: { candidates: [] } }];
+
+    expect(Mock.respond(body('mock:blocked about cells'), 'gemini-2.5-flash', fixtures, false)).toEqual({
+      status: 200,
+      events: [{ candidates: [] }],
+    });
+  });
+
+  it('answers blocked prompts and errors in Gemini shapes', () => {
+    expect(Mock.respond(body('mock:blocked'), 'gemini-2.5-flash', [], false).events[0]).toMatchObject({
+      promptFeedback: { blockReason: 'SAFETY' },
+    });
+    expect(Mock.respond(body('mock:error:503'), 'gemini-2.5-flash', [], false)).toEqual({
+      status: 503,
+      events: [{ error: { code: 503, message: 'Mock error 503', status: 'UNAVAILABLE' } }],
+    });
+  });
+});
+
+describe('Mock.upstream', () => {
+  const upstream = Mock.upstream([]);
+  const url = (action: string): string =>
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:${action}?key=k`;
+
+  it('serves generateContent and streamGenerateContent', async () => {
+    const whole = await upstream(url('generateContent'), { method: 'POST', body: JSON.stringify(body('mock:image')) });
+    const wholeBody: { candidates: Array<{ content: { parts: unknown[] } }> } = await whole.json();
+    expect(wholeBody.candidates[0]?.content.parts[1]).toEqual({
+      inlineData: { mimeType: 'image/png', data: Mock.IMAGE_DATA },
+    });
+
+    const stream = await upstream(url('streamGenerateContent'), { method: 'POST', body: JSON.stringify(body('Hi')) });
+    expect(stream.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await stream.text()).toMatch(/^data: \{.*\}\r\n\r\n$/s);
+  });
+
+  it('counts tokens and lists models', async () => {
+    const count = await upstream(url('countTokens'), {
+      method: 'POST',
+      body: JSON.stringify({ generateContentRequest: body('Hi') }),
+    });
+    const counted: { totalTokens: number } = await count.json();
+    expect(counted.totalTokens).toBeGreaterThan(0);
+
+    const list = await upstream('https://generativelanguage.googleapis.com/v1beta/models?key=k');
+    const listed: { models: Array<{ name: string }> } = await list.json();
+    expect(listed.models.map(model => model.name)).toContain('models/gemini-2.5-flash');
+  });
+
+  it('fails calls it does not model', async () => {
+    const response = await upstream('https://generativelanguage.googleapis.com/v1beta/files?key=k');
+
+    expect(response.status).toBe(501);
+  });
+});
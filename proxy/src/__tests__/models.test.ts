@@ -0,0 +1,75 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Models from '../models';
+
+describe('Models.resolve', () => {
+  it('falls back to the default model when no name is given', () => {
+    const resolution = Models.resolve(null);
+
+    expect(resolution.ok && resolution.model.id).toBe(Models.DEFAULT_MODEL);
+    expect(Models.resolve('').ok).toBe(true);
+  });
+
+  it('resolves full model IDs', () => {
+    const resolution = Models.resolve('gemini-2.5-pro');
+
+    expect(resolution.ok && resolution.model.id).toBe('gemini-2.5-pro');
+  });
+
+  it('resolves app aliases to model IDs', () => {
+    const ids = (['fast', 'thinking', 'creative'] as const).map(alias => {
+      const resolution = Models.resolve(alias);
+      return resolution.ok ? resolution.model.id : null;
+    });
+
+    expect(ids).toEqual(['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-image']);
+  });
+
+  it('rejects malformed names', () => {
+    for (const name of ['../files', 'gemini-2.5-flash:generateContent', 'gemini?key=x', 'Gemini-2.5-Flash', ' fast']) {
+      const resolution = Models.resolve(name);
+
+      expect(resolution.ok).toBe(false);
+      expect(!resolution.ok && resolution.error.code).toBe('invalid_model');
+    }
+  });
+
+  it('rejects unknown but well-formed names with the allowed list', () => {
+    const resolution = Models.resolve('gemini-1.0-ultra');
+
+    expect(resolution.ok).toBe(false);
+    if (!resolution.ok) {
+      expect(resolution.error.code).toBe('unknown_model');
+      expect(resolution.error['allowed']).toContain('fast');
+      expect(resolution.error['allowed']).toContain('gemini-2.5-flash');
+    }
+  });
+
+  it('does not resolve inherited object properties', () => {
+    expect(Models.resolve('constructor').ok).toBe(false);
+  });
+});
+
+describe('Models.checkLimits', () => {
+  const flashImage = Models.MODELS['gemini-2.5-flash-image'];
+
+  it('accepts bodies without generation config', () => {
+    expect(Models.checkLimits(flashImage, { contents: [] })).toBe(null);
+    expect(Models.checkLimits(flashImage, undefined)).toBe(null);
+  });
+
+  it('accepts maxOutputTokens within the model limit', () => {
+    const body = { generationConfig: { maxOutputTokens: flashImage.maxOutputTokens } };
+
+    expect(Models.checkLimits(flashImage, body)).toBe(null);
+  });
+
+  it('rejects maxOutputTokens above the model limit', () => {
+    const body = { generationConfig: { maxOutputTokens: flashImage.maxOutputTokens + 1 } };
+
+    expect(Models.checkLimits(flashImage, body)?.code).toBe('output_tokens_exceeded');
+  });
+});
@@ -0,0 +1,185 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as OpenAi from '../openai';
+import * as Usage from '../usage';
+
+const config = OpenAi.configure({
+  baseUrl: 'http://localhost:11434/v1/',
+  models: JSON.stringify({ 'gemini-2.5-flash': 'llama3.1:8b', 'gemini-9': 'other' }),
+});
+
+const geminiRequest = {
+  systemInstruction: { parts: [{ text: 'You are a lab assistant.' }] },
+  contents: [
+    { role: 'user', parts: [{ text: 'What is ' }, { text: 'this?' }] },
+    { role: 'model', parts: [{ text: 'Let me think', thought: true }, { text: 'A cell.' }] },
+    { role: 'user', parts: [{ text: 'Zoom in' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }] },
+  ],
+  tools: [{ googleSearch: {} }],
+  generationConfig: { temperature: 0.2, topP: 0.9, maxOutputTokens: 256, stopSequences: ['END'], seed: 7 },
+};
+
+describe('OpenAi.configure', () => {
+  it('reads the base URL, key and model map', () => {
+    expect(config).toEqual({
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: null,
+      models: { 'gemini-2.5-flash': 'llama3.1:8b' },
+    });
+  });
+
+  it('defaults to the OpenAI API', () => {
+    expect(OpenAi.configure({}).baseUrl).toBe(OpenAi.DEFAULT_BASE_URL);
+  });
+});
+
+describe('OpenAi.toChatRequest', () => {
+  it('translates messages and generation settings', () => {
+    expect(OpenAi.toChatRequest('llama3.1:8b', geminiRequest, false)).toEqual({
+      model: 'llama3.1:8b',
+      messages: [
+        { role: 'system', content: 'You are a lab assistant.' },
+        { role: 'user', content: 'What is this?' },
+        { role: 'assistant', content: 'A cell.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Zoom in' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } },
+          ],
+        },
+      ],
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 256,
+      stop: ['END'],
+      seed: 7,
+    });
+  });
+
+  it('requests usage with streamed responses', () => {
+    expect(OpenAi.toChatRequest('m', { contents: [] }, true)).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it('asks for JSON output when Gemini would', () => {
+    const body = { contents: [], generationConfig: { responseMimeType: 'application/json' } };
+
+    expect(OpenAi.toChatRequest('m', body, false)['response_format']).toEqual({ type: 'json_object' });
+  });
+});
+
+describe('OpenAi.unsupported', () => {
+  const part = (mimeType: string, fileUri: string) => ({ fileData: { mimeType, fileUri } });
+
+  it('accepts image URLs', () => {
+    const body = { contents: [{ role: 'user', parts: [part('image/jpeg', 'https://example.com/cell.jpg')] }] };
+
+    expect(OpenAi.unsupported(body)).toEqual([]);
+  });
+
+  it('rejects other documents and Files API uploads', () => {
+    const body = {
+      systemInstruction: { parts: [part('application/pdf', 'https://example.com/protocol.pdf')] },
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'Compare' },
+            part('image/png', 'https://generativelanguage.googleapis.com/v1beta/files/abc-123'),
+            part('image/png', 'gs://bucket/cell.png'),
+          ],
+        },
+      ],
+    };
+
+    expect(OpenAi.unsupported(body).map(error => error.path)).toEqual([
+      'systemInstruction.parts[0].fileData',
+      'contents[0].parts[1].fileData',
+      'contents[0].parts[2].fileData',
+    ]);
+  });
+});
+
+describe('OpenAi.fromChatResponse', () => {
+  it('translates choices, finish reasons and usage', () => {
+    const response = {
+      model: 'llama3.1:8b',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'A cell.' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    };
+
+    const gemini = OpenAi.fromChatResponse(response);
+
+    expect(gemini).toEqual({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'A cell.' }] }, index: 0, finishReason: 'MAX_TOKENS' }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3, totalTokenCount: 15 },
+      modelVersion: 'llama3.1:8b',
+    });
+    expect(Usage.fromResponse(gemini)).toEqual({ promptTokens: 12, candidatesTokens: 3, totalTokens: 15 });
+  });
+
+  it('maps unknown finish reasons to OTHER', () => {
+    const response = { choices: [{ message: { content: '' }, finish_reason: 'tool_calls' }] };
+
+    expect(OpenAi.fromChatResponse(response)).toMatchObject({ candidates: [{ finishReason: 'OTHER' }] });
+  });
+});
+
+describe('OpenAi.provider', () => {
+  const provider = OpenAi.provider({ ...config, apiKey: 'sk-test' });
+
+  it('only serves mapped models', () => {
+    expect(provider.supports('gemini-2.5-flash')).toBe(true);
+    expect(provider.supports('gemini-2.5-pro')).toBe(false);
+  });
+
+  it('round-trips a request through a chat completions server', () => {
+    const upstream = provider.request('gemini-2.5-flash', geminiRequest, false);
+    expect(upstream.url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(upstream.headers['Authorization']).toBe('Bearer sk-test');
+
+    // Echo the last user message back the way a chat completions server would
+    const chat: { model: string; messages: Array<{ content: unknown }> } = JSON.parse(upstream.body);
+    const reply = { model: chat.model, choices: [{ message: { content: 'Echo' }, finish_reason: 'stop' }] };
+
+    expect(provider.response(reply)).toEqual({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Echo' }] }, index: 0, finishReason: 'STOP' }],
+      modelVersion: 'llama3.1:8b',
+    });
+    expect(chat.messages).toHaveLength(4);
+  });
+
+  it('translates streamed chunks into Gemini SSE', async () => {
+    const chunks = [
+      'data: {"choices":[{"index":0,"delta":{"role":"assistant","content":"A "}}]}\n\n',
+      'data: {"choices":[{"index":0,"delta":{"content":"cell."},"finish_reason":"stop"}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\ndata: [DONE]\n\n',
+    ];
+    const upstream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        }
+        controller.close();
+      },
+    });
+
+    const output = await new Response(provider.stream(upstream)).text();
+    const events = output
+      .split('\r\n\r\n')
+      .filter(event => event !== '')
+      .map(event => JSON.parse(event.slice('data: '.length)));
+
+    expect(events).toEqual([
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'A ' }] }, index: 0 }] },
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'cell.' }] }, index: 0, finishReason: 'STOP' }] },
+      { candidates: [], usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, totalTokenCount: 7 } },
+    ]);
+  });
+});
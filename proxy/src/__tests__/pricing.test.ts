@@ -0,0 +1,46 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Pricing from '../pricing';
+
+describe('Pricing.configure', () => {
+  it('uses the default table without overrides', () => {
+    expect(Pricing.configure(undefined)).toEqual(Pricing.DEFAULT_PRICES);
+    expect(Pricing.configure('not json')).toEqual(Pricing.DEFAULT_PRICES);
+  });
+
+  it('overrides listed prices and keeps the rest', () => {
+    const prices = Pricing.configure(
+      JSON.stringify({
+        'gemini-2.5-pro': { inputPerMillion: 2.5 },
+        'gemini-2.5-flash': { inputPerMillion: -1, outputPerMillion: '3' },
+        'gpt-4': { inputPerMillion: 1, outputPerMillion: 1 },
+      })
+    );
+
+    expect(prices['gemini-2.5-pro']).toEqual({ inputPerMillion: 2.5, outputPerMillion: 10 });
+    expect(prices['gemini-2.5-flash']).toEqual(Pricing.DEFAULT_PRICES['gemini-2.5-flash']);
+    expect(Object.keys(prices)).toEqual(Object.keys(Pricing.DEFAULT_PRICES));
+  });
+});
+
+describe('Pricing.estimate', () => {
+  const price = { inputPerMillion: 1.25, outputPerMillion: 10 };
+
+  it('prices input tokens and the output limit', () => {
+    expect(Pricing.estimate(price, 200_000, 8192)).toEqual({ currency: 'USD', input: 0.25, maxOutput: 0.0819 });
+  });
+
+  it('leaves the output estimate empty without a limit', () => {
+    expect(Pricing.estimate(price, 12, null)).toEqual({ currency: 'USD', input: 0, maxOutput: null });
+  });
+});
+
+describe('Pricing.maxOutputTokens', () => {
+  it('reads the request output limit', () => {
+    expect(Pricing.maxOutputTokens({ generationConfig: { maxOutputTokens: 512 } })).toBe(512);
+    expect(Pricing.maxOutputTokens({ contents: [] })).toBe(null);
+  });
+});
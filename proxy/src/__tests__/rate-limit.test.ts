@@ -0,0 +1,150 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as RateLimit from '../rate-limit';
+import * as Store from '../store';
+
+// 2025-01-01T12:00:00Z
+const NOON = Date.UTC(2025, 0, 1, 12);
+
+const limits: RateLimit.Limits = {
+  requestsPerMinute: 2,
+  requestsPerDay: 5,
+  tokensPerDay: 1000,
+};
+
+describe('RateLimit.configure', () => {
+  it('uses defaults for missing values', () => {
+    expect(RateLimit.configure({})).toEqual(RateLimit.DEFAULT_LIMITS);
+  });
+
+  it('parses positive integers', () => {
+    const configured = RateLimit.configure({ requestsPerMinute: '10', requestsPerDay: '100', tokensPerDay: '5000' });
+
+    expect(configured).toEqual({ requestsPerMinute: 10, requestsPerDay: 100, tokensPerDay: 5000 });
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    const configured = RateLimit.configure({ requestsPerMinute: 'lots', requestsPerDay: '0', tokensPerDay: '-1' });
+
+    expect(configured).toEqual(RateLimit.DEFAULT_LIMITS);
+  });
+});
+
+describe('RateLimit.consume', () => {
+  it('allows requests while the bucket has tokens', async () => {
+    const store = Store.memoryStore(() => NOON);
+
+    const first = await RateLimit.consume(store, limits, 'lab', NOON);
+    const second = await RateLimit.consume(store, limits, 'lab', NOON);
+
+    expect(first).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+    expect(second).toMatchObject({ allowed: true, limit: 2, remaining: 0 });
+  });
+
+  it('denies requests once the bucket is empty', async () => {
+    const store = Store.memoryStore(() => NOON);
+    await RateLimit.consume(store, limits, 'lab', NOON);
+    await RateLimit.consume(store, limits, 'lab', NOON);
+
+    const decision = await RateLimit.consume(store, limits, 'lab', NOON);
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'rate_limited', remaining: 0 });
+    expect(decision.resetSeconds).toBe(30);
+  });
+
+  it('refills the bucket over time', async () => {
+    let now = NOON;
+    const store = Store.memoryStore(() => now);
+    await RateLimit.consume(store, limits, 'lab', now);
+    await RateLimit.consume(store, limits, 'lab', now);
+
+    now += 30_000;
+    const decision = await RateLimit.consume(store, limits, 'lab', now);
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('tracks keys independently', async () => {
+    const store = Store.memoryStore(() => NOON);
+    await RateLimit.consume(store, limits, 'lab-a', NOON);
+    await RateLimit.consume(store, limits, 'lab-a', NOON);
+
+    const decision = await RateLimit.consume(store, limits, 'lab-b', NOON);
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('denies requests over the daily request quota until midnight', async () => {
+    let now = NOON;
+    const store = Store.memoryStore(() => now);
+    for (let i = 0; i < limits.requestsPerDay; i++) {
+      now += 60_000;
+      await RateLimit.consume(store, limits, 'lab', now);
+    }
+
+    now += 60_000;
+    const decision = await RateLimit.consume(store, limits, 'lab', now);
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'daily_request_quota', limit: 5 });
+    expect(decision.resetSeconds).toBe((Date.UTC(2025, 0, 2) - now) / 1000);
+  });
+
+  it('denies requests over the daily token quota', async () => {
+    const store = Store.memoryStore(() => NOON);
+    await RateLimit.recordTokens(store, 'lab', 1000, NOON);
+
+    const decision = await RateLimit.consume(store, limits, 'lab', NOON);
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'daily_token_quota', limit: 1000 });
+  });
+
+  it('resets daily quotas on the next UTC day', async () => {
+    let now = NOON;
+    const store = Store.memoryStore(() => now);
+    await RateLimit.recordTokens(store, 'lab', 1000, now);
+
+    now = Date.UTC(2025, 0, 2, 0, 0, 1);
+    const decision = await RateLimit.consume(store, limits, 'lab', now);
+
+    expect(decision.allowed).toBe(true);
+  });
+});
+
+describe('RateLimit.recordTokens', () => {
+  it('accumulates tokens without counting extra requests', async () => {
+    const store = Store.memoryStore(() => NOON);
+    await RateLimit.recordTokens(store, 'lab', 400, NOON);
+    await RateLimit.recordTokens(store, 'lab', 599, NOON);
+
+    const decision = await RateLimit.consume(store, limits, 'lab', NOON);
+
+    expect(decision.allowed).toBe(true);
+  });
+});
+
+describe('RateLimit.headers', () => {
+  it('reports limit, remaining and reset', () => {
+    const headers = RateLimit.headers({ allowed: true, reason: null, limit: 60, remaining: 59, resetSeconds: 1 });
+
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '59',
+      'X-RateLimit-Reset': '1',
+    });
+  });
+
+  it('adds Retry-After when denied', () => {
+    const headers = RateLimit.headers({
+      allowed: false,
+      reason: 'rate_limited',
+      limit: 60,
+      remaining: 0,
+      resetSeconds: 12,
+    });
+
+    expect(headers['Retry-After']).toBe('12');
+  });
+});
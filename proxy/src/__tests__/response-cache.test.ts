@@ -0,0 +1,73 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as ResponseCache from '../response-cache';
+import * as Store from '../store';
+
+const deterministic = {
+  contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+  generationConfig: { temperature: 0 },
+};
+
+describe('ResponseCache.isCacheable', () => {
+  it('accepts requests with zero temperature', () => {
+    expect(ResponseCache.isCacheable(deterministic)).toBe(true);
+  });
+
+  it('rejects sampled or grounded requests', () => {
+    expect(ResponseCache.isCacheable({ contents: [] })).toBe(false);
+    expect(ResponseCache.isCacheable({ contents: [], generationConfig: { temperature: 0.2 } })).toBe(false);
+    expect(ResponseCache.isCacheable({ ...deterministic, tools: [{ googleSearch: {} }] })).toBe(false);
+  });
+});
+
+describe('ResponseCache.bypassed', () => {
+  it('detects no-store among other directives', () => {
+    expect(ResponseCache.bypassed('no-store')).toBe(true);
+    expect(ResponseCache.bypassed('max-age=0, No-Store')).toBe(true);
+    expect(ResponseCache.bypassed('no-cache')).toBe(false);
+    expect(ResponseCache.bypassed(null)).toBe(false);
+  });
+});
+
+describe('ResponseCache.canonicalJson', () => {
+  it('sorts object keys at every depth', () => {
+    expect(ResponseCache.canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}'
+    );
+  });
+});
+
+describe('ResponseCache.key', () => {
+  it('ignores key order but not provider, model, client key or content', async () => {
+    const reordered = { generationConfig: { temperature: 0 }, contents: deterministic.contents };
+    const key = await ResponseCache.key('gemini', 'gemini-2.5-flash', 'lab-a', deterministic);
+
+    expect(await ResponseCache.key('gemini', 'gemini-2.5-flash', 'lab-a', reordered)).toBe(key);
+    expect(await ResponseCache.key('openai', 'gemini-2.5-flash', 'lab-a', deterministic)).not.toBe(key);
+    expect(await ResponseCache.key('gemini', 'gemini-2.5-pro', 'lab-a', deterministic)).not.toBe(key);
+    expect(await ResponseCache.key('gemini', 'gemini-2.5-flash', 'lab-b', deterministic)).not.toBe(key);
+    expect(await ResponseCache.key('gemini', 'gemini-2.5-flash', 'lab-a', { ...deterministic, contents: [] })).not.toBe(
+      key
+    );
+  });
+});
+
+describe('ResponseCache.lookup', () => {
+  it('returns saved entries', async () => {
+    const store = Store.memoryStore();
+    await ResponseCache.save(store, 'k', { model: 'gemini-2.5-flash', body: '{}' }, 60);
+
+    expect(await ResponseCache.lookup(store, 'k')).toEqual({ model: 'gemini-2.5-flash', body: '{}' });
+  });
+
+  it('ignores missing and malformed entries', async () => {
+    const store = Store.memoryStore();
+    await store.put('bad', { model: 'gemini-9', body: '{}' }, 60);
+
+    expect(await ResponseCache.lookup(store, 'missing')).toBe(null);
+    expect(await ResponseCache.lookup(store, 'bad')).toBe(null);
+  });
+});
@@ -0,0 +1,175 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Models from '../models';
+import * as Retry from '../retry';
+
+const policy: Retry.Policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, budgetMs: 10_000 };
+
+// Clock that advances only when slept on
+function fakeClock(): Retry.Clock & { sleeps: number[] } {
+  let time = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async ms => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    random: () => 1,
+  };
+}
+
+// Upstream that answers each call with the next scripted status, or throws for `null`
+function scripted(statuses: Array<number | null>, calls: Models.ModelId[] = []) {
+  return async (model: Models.ModelId): Promise<Response> => {
+    calls.push(model);
+    const status = statuses.shift();
+    if (status === null) {
+      throw new Error('connection reset');
+    }
+    return new Response('', { status: status ?? 200 });
+  };
+}
+
+describe('Retry.configure', () => {
+  it('reads the policy from environment strings', () => {
+    expect(Retry.configure({ maxAttempts: '4', budgetMs: 'soon' })).toEqual({
+      ...Retry.DEFAULT_POLICY,
+      maxAttempts: 4,
+    });
+  });
+});
+
+describe('Retry.parseFallbacks', () => {
+  it('keeps entries between known models', () => {
+    const text = JSON.stringify({
+      'gemini-2.5-pro': 'gemini-2.5-flash',
+      'gemini-2.5-flash': 'gemini-9',
+      'gemini-2.5-flash-image': 'gemini-2.5-flash-image',
+      toString: 'gemini-2.5-flash',
+    });
+
+    expect(Retry.parseFallbacks(text)).toEqual({ 'gemini-2.5-pro': 'gemini-2.5-flash' });
+  });
+
+  it('ignores missing or malformed configuration', () => {
+    expect(Retry.parseFallbacks(undefined)).toEqual({});
+    expect(Retry.parseFallbacks('not json')).toEqual({});
+    expect(Retry.parseFallbacks('["gemini-2.5-pro"]')).toEqual({});
+  });
+});
+
+describe('Retry.backoff', () => {
+  it('grows exponentially up to the cap', () => {
+    expect([0, 1, 2, 3, 4, 5].map(retry => Retry.backoff(retry, policy, () => 1))).toEqual([
+      100, 200, 400, 800, 1000, 1000,
+    ]);
+  });
+
+  it('applies full jitter', () => {
+    expect(Retry.backoff(2, policy, () => 0)).toBe(0);
+    expect(Retry.backoff(2, policy, () => 0.25)).toBe(100);
+  });
+});
+
+describe('Retry.withFallback', () => {
+  it('returns the first response that is not transient', async () => {
+    const clock = fakeClock();
+    const outcome = await Retry.withFallback('gemini-2.5-flash', null, scripted([503, 429, 200]), policy, clock);
+
+    expect(outcome.response.status).toBe(200);
+    expect(outcome.attempts).toBe(3);
+    expect(clock.sleeps).toEqual([100, 200]);
+  });
+
+  it('does not retry client errors', async () => {
+    const outcome = await Retry.withFallback('gemini-2.5-flash', null, scripted([400]), policy, fakeClock());
+
+    expect(outcome.response.status).toBe(400);
+    expect(outcome.attempts).toBe(1);
+  });
+
+  it('retries network errors and rethrows the last one', async () => {
+    const recovered = await Retry.withFallback('gemini-2.5-flash', null, scripted([null, 200]), policy, fakeClock());
+    expect(recovered.response.status).toBe(200);
+
+    await expect(
+      Retry.withFallback('gemini-2.5-flash', null, scripted([null, null, null]), policy, fakeClock())
+    ).rejects.toThrow('connection reset');
+  });
+
+  it('returns the last transient response once attempts are spent', async () => {
+    const outcome = await Retry.withFallback('gemini-2.5-flash', null, scripted([503, 503, 500]), policy, fakeClock());
+
+    expect(outcome.response.status).toBe(500);
+    expect(outcome.model).toBe('gemini-2.5-flash');
+  });
+
+  it('honours Retry-After from upstream', async () => {
+    const clock = fakeClock();
+    const responses = [new Response('', { status: 429, headers: { 'Retry-After': '2' } }), new Response('ok')];
+    await Retry.withFallback('gemini-2.5-flash', null, async () => responses.shift() ?? new Response(), policy, clock);
+
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it('falls back to the secondary model', async () => {
+    const calls: Models.ModelId[] = [];
+    const outcome = await Retry.withFallback(
+      'gemini-2.5-pro',
+      'gemini-2.5-flash',
+      scripted([503, 503, 503, 200], calls),
+      policy,
+      fakeClock()
+    );
+
+    expect(outcome).toMatchObject({ model: 'gemini-2.5-flash', attempts: 4 });
+    expect(calls).toEqual(['gemini-2.5-pro', 'gemini-2.5-pro', 'gemini-2.5-pro', 'gemini-2.5-flash']);
+  });
+
+  it('retries the fallback model as often as the primary', async () => {
+    const calls: Models.ModelId[] = [];
+    const outcome = await Retry.withFallback(
+      'gemini-2.5-pro',
+      'gemini-2.5-flash',
+      scripted([503, 503, 503, 503, 503, 200], calls),
+      policy,
+      fakeClock()
+    );
+
+    expect(outcome).toMatchObject({ model: 'gemini-2.5-flash', attempts: 6 });
+    expect(calls.filter(model => model === 'gemini-2.5-flash')).toHaveLength(3);
+  });
+
+  it('tries the fallback once when retries are off', async () => {
+    const calls: Models.ModelId[] = [];
+    const outcome = await Retry.withFallback(
+      'gemini-2.5-pro',
+      'gemini-2.5-flash',
+      scripted([503, 503], calls),
+      { ...policy, maxAttempts: 1 },
+      fakeClock()
+    );
+
+    expect(outcome).toMatchObject({ model: 'gemini-2.5-flash', attempts: 2 });
+    expect(calls).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+  });
+
+  it('spends only what is left of the budget', async () => {
+    const calls: Models.ModelId[] = [];
+    const outcome = await Retry.withFallback(
+      'gemini-2.5-pro',
+      'gemini-2.5-flash',
+      scripted([503, 503, 503], calls),
+      { ...policy, budgetMs: 150 },
+      fakeClock()
+    );
+
+    expect(outcome.response.status).toBe(503);
+    expect(calls).toEqual(['gemini-2.5-pro', 'gemini-2.5-pro', 'gemini-2.5-flash']);
+  });
+});
@@ -0,0 +1,41 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Router from '../router';
+
+const routes: Router.Route<string>[] = [
+  { method: 'GET', path: '/health', handler: 'health' },
+  { method: 'GET', path: '/v1/files/:id', handler: 'get-file' },
+  { method: 'DELETE', path: '/v1/files/:id', handler: 'delete-file' },
+  { method: 'POST', path: '/', handler: 'root' },
+];
+
+describe('Router.match', () => {
+  it('matches method and path', () => {
+    expect(Router.match(routes, 'GET', '/health')).toEqual({ ok: true, handler: 'health', params: {} });
+    expect(Router.match(routes, 'POST', '/')).toEqual({ ok: true, handler: 'root', params: {} });
+  });
+
+  it('ignores trailing slashes', () => {
+    expect(Router.match(routes, 'GET', '/health/')).toMatchObject({ ok: true, handler: 'health' });
+  });
+
+  it('captures decoded path parameters', () => {
+    expect(Router.match(routes, 'DELETE', '/v1/files/a%2Fb')).toEqual({
+      ok: true,
+      handler: 'delete-file',
+      params: { id: 'a/b' },
+    });
+  });
+
+  it('reports the allowed methods for known paths', () => {
+    expect(Router.match(routes, 'PUT', '/v1/files/abc')).toEqual({ ok: false, status: 405, allow: ['GET', 'DELETE'] });
+  });
+
+  it('reports unknown or malformed paths as not found', () => {
+    expect(Router.match(routes, 'GET', '/v1/files')).toEqual({ ok: false, status: 404 });
+    expect(Router.match(routes, 'GET', '/v1/files/%E0%A4%A')).toEqual({ ok: false, status: 404 });
+  });
+});
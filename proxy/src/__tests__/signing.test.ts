@@ -0,0 +1,105 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Signing from '../signing';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const NONCE = '0123456789abcdef0123456789abcdef';
+
+const REQUEST = { method: 'POST', path: '/v1/generate?model=flash', body: '{"contents":[]}' };
+
+function signed(headers: Record<string, string>): Signing.Signed {
+  const result = Signing.fromHeaders(new Headers(headers));
+  if (result === null || result === 'malformed') throw new Error('signature headers missing');
+  return result;
+}
+
+describe('Signing.canonical', () => {
+  it('joins method, path, timestamp, nonce and body digest', async () => {
+    const text = await Signing.canonical('post', '/v1/generate', 1735689600, NONCE, '');
+
+    expect(text).toBe(
+      'POST\n/v1/generate\n1735689600\n0123456789abcdef0123456789abcdef\n' +
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('hashes strings and bytes alike', async () => {
+    const bytes = new TextEncoder().encode('{"contents":[]}');
+
+    expect(await Signing.sha256Hex(bytes)).toBe(await Signing.sha256Hex('{"contents":[]}'));
+    expect(await Signing.sha256Hex(null)).toBe(await Signing.sha256Hex(''));
+  });
+});
+
+describe('Signing.signingKey', () => {
+  it('is the labelled HMAC of the secret, not its plain digest', async () => {
+    const key = await Signing.signingKey('secret-a');
+
+    expect(key).toBe('ab03cfa50d633aa83b08f18ce388f9637b0841dc079c656b88279d7e3f5d0874');
+    expect(key).not.toBe(await Signing.sha256Hex('secret-a'));
+  });
+});
+
+describe('Signing.sign', () => {
+  it('produces the four signature headers', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+
+    expect(headers).toMatchObject({
+      'X-Proxy-Key': 'lab-a',
+      'X-Proxy-Timestamp': '1735689600',
+      'X-Proxy-Nonce': NONCE,
+    });
+    expect(headers['X-Proxy-Signature']).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('generates a fresh nonce by default', async () => {
+    const first = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW);
+    const second = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW);
+
+    expect(first['X-Proxy-Nonce']).toMatch(/^[0-9a-f]{32}$/);
+    expect(first['X-Proxy-Nonce']).not.toBe(second['X-Proxy-Nonce']);
+  });
+});
+
+describe('Signing.fromHeaders', () => {
+  it('returns null for unsigned requests', () => {
+    expect(Signing.fromHeaders(new Headers({ Authorization: 'Bearer x' }))).toBeNull();
+  });
+
+  it('rejects partial or invalid headers', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+
+    expect(Signing.fromHeaders(new Headers({ ...headers, 'X-Proxy-Nonce': '' }))).toBe('malformed');
+    expect(Signing.fromHeaders(new Headers({ ...headers, 'X-Proxy-Timestamp': 'soon' }))).toBe('malformed');
+    expect(Signing.fromHeaders(new Headers({ ...headers, 'X-Proxy-Signature': 'ABC' }))).toBe('malformed');
+    expect(Signing.fromHeaders(new Headers({ 'X-Proxy-Key': 'lab-a' }))).toBe('malformed');
+  });
+});
+
+describe('Signing.verify', () => {
+  it('accepts a signature made with the matching secret', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+
+    expect(await Signing.verify(signed(headers), REQUEST, await Signing.signingKey('secret-a'))).toBe(true);
+  });
+
+  it('rejects another secret', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+
+    expect(await Signing.verify(signed(headers), REQUEST, await Signing.signingKey('secret-b'))).toBe(false);
+  });
+
+  it('rejects any change to the signed request', async () => {
+    const headers = await Signing.sign(REQUEST, 'lab-a', 'secret-a', NOW, NONCE);
+    const key = await Signing.signingKey('secret-a');
+
+    expect(await Signing.verify(signed(headers), { ...REQUEST, method: 'PUT' }, key)).toBe(false);
+    expect(await Signing.verify(signed(headers), { ...REQUEST, path: '/v1/generate' }, key)).toBe(false);
+    expect(await Signing.verify(signed(headers), { ...REQUEST, body: '{}' }, key)).toBe(false);
+    expect(await Signing.verify(signed({ ...headers, 'X-Proxy-Timestamp': '1735689601' }), REQUEST, key)).toBe(false);
+  });
+});
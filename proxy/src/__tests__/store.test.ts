@@ -0,0 +1,77 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Store from '../store';
+
+describe('Store.memoryStore', () => {
+  it('returns null for missing keys', async () => {
+    const store = Store.memoryStore();
+
+    expect(await store.get('missing')).toBe(null);
+  });
+
+  it('returns stored values until they expire', async () => {
+    let now = 1_000;
+    const store = Store.memoryStore(() => now);
+
+    await store.put('key', { count: 1 }, 10);
+    expect(await store.get('key')).toEqual({ count: 1 });
+
+    now += 9_999;
+    expect(await store.get('key')).toEqual({ count: 1 });
+
+    now += 1;
+    expect(await store.get('key')).toBe(null);
+  });
+
+  it('deletes values', async () => {
+    const store = Store.memoryStore();
+
+    await store.put('key', 'value', 60);
+    await store.delete('key');
+
+    expect(await store.get('key')).toBe(null);
+  });
+});
+
+describe('Store.cacheApiStore', () => {
+  // Cache API stand-in keeping the last response put for each URL
+  function fakeCache(): Cache & { puts: Map<string, Response> } {
+    const puts = new Map<string, Response>();
+    const urlOf = (request: RequestInfo | URL): string => (request instanceof Request ? request.url : String(request));
+    return {
+      puts,
+      async match(request) {
+        return puts.get(urlOf(request))?.clone();
+      },
+      async put(request, response) {
+        puts.set(urlOf(request), response);
+      },
+      async delete(request) {
+        return puts.delete(urlOf(request));
+      },
+    };
+  }
+
+  it('stores JSON values with a max-age', async () => {
+    const cache = fakeCache();
+    const store = Store.cacheApiStore(cache);
+
+    await store.put('a/b', { count: 1 }, 90);
+
+    expect(await store.get('a/b')).toEqual({ count: 1 });
+    const [response] = cache.puts.values();
+    expect(response?.headers.get('Cache-Control')).toBe('max-age=90');
+  });
+
+  it('returns null for missing keys and deletes values', async () => {
+    const store = Store.cacheApiStore(fakeCache());
+
+    await store.put('key', 'value', 60);
+    await store.delete('key');
+
+    expect(await store.get('key')).toBe(null);
+  });
+});
@@ -0,0 +1,142 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Stream from '../stream';
+
+const encoder = new TextEncoder();
+
+function upstreamOf(chunks: string[], failure?: Error): ReadableStream<Uint8Array> {
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[index];
+      index += 1;
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      } else if (failure) {
+        controller.error(failure);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('Stream.passThrough', () => {
+  it('forwards upstream chunks unchanged', async () => {
+    const chunks = ['data: {"a":1}\n\n', 'data: {"b":2}\n\n'];
+
+    const output = await readAll(Stream.passThrough(upstreamOf(chunks)));
+
+    expect(output).toBe(chunks.join(''));
+  });
+
+  it('emits an error event when upstream fails mid-stream', async () => {
+    const output = await readAll(Stream.passThrough(upstreamOf(['data: {"a":1}\n\n'], new Error('connection reset'))));
+
+    expect(output.startsWith('data: {"a":1}\n\n')).toBe(true);
+    expect(output).toContain('event: error\n');
+    expect(output).toContain('Upstream stream error: connection reset');
+  });
+});
+
+describe('Stream.passThrough observer', () => {
+  it('parses data payloads split across chunks', async () => {
+    const events: unknown[] = [];
+    const chunks = ['data: {"n":', '1}\r\n\r\ndata: {"n":2}\n\n', 'data: {"n":3}'];
+
+    await readAll(Stream.passThrough(upstreamOf(chunks), { onEvent: data => events.push(data) }));
+
+    expect(events).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('runs onEnd after upstream completes', async () => {
+    let ended = false;
+
+    await readAll(
+      Stream.passThrough(upstreamOf(['data: {}\n\n']), {
+        onEnd: async () => {
+          ended = true;
+        },
+      })
+    );
+
+    expect(ended).toBe(true);
+  });
+
+  it('builds the error event payload with onError', async () => {
+    const output = await readAll(
+      Stream.passThrough(upstreamOf([], new Error('reset')), {
+        onError: message => ({ code: 'stream_interrupted', message }),
+      })
+    );
+
+    expect(output).toContain('data: {"code":"stream_interrupted","message":"Upstream stream error: reset"}');
+  });
+
+  it('runs onEnd after upstream fails', async () => {
+    let ended = false;
+
+    await readAll(
+      Stream.passThrough(upstreamOf([], new Error('reset')), {
+        onEnd: async () => {
+          ended = true;
+        },
+      })
+    );
+
+    expect(ended).toBe(true);
+  });
+});
+
+describe('Stream.errorEvent', () => {
+  it('formats a terminated SSE error event', () => {
+    expect(Stream.errorEvent({ error: 'boom' })).toBe('\n\nevent: error\ndata: {"error":"boom"}\n\n');
+  });
+});
+
+describe('Stream.translate', () => {
+  it('re-encodes mapped events and drops the rest', async () => {
+    const chunks = ['data: {"n":', '1}\n\ndata: [DONE]\n\n', 'data: {"n":2}'];
+
+    const output = await readAll(
+      Stream.translate(upstreamOf(chunks), data => (data === null ? undefined : { translated: data }))
+    );
+
+    expect(output).toBe('data: {"translated":{"n":1}}\r\n\r\ndata: {"translated":{"n":2}}\r\n\r\n');
+  });
+
+  it('propagates upstream failures to passThrough', async () => {
+    const output = await readAll(
+      Stream.passThrough(Stream.translate(upstreamOf(['data: {}\n\n'], new Error('reset')), data => data))
+    );
+
+    expect(output).toContain('Upstream stream error: reset');
+  });
+});
+
+describe('Stream.onClose', () => {
+  it('runs the callback once the stream is read to the end', async () => {
+    let calls = 0;
+    const stream = Stream.onClose(upstreamOf(['a', 'b']), () => calls++);
+
+    expect(calls).toBe(0);
+    expect(await readAll(stream)).toBe('ab');
+    expect(calls).toBe(1);
+  });
+
+  it('runs the callback when the client cancels', async () => {
+    let calls = 0;
+    const stream = Stream.onClose(upstreamOf(['a', 'b']), () => calls++);
+
+    await stream.cancel();
+
+    expect(calls).toBe(1);
+  });
+});
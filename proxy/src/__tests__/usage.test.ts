@@ -0,0 +1,30 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Usage from '../usage';
+
+describe('Usage.fromResponse', () => {
+  it('reads token counts from usageMetadata', () => {
+    const body = {
+      candidates: [],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 30, totalTokenCount: 42 },
+    };
+
+    expect(Usage.fromResponse(body)).toEqual({ promptTokens: 12, candidatesTokens: 30, totalTokens: 42 });
+  });
+
+  it('treats missing counts as zero', () => {
+    expect(Usage.fromResponse({ usageMetadata: { totalTokenCount: 7 } })).toEqual({
+      promptTokens: 0,
+      candidatesTokens: 0,
+      totalTokens: 7,
+    });
+  });
+
+  it('returns null without usageMetadata', () => {
+    expect(Usage.fromResponse({ candidates: [] })).toBe(null);
+    expect(Usage.fromResponse(undefined)).toBe(null);
+  });
+});
@@ -0,0 +1,200 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from 'vitest';
+import * as Validation from '../validation';
+
+const limits = Validation.DEFAULT_LIMITS;
+
+function paths(body: unknown, customLimits: Validation.Limits = limits): string[] {
+  return Validation.validate(body, customLimits).map(e => e.path);
+}
+
+describe('Validation.validate', () => {
+  it('accepts a complete request', () => {
+    const body = {
+      systemInstruction: { parts: [{ text: 'You are a lab assistant.' }] },
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: 'Describe this' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }],
+        },
+        { role: 'model', parts: [{ text: 'Thinking...', thought: true }, { text: 'A cell culture.' }] },
+        { role: 'user', parts: [{ fileData: { mimeType: 'application/pdf', fileUri: 'https://example.com/f' } }] },
+      ],
+      tools: [{ googleSearch: {} }],
+      generationConfig: {
+        temperature: 0.7,
+        topP: 0.9,
+        topK: 40,
+        maxOutputTokens: 2048,
+        stopSequences: ['END'],
+        responseModalities: ['TEXT', 'IMAGE'],
+        thinkingConfig: { thinkingBudget: 1024, includeThoughts: true },
+      },
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' }],
+    };
+
+    expect(Validation.validate(body, limits)).toEqual([]);
+  });
+
+  it('requires an object with contents', () => {
+    expect(paths([])).toEqual(['']);
+    expect(paths({})).toEqual(['contents']);
+  });
+
+  it('rejects unknown top-level fields', () => {
+    expect(paths({ contents: [], prompt: 'hi' })).toEqual(['prompt']);
+  });
+
+  it('reports nested field paths', () => {
+    const body = {
+      contents: [
+        { role: 'user', parts: [{ text: 'ok' }] },
+        { role: 'assistant', parts: [{ text: 'ok' }, { inlineData: { mimeType: 'image/gif', data: 'R0lG' } }] },
+      ],
+    };
+
+    expect(paths(body)).toEqual(['contents[1].role', 'contents[1].parts[1].inlineData.mimeType']);
+  });
+
+  it('requires exactly one data field per part', () => {
+    const body = {
+      contents: [{ role: 'user', parts: [{}, { text: 'a', inlineData: { mimeType: 'image/png', data: '' } }] }],
+    };
+
+    expect(paths(body)).toEqual(['contents[0].parts[0]', 'contents[0].parts[1]']);
+  });
+
+  it('rejects empty parts', () => {
+    expect(paths({ contents: [{ role: 'user', parts: [] }] })).toEqual(['contents[0].parts']);
+  });
+
+  it('rejects non-base64 inline data', () => {
+    const body = {
+      contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/png', data: 'not base64!' } }] }],
+    };
+
+    expect(paths(body)).toEqual(['contents[0].parts[0].inlineData.data']);
+  });
+
+  it('enforces the inline data size limit', () => {
+    const data = 'A'.repeat(16);
+    const body = { contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data } }] }] };
+
+    expect(paths(body, { ...limits, maxInlineDataBytes: 12 })).toEqual([]);
+    expect(paths(body, { ...limits, maxInlineDataBytes: 11 })).toEqual(['contents[0].parts[0].inlineData.data']);
+  });
+
+  it('enforces the message count limit', () => {
+    const message = { role: 'user', parts: [{ text: 'hi' }] };
+
+    expect(paths({ contents: [message, message, message] }, { ...limits, maxMessages: 2 })).toEqual(['contents']);
+  });
+
+  it('rejects unknown tools', () => {
+    expect(paths({ contents: [], tools: [{ mystery: {} }] })).toEqual(['tools[0].mystery']);
+    expect(paths({ contents: [], tools: [{}] })).toEqual(['tools[0]']);
+  });
+
+  it('accepts a function-calling request', () => {
+    const body = {
+      contents: [
+        { role: 'user', parts: [{ text: 'Convert 5 mg to grams' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'convert', args: { value: 5, from: 'mg', to: 'g' } } }] },
+        { role: 'user', parts: [{ functionResponse: { name: 'convert', response: { value: 0.005 } } }] },
+        { role: 'model', parts: [{ executableCode: { language: 'PYTHON', code: 'print(5 / 1000)' } }] },
+        { role: 'user', parts: [{ codeExecutionResult: { outcome: 'OUTCOME_OK', output: '0.005' } }] },
+      ],
+      tools: [
+        { functionDeclarations: [{ name: 'convert', parameters: { type: 'OBJECT' } }] },
+        { codeExecution: {} },
+        { urlContext: {} },
+      ],
+      toolConfig: { functionCallingConfig: { mode: 'AUTO' } },
+    };
+
+    expect(Validation.validate(body, limits)).toEqual([]);
+  });
+
+  it('requires function calls and declarations to be named', () => {
+    const body = {
+      contents: [{ role: 'model', parts: [{ functionCall: { args: {} } }] }],
+      tools: [{ functionDeclarations: [{ description: 'no name' }] }],
+    };
+
+    expect(paths(body)).toEqual(['contents[0].parts[0].functionCall.name', 'tools[0].functionDeclarations[0].name']);
+  });
+
+  it('accepts a structured-output request', () => {
+    const body = {
+      contents: [{ role: 'user', parts: [{ text: 'List three elements' }] }],
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'ARRAY', items: { type: 'STRING' } },
+        presencePenalty: 0.5,
+        frequencyPenalty: -0.5,
+        imageConfig: { aspectRatio: '16:9' },
+      },
+    };
+
+    expect(Validation.validate(body, limits)).toEqual([]);
+  });
+
+  it('accepts a cached content reference', () => {
+    expect(paths({ contents: [], cachedContent: 'cachedContents/abc-123' })).toEqual([]);
+    expect(paths({ contents: [], cachedContent: 'files/abc' })).toEqual(['cachedContent']);
+    expect(paths({ contents: [], cachedContent: 7 })).toEqual(['cachedContent']);
+  });
+
+  it('checks generation config ranges and types', () => {
+    const body = {
+      contents: [],
+      generationConfig: {
+        temperature: 3,
+        topK: 1.5,
+        maxOutputTokens: '100',
+        stopSequences: ['a', 'b', 'c', 'd', 'e', 'f'],
+        responseModalities: ['AUDIO'],
+        mystery: true,
+      },
+    };
+
+    expect(paths(body).sort()).toEqual(
+      [
+        'generationConfig.mystery',
+        'generationConfig.temperature',
+        'generationConfig.topK',
+        'generationConfig.maxOutputTokens',
+        'generationConfig.stopSequences',
+        'generationConfig.responseModalities[0]',
+      ].sort()
+    );
+  });
+
+  it('includes a message for each error', () => {
+    const [error] = Validation.validate({ contents: 'hello' }, limits);
+
+    expect(error).toEqual({ path: 'contents', message: 'Expected an array' });
+  });
+});
+
+describe('Validation.base64Bytes', () => {
+  it('accounts for padding', () => {
+    expect(Validation.base64Bytes('')).toBe(0);
+    expect(Validation.base64Bytes('QQ==')).toBe(1);
+    expect(Validation.base64Bytes('QUI=')).toBe(2);
+    expect(Validation.base64Bytes('QUJD')).toBe(3);
+  });
+});
+
+describe('Validation.configure', () => {
+  it('reads limits from environment strings', () => {
+    expect(Validation.configure({ maxRequestBytes: '1024', maxMessages: '10' })).toEqual({
+      maxRequestBytes: 1024,
+      maxInlineDataBytes: Validation.DEFAULT_LIMITS.maxInlineDataBytes,
+      maxMessages: 10,
+    });
+  });
+});
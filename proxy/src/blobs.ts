@@ -0,0 +1,72 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Short-lived binary storage for generated images.
+ *
+ * Production binds an R2 bucket; tests use the in-memory store. Expiry is
+ * checked on read, so an R2 lifecycle rule should delete old objects.
+ */
+
+export interface Entry {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface BlobStore {
+  get(key: string): Promise<Entry | null>;
+  put(key: string, blob: Entry, ttlSeconds: number): Promise<void>;
+}
+
+interface MemoryEntry {
+  blob: Entry;
+  expiresAt: number;
+}
+
+export function memoryBlobStore(now: () => number = Date.now): BlobStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.blob;
+    },
+    async put(key, blob, ttlSeconds) {
+      entries.set(key, { blob, expiresAt: now() + ttlSeconds * 1000 });
+    },
+  };
+}
+
+export function r2BlobStore(bucket: R2Bucket, now: () => number = Date.now): BlobStore {
+  return {
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object) {
+        return null;
+      }
+      const expiresAt = Number(object.customMetadata?.['expiresAt']);
+      if (!(expiresAt > now())) {
+        await object.body.cancel();
+        return null;
+      }
+      return {
+        bytes: new Uint8Array(await object.arrayBuffer()),
+        mimeType: object.httpMetadata?.contentType ?? 'application/octet-stream',
+      };
+    },
+    async put(key, blob, ttlSeconds) {
+      await bucket.put(key, blob.bytes, {
+        httpMetadata: { contentType: blob.mimeType },
+        customMetadata: { expiresAt: String(now() + ttlSeconds * 1000) },
+      });
+    },
+  };
+}
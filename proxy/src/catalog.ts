@@ -0,0 +1,128 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Model catalog for the app's model selector.
+ *
+ * Registry models are listed with their display metadata. Upstream
+ * `models.list` decides which of them are currently served and their
+ * context windows; its answer is cached, and the static registry is used
+ * whenever upstream cannot be reached.
+ */
+
+import * as Json from './json';
+import * as Models from './models';
+import * as Store from './store';
+
+export const CACHE_KEY = 'models:catalog';
+export const CACHE_TTL_SECONDS = 3600;
+
+export type Source = 'upstream' | 'cache' | 'static';
+
+export interface Entry {
+  id: Models.ModelId;
+  alias: Models.ModelAlias | null;
+  default: boolean;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsImages: boolean;
+  supportsThinking: boolean;
+  supportsGrounding: boolean;
+  labels: { en: string; ru: string };
+}
+
+// Registry model as reported upstream
+interface UpstreamModel {
+  id: Models.ModelId;
+  inputTokenLimit: number | null;
+}
+
+function aliasOf(id: Models.ModelId): Models.ModelAlias | null {
+  for (const name of Object.keys(Models.ALIASES)) {
+    if (Models.isModelAlias(name) && Models.ALIASES[name] === id) {
+      return name;
+    }
+  }
+  return null;
+}
+
+function entry(id: Models.ModelId, contextWindow: number | null): Entry {
+  const info = Models.MODEL_INFO[id];
+  return {
+    id,
+    alias: aliasOf(id),
+    default: id === Models.DEFAULT_MODEL,
+    contextWindow: contextWindow ?? info.contextWindow,
+    maxOutputTokens: Models.MODELS[id].maxOutputTokens,
+    supportsImages: info.images,
+    supportsThinking: info.thinking,
+    supportsGrounding: info.grounding,
+    labels: info.labels,
+  };
+}
+
+export function staticList(): Entry[] {
+  return Object.values(Models.MODELS).map(model => entry(model.id, null));
+}
+
+/**
+ * Read registry models from a `models.list` response body, skipping models
+ * the proxy does not serve. Returns null for unrecognized bodies.
+ */
+export function parseList(body: unknown): UpstreamModel[] | null {
+  if (!Json.isRecord(body) || !Array.isArray(body['models'])) {
+    return null;
+  }
+  const models: UpstreamModel[] = [];
+  for (const model of body['models']) {
+    const name = Json.isRecord(model) && typeof model['name'] === 'string' ? model['name'] : '';
+    const id = name.replace(/^models\//, '');
+    if (Json.isRecord(model) && Models.isModelId(id)) {
+      const limit = model['inputTokenLimit'];
+      models.push({ id, inputTokenLimit: typeof limit === 'number' && limit > 0 ? limit : null });
+    }
+  }
+  return models;
+}
+
+// Kept in registry order so the selector does not reshuffle
+export function fromUpstream(upstream: UpstreamModel[]): Entry[] {
+  return Object.values(Models.MODELS).flatMap(model => {
+    const listed = upstream.find(candidate => candidate.id === model.id);
+    return listed ? [entry(model.id, listed.inputTokenLimit)] : [];
+  });
+}
+
+function isEntryList(value: unknown): value is Entry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(item => Json.isRecord(item) && typeof item['id'] === 'string' && Models.isModelId(item['id']))
+  );
+}
+
+/**
+ * Load the catalog from the cache, then upstream, then the static registry.
+ */
+export async function load(
+  store: Store.Store,
+  listUpstream: () => Promise<Response>
+): Promise<{ entries: Entry[]; source: Source }> {
+  const cached = await store.get(CACHE_KEY);
+  if (isEntryList(cached)) {
+    return { entries: cached, source: 'cache' };
+  }
+
+  try {
+    const response = await listUpstream();
+    const upstream = response.ok ? parseList(Json.parse(await response.text())) : null;
+    if (upstream !== null && upstream.length > 0) {
+      const entries = fromUpstream(upstream);
+      await store.put(CACHE_KEY, entries, CACHE_TTL_SECONDS);
+      return { entries, source: 'upstream' };
+    }
+  } catch {
+    // Fall through to the static registry
+  }
+  return { entries: staticList(), source: 'static' };
+}
@@ -0,0 +1,21 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Parsing helpers for string environment variables.
+ */
+
+// Parse a positive integer, falling back for missing or invalid values
+export function positiveInt(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Read an on/off switch; only "1" and "true" turn it on
+export function flag(value: string | undefined): boolean {
+  return value === '1' || value === 'true';
+}
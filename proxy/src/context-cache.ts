@@ -0,0 +1,174 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Gemini context caching.
+ *
+ * A session that reuses a long attachment uploads it once as cached
+ * content and references it from each generate request by `cachedContent`
+ * name, paying the cached rate for those tokens. All caches live under the
+ * proxy's single API key, so the proxy records which client key created
+ * each one and only lets that key use, list, refresh or delete it.
+ */
+
+import * as Config from './config';
+import * as Gemini from './gemini';
+import * as Json from './json';
+import * as Models from './models';
+import * as Provider from './provider';
+import * as Store from './store';
+import * as Validation from './validation';
+
+export const DEFAULT_TTL_SECONDS = 3600;
+
+export const MAX_TTL_SECONDS = 7 * 24 * 3600;
+
+export const MAX_PAGE_SIZE = 100;
+
+const MAX_DISPLAY_NAME_LENGTH = 128;
+
+// Upstream names are `cachedContents/<id>`
+const ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+const NAME_PREFIX = 'cachedContents/';
+
+export interface Entry {
+  id: string;
+  name: string;
+  model: string;
+  displayName: string | null;
+  totalTokens: number | null;
+  expiresAt: string | null;
+}
+
+export interface Page {
+  caches: Entry[];
+  nextPageToken: string | null;
+}
+
+export interface Owner {
+  keyId: string;
+  model: Models.ModelId;
+}
+
+export function isId(value: string): boolean {
+  return ID_PATTERN.test(value);
+}
+
+// Requested lifetime in seconds, capped at a week
+export function ttlSeconds(value: string | null): number {
+  return Math.min(Config.positiveInt(value ?? undefined, DEFAULT_TTL_SECONDS), MAX_TTL_SECONDS);
+}
+
+/**
+ * The cache ID a generateContent body references, or null when it uses none.
+ */
+export function referenced(body: unknown): string | null {
+  if (!Json.isRecord(body) || typeof body['cachedContent'] !== 'string') {
+    return null;
+  }
+  const id = body['cachedContent'].slice(NAME_PREFIX.length);
+  return body['cachedContent'].startsWith(NAME_PREFIX) && isId(id) ? id : null;
+}
+
+/**
+ * Check an already validated generateContent body for use as cache content.
+ * Generation settings belong to the requests that later use the cache.
+ */
+export function validate(body: unknown): Validation.FieldError[] {
+  const request = Json.isRecord(body) ? body : {};
+  return ['generationConfig', 'safetySettings', 'cachedContent']
+    .filter(field => request[field] !== undefined)
+    .map(path => ({ path, message: 'Not allowed in cached content' }));
+}
+
+export function createRequest(
+  apiKey: string,
+  model: Models.ModelId,
+  body: unknown,
+  ttl: number,
+  displayName: string | null
+): Provider.UpstreamRequest {
+  const request = Json.isRecord(body) ? body : {};
+  return {
+    url: `${Gemini.BASE_URL}/cachedContents?key=${apiKey}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...request,
+      model: `models/${model}`,
+      ttl: `${ttl}s`,
+      ...(displayName === null ? {} : { displayName: displayName.slice(0, MAX_DISPLAY_NAME_LENGTH) }),
+    }),
+  };
+}
+
+// Extend a cache's lifetime to `ttl` seconds from now
+export function refreshRequest(apiKey: string, id: string, ttl: number): Provider.UpstreamRequest {
+  return {
+    url: `${cacheUrl(apiKey, id)}&updateMask=ttl`,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ttl: `${ttl}s` }),
+  };
+}
+
+export function cacheUrl(apiKey: string, id: string): string {
+  return `${Gemini.BASE_URL}/${NAME_PREFIX}${id}?key=${apiKey}`;
+}
+
+export function listUrl(apiKey: string, pageSize: number, pageToken: string | null): string {
+  const params = new URLSearchParams({ pageSize: String(Math.min(pageSize, MAX_PAGE_SIZE)), key: apiKey });
+  if (pageToken !== null) {
+    params.set('pageToken', pageToken);
+  }
+  return `${Gemini.BASE_URL}/cachedContents?${params}`;
+}
+
+/**
+ * Read an upstream cachedContent resource, or null when it is not recognizable.
+ */
+export function fromUpstream(value: unknown): Entry | null {
+  if (!Json.isRecord(value) || typeof value['name'] !== 'string' || !value['name'].startsWith(NAME_PREFIX)) {
+    return null;
+  }
+  const usage = Json.isRecord(value['usageMetadata']) ? value['usageMetadata']['totalTokenCount'] : undefined;
+  return {
+    id: value['name'].slice(NAME_PREFIX.length),
+    name: value['name'],
+    model: typeof value['model'] === 'string' ? value['model'].replace(/^models\//, '') : '',
+    displayName: typeof value['displayName'] === 'string' ? value['displayName'] : null,
+    totalTokens: typeof usage === 'number' ? usage : null,
+    expiresAt: typeof value['expireTime'] === 'string' ? value['expireTime'] : null,
+  };
+}
+
+export function fromListResponse(body: unknown): Page {
+  const response = Json.isRecord(body) ? body : {};
+  const caches = Array.isArray(response['cachedContents']) ? response['cachedContents'] : [];
+  return {
+    caches: caches.flatMap(cache => fromUpstream(cache) ?? []),
+    nextPageToken: typeof response['nextPageToken'] === 'string' ? response['nextPageToken'] : null,
+  };
+}
+
+function ownerKey(id: string): string {
+  return `context-cache:${id}`;
+}
+
+// Record the creating key, for as long as the cache lives
+export function claim(store: Store.Store, id: string, owner: Owner, ttl: number): Promise<void> {
+  return store.put(ownerKey(id), owner, ttl);
+}
+
+export async function ownerOf(store: Store.Store, id: string): Promise<Owner | null> {
+  const value = await store.get(ownerKey(id));
+  if (!Json.isRecord(value) || typeof value['keyId'] !== 'string' || typeof value['model'] !== 'string') {
+    return null;
+  }
+  const model = value['model'];
+  return Models.isModelId(model) ? { keyId: value['keyId'], model } : null;
+}
+
+export function release(store: Store.Store, id: string): Promise<void> {
+  return store.delete(ownerKey(id));
+}
@@ -0,0 +1,79 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * CORS origin allow-list.
+ *
+ * Browsers send `Origin` on cross-origin requests: listed origins get CORS
+ * headers echoing that origin, and any other origin is refused. Requests
+ * without an `Origin` (the native app, curl) are not subject to CORS. An
+ * entry ending in `:*` allows any port, for local dev servers; a lone `*`
+ * allows every origin.
+ */
+
+import * as Signing from './signing';
+
+export const DEFAULT_ORIGINS: readonly string[] = [
+  'tauri://localhost',
+  'http://tauri.localhost',
+  'https://akoppela.github.io',
+  'http://localhost:*',
+  'http://127.0.0.1:*',
+];
+
+const ALLOW_METHODS = 'GET, POST, PATCH, DELETE, OPTIONS';
+const ALLOW_HEADERS = ['Content-Type', 'Authorization', 'Cache-Control', ...Object.values(Signing.HEADERS)].join(', ');
+const EXPOSE_HEADERS = [
+  'Retry-After',
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-Proxy-Key-Id',
+  'X-Proxy-Model',
+  'X-Request-Id',
+  'X-Cache',
+  'X-Proxy-Grounding',
+  'X-Proxy-Adjusted',
+].join(', ');
+
+// Parse a comma-separated list of origins, falling back to the defaults
+export function configure(text: string | undefined): readonly string[] {
+  const origins = (text ?? '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(origin => origin !== '');
+  return origins.length > 0 ? origins : DEFAULT_ORIGINS;
+}
+
+function matches(entry: string, origin: string): boolean {
+  if (entry === '*' || entry === origin) {
+    return true;
+  }
+  if (!entry.endsWith(':*')) {
+    return false;
+  }
+  const prefix = entry.slice(0, -1);
+  return origin.startsWith(prefix) && /^\d+$/.test(origin.slice(prefix.length));
+}
+
+export function isAllowed(origin: string, allowList: readonly string[]): boolean {
+  return allowList.some(entry => matches(entry, origin));
+}
+
+/**
+ * CORS headers for a response to a request from `origin`. Responses vary by
+ * origin even when no CORS headers are granted, so caches keep them apart.
+ */
+export function headers(origin: string | null, allowList: readonly string[]): Record<string, string> {
+  if (origin === null || !isAllowed(origin, allowList)) {
+    return { Vary: 'Origin' };
+  }
+  return {
+    'Access-Control-Allow-Origin': allowList.includes('*') ? '*' : origin,
+    'Access-Control-Allow-Methods': ALLOW_METHODS,
+    'Access-Control-Allow-Headers': ALLOW_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSE_HEADERS,
+    Vary: 'Origin',
+  };
+}
@@ -0,0 +1,154 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Normalized upstream error envelope.
+ *
+ * Gemini failures arrive as HTTP errors with a gRPC-style `error.status`,
+ * as prompt blocks inside a 200 response, or as network failures. All of
+ * them are mapped to one shape so the app can tell a safety block from a
+ * quota error from an outage and decide whether to offer a retry.
+ *
+ * `error` repeats `message` for clients reading the plain `{ error }` shape
+ * the proxy uses for its own rejections.
+ */
+
+import * as Json from './json';
+
+export type ErrorCode =
+  | 'invalid_request'
+  | 'failed_precondition'
+  | 'permission_denied'
+  | 'not_found'
+  | 'quota_exceeded'
+  | 'safety_blocked'
+  | 'upstream_error'
+  | 'upstream_unavailable'
+  | 'upstream_timeout'
+  | 'network_error'
+  | 'stream_interrupted'
+  | 'internal_error';
+
+export interface ErrorEnvelope {
+  error: string;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  upstreamStatus: number | null;
+  details: unknown;
+  requestId: string;
+  [key: string]: unknown;
+}
+
+export interface Normalized {
+  status: number;
+  body: ErrorEnvelope;
+}
+
+// Gemini `error.status` values and how they are surfaced
+const STATUS_CODES: Record<string, { code: ErrorCode; retryable: boolean }> = {
+  INVALID_ARGUMENT: { code: 'invalid_request', retryable: false },
+  FAILED_PRECONDITION: { code: 'failed_precondition', retryable: false },
+  OUT_OF_RANGE: { code: 'invalid_request', retryable: false },
+  UNAUTHENTICATED: { code: 'permission_denied', retryable: false },
+  PERMISSION_DENIED: { code: 'permission_denied', retryable: false },
+  NOT_FOUND: { code: 'not_found', retryable: false },
+  RESOURCE_EXHAUSTED: { code: 'quota_exceeded', retryable: true },
+  CANCELLED: { code: 'upstream_error', retryable: true },
+  INTERNAL: { code: 'upstream_error', retryable: true },
+  UNKNOWN: { code: 'upstream_error', retryable: true },
+  UNAVAILABLE: { code: 'upstream_unavailable', retryable: true },
+  DEADLINE_EXCEEDED: { code: 'upstream_timeout', retryable: true },
+};
+
+function fromHttpStatus(status: number): { code: ErrorCode; retryable: boolean } {
+  switch (status) {
+    case 401:
+    case 403:
+      return { code: 'permission_denied', retryable: false };
+    case 404:
+      return { code: 'not_found', retryable: false };
+    case 429:
+      return { code: 'quota_exceeded', retryable: true };
+    case 503:
+      return { code: 'upstream_unavailable', retryable: true };
+    case 504:
+      return { code: 'upstream_timeout', retryable: true };
+    default:
+      return status >= 500
+        ? { code: 'upstream_error', retryable: true }
+        : { code: 'invalid_request', retryable: false };
+  }
+}
+
+export function envelope(
+  code: ErrorCode,
+  message: string,
+  retryable: boolean,
+  upstreamStatus: number | null,
+  details: unknown,
+  requestId: string
+): ErrorEnvelope {
+  return { error: message, code, message, retryable, upstreamStatus, details, requestId };
+}
+
+/**
+ * Normalize a non-OK upstream response body.
+ */
+export function fromUpstream(status: number, body: unknown, requestId: string): Normalized {
+  const error = Json.isRecord(body) && Json.isRecord(body['error']) ? body['error'] : null;
+  const upstreamCode = typeof error?.['status'] === 'string' ? error['status'] : null;
+  const mapped =
+    upstreamCode !== null && Object.hasOwn(STATUS_CODES, upstreamCode)
+      ? (STATUS_CODES[upstreamCode] ?? fromHttpStatus(status))
+      : fromHttpStatus(status);
+  const message = typeof error?.['message'] === 'string' ? error['message'] : `Upstream returned HTTP ${status}`;
+  const details = { status: upstreamCode, details: Array.isArray(error?.['details']) ? error['details'] : [] };
+
+  return {
+    status,
+    body: envelope(mapped.code, message, mapped.retryable, status, details, requestId),
+  };
+}
+
+/**
+ * Detect a prompt blocked by Gemini's safety filters in an otherwise successful response.
+ * Returns null when the prompt was not blocked.
+ */
+export function fromBlockedPrompt(body: unknown, requestId: string): Normalized | null {
+  if (!Json.isRecord(body) || !Json.isRecord(body['promptFeedback'])) {
+    return null;
+  }
+  const feedback = body['promptFeedback'];
+  const blockReason = feedback['blockReason'];
+  if (typeof blockReason !== 'string') {
+    return null;
+  }
+  const details = { blockReason, safetyRatings: feedback['safetyRatings'] ?? [] };
+  return {
+    status: 400,
+    body: envelope('safety_blocked', `Prompt blocked: ${blockReason}`, false, 200, details, requestId),
+  };
+}
+
+/**
+ * Normalize a failure to reach upstream at all.
+ */
+export function fromNetworkError(error: unknown, requestId: string): Normalized {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return {
+    status: 502,
+    body: envelope('network_error', `Proxy error: ${message}`, true, null, null, requestId),
+  };
+}
+
+/**
+ * Normalize a failure inside the proxy itself. The cause is logged, not returned.
+ */
+export function fromInternalError(requestId: string): Normalized {
+  return {
+    status: 500,
+    body: envelope('internal_error', 'Internal proxy error', true, null, null, requestId),
+  };
+}
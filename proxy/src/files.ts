@@ -0,0 +1,251 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Gemini Files API relay.
+ *
+ * Papers and datasets too large to inline as base64 are uploaded once and
+ * referenced from later requests by `fileData.fileUri`. The proxy runs the
+ * resumable upload protocol itself (start, then upload and finalize in one
+ * call), so the client never sees `GEMINI_API_KEY` or the upload session
+ * URL. Uploaded files expire upstream after 48 hours.
+ *
+ * Every file lives under the proxy's single API key, so the proxy records
+ * which client key uploaded each one and only lets that key list, delete or
+ * reference it.
+ */
+
+import * as Config from './config';
+import * as Gemini from './gemini';
+import * as Json from './json';
+import * as Provider from './provider';
+import * as Store from './store';
+
+export const UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+export const MIME_TYPES = [
+  'application/pdf',
+  'application/json',
+  'text/plain',
+  'text/csv',
+  'text/tab-separated-values',
+  'text/markdown',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+] as const;
+
+// Workers accept request bodies up to 100 MB on every plan
+export const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+export const MAX_PAGE_SIZE = 100;
+
+// Upstream deletes files after 48 hours, and their owner records go with them
+export const TTL_SECONDS = 48 * 3600;
+
+const MAX_DISPLAY_NAME_LENGTH = 512;
+
+// Upstream file names are `files/<id>`
+const ID_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+// File URIs are `<BASE_URL>/files/<id>`
+const URI_PREFIX = `${Gemini.BASE_URL}/files/`;
+
+const FILES_HOST = new URL(Gemini.BASE_URL).hostname;
+
+export interface FileInfo {
+  id: string;
+  fileUri: string;
+  mimeType: string;
+  sizeBytes: number;
+  displayName: string | null;
+  state: string;
+  expiresAt: string | null;
+}
+
+export interface Page {
+  files: FileInfo[];
+  nextPageToken: string | null;
+}
+
+export interface Owner {
+  keyId: string;
+}
+
+export type Upload =
+  | { ok: true; mimeType: string; sizeBytes: number }
+  | { ok: false; status: 400 | 411 | 413 | 415; body: Record<string, unknown> };
+
+export function configure(maxBytes: string | undefined): number {
+  return Config.positiveInt(maxBytes, DEFAULT_MAX_BYTES);
+}
+
+export function isId(value: string): boolean {
+  return ID_PATTERN.test(value);
+}
+
+/**
+ * Check an upload's declared type and size before opening an upstream
+ * session. The length must be declared because the upstream session needs it.
+ */
+export function checkUpload(contentType: string | null, contentLength: string | null, maxBytes: number): Upload {
+  const mimeType = (contentType ?? '').split(';')[0]?.trim().toLowerCase() ?? '';
+  if (!MIME_TYPES.some(allowed => allowed === mimeType)) {
+    return {
+      ok: false,
+      status: 415,
+      body: {
+        error: `Unsupported file type: ${mimeType || 'none'}`,
+        code: 'unsupported_media_type',
+        allowed: MIME_TYPES,
+      },
+    };
+  }
+  const sizeBytes = contentLength !== null && /^\d+$/.test(contentLength) ? Number(contentLength) : NaN;
+  if (!Number.isSafeInteger(sizeBytes)) {
+    return { ok: false, status: 411, body: { error: 'Content-Length is required', code: 'length_required' } };
+  }
+  if (sizeBytes === 0) {
+    return { ok: false, status: 400, body: { error: 'File is empty', code: 'empty_file' } };
+  }
+  if (sizeBytes > maxBytes) {
+    return {
+      ok: false,
+      status: 413,
+      body: { error: `File exceeds ${maxBytes} bytes`, code: 'file_too_large' },
+    };
+  }
+  return { ok: true, mimeType, sizeBytes };
+}
+
+/**
+ * Open a resumable upload session. The session URL comes back in the
+ * `X-Goog-Upload-URL` response header.
+ */
+export function startUpload(
+  apiKey: string,
+  upload: { mimeType: string; sizeBytes: number },
+  displayName: string | null
+): Provider.UpstreamRequest {
+  const file = displayName === null ? {} : { display_name: displayName.slice(0, MAX_DISPLAY_NAME_LENGTH) };
+  return {
+    url: `${UPLOAD_URL}?key=${apiKey}`,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(upload.sizeBytes),
+      'X-Goog-Upload-Header-Content-Type': upload.mimeType,
+    },
+    body: JSON.stringify({ file }),
+  };
+}
+
+// Send every byte in one request and close the session
+export function finishHeaders(sizeBytes: number): Record<string, string> {
+  return {
+    'Content-Length': String(sizeBytes),
+    'X-Goog-Upload-Offset': '0',
+    'X-Goog-Upload-Command': 'upload, finalize',
+  };
+}
+
+export function listUrl(apiKey: string, pageSize: number, pageToken: string | null): string {
+  const params = new URLSearchParams({ pageSize: String(Math.min(pageSize, MAX_PAGE_SIZE)), key: apiKey });
+  if (pageToken !== null) {
+    params.set('pageToken', pageToken);
+  }
+  return `${Gemini.BASE_URL}/files?${params}`;
+}
+
+export function fileUrl(apiKey: string, id: string): string {
+  return `${Gemini.BASE_URL}/files/${id}?key=${apiKey}`;
+}
+
+/**
+ * Read an upstream file resource, or null when it is not recognizable.
+ */
+export function fromUpstream(value: unknown): FileInfo | null {
+  if (!Json.isRecord(value) || typeof value['name'] !== 'string' || typeof value['uri'] !== 'string') {
+    return null;
+  }
+  const optional = (field: string): string | null => {
+    const text = value[field];
+    return typeof text === 'string' ? text : null;
+  };
+  return {
+    id: value['name'].replace(/^files\//, ''),
+    fileUri: value['uri'],
+    mimeType: optional('mimeType') ?? 'application/octet-stream',
+    // int64 fields arrive as strings
+    sizeBytes: Number(value['sizeBytes'] ?? 0),
+    displayName: optional('displayName'),
+    state: optional('state') ?? 'STATE_UNSPECIFIED',
+    expiresAt: optional('expirationTime'),
+  };
+}
+
+// The upload finalize response wraps the resource in `file`
+export function fromUploadResponse(body: unknown): FileInfo | null {
+  return Json.isRecord(body) ? fromUpstream(body['file']) : null;
+}
+
+export function fromListResponse(body: unknown): Page {
+  const response = Json.isRecord(body) ? body : {};
+  const files = Array.isArray(response['files']) ? response['files'] : [];
+  return {
+    files: files.flatMap(file => fromUpstream(file) ?? []),
+    nextPageToken: typeof response['nextPageToken'] === 'string' ? response['nextPageToken'] : null,
+  };
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(Json.isRecord) : [];
+}
+
+function isFilesApiUri(uri: string): boolean {
+  try {
+    return new URL(uri).hostname === FILES_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The `fileData.fileUri` values in a generateContent body that point at the
+ * Files API host.
+ */
+export function referenced(body: unknown): string[] {
+  const request = Json.isRecord(body) ? body : {};
+  return [...records(request['contents']), ...records([request['systemInstruction']])]
+    .flatMap(content => records(content['parts']))
+    .flatMap(part => {
+      const uri = Json.isRecord(part['fileData']) ? part['fileData']['fileUri'] : undefined;
+      return typeof uri === 'string' && isFilesApiUri(uri) ? [uri] : [];
+    });
+}
+
+// The file ID in a Files API URI, or null when it is not a file's own URI
+export function idFromUri(uri: string): string | null {
+  const id = uri.slice(URI_PREFIX.length);
+  return uri.startsWith(URI_PREFIX) && isId(id) ? id : null;
+}
+
+function ownerKey(id: string): string {
+  return `file:${id}`;
+}
+
+// Record the uploading key, for as long as upstream keeps the file
+export function claim(store: Store.Store, id: string, owner: Owner): Promise<void> {
+  return store.put(ownerKey(id), owner, TTL_SECONDS);
+}
+
+export async function ownerOf(store: Store.Store, id: string): Promise<Owner | null> {
+  const value = await store.get(ownerKey(id));
+  return Json.isRecord(value) && typeof value['keyId'] === 'string' ? { keyId: value['keyId'] } : null;
+}
+
+export function release(store: Store.Store, id: string): Promise<void> {
+  return store.delete(ownerKey(id));
+}
@@ -0,0 +1,61 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Gemini API provider, the reference adapter.
+ *
+ * Requests and responses are already in Gemini format, so translation is
+ * the identity.
+ */
+
+import * as Json from './json';
+import * as Provider from './provider';
+
+export const BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// `models.list`, used for the model catalog
+export function modelsUrl(apiKey: string): string {
+  return `${BASE_URL}/models?pageSize=1000&key=${apiKey}`;
+}
+
+/**
+ * `countTokens` for a whole generateContent body, so the system
+ * instruction and tools are counted too.
+ */
+export function countTokensRequest(apiKey: string, model: string, body: unknown): Provider.UpstreamRequest {
+  const request = Json.isRecord(body) ? body : {};
+  return {
+    url: `${BASE_URL}/models/${model}:countTokens?key=${apiKey}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ generateContentRequest: { ...request, model: `models/${model}` } }),
+  };
+}
+
+// Token counts from a `countTokens` response, or null for unrecognized bodies
+export function fromCountTokens(body: unknown): { totalTokens: number; cachedTokens: number } | null {
+  if (!Json.isRecord(body) || typeof body['totalTokens'] !== 'number') {
+    return null;
+  }
+  const cached = body['cachedContentTokenCount'];
+  return { totalTokens: body['totalTokens'], cachedTokens: typeof cached === 'number' ? cached : 0 };
+}
+
+export function provider(apiKey: string): Provider.Provider {
+  return {
+    id: 'gemini',
+    supports: () => true,
+    validate: () => [],
+    request(model, body, stream) {
+      return {
+        url: stream
+          ? `${BASE_URL}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+          : `${BASE_URL}/models/${model}:generateContent?key=${apiKey}`,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      };
+    },
+    response: body => body,
+    stream: upstream => upstream,
+  };
+}
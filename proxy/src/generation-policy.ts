@@ -0,0 +1,194 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Deployment-level generation settings.
+ *
+ * A deployment can set defaults for `generationConfig` fields and per-category
+ * `safetySettings` that clients leave out, cap numeric generation fields, and
+ * restrict safety thresholds to a range. Defaults are merged into the
+ * forwarded body and numbers outside their caps are clamped; a threshold
+ * outside the range is rejected, since quietly changing how much gets
+ * blocked would be more surprising than an error. Every change is reported
+ * in the `X-Proxy-Adjusted` response header as `<path>=<action>` pairs.
+ */
+
+import * as Json from './json';
+
+export const HEADER = 'X-Proxy-Adjusted';
+
+// Least to most strict; `OFF` blocks as little as `BLOCK_NONE`
+export const THRESHOLDS = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'] as const;
+
+export type Threshold = (typeof THRESHOLDS)[number];
+
+export const NUMERIC_FIELDS = ['temperature', 'topP', 'topK', 'maxOutputTokens', 'candidateCount'] as const;
+
+export type NumericField = (typeof NUMERIC_FIELDS)[number];
+
+export interface Range {
+  min: number | null;
+  max: number | null;
+}
+
+export interface Policy {
+  generationConfig: Record<string, unknown>;
+  // Threshold per harm category
+  safetySettings: Record<string, Threshold>;
+  limits: Partial<Record<NumericField, Range>>;
+  // Loosest and strictest thresholds a request may set
+  safetyRange: { min: Threshold; max: Threshold };
+}
+
+export type Action = 'default' | 'clamped';
+
+export interface Adjustment {
+  path: string;
+  action: Action;
+}
+
+export type Result =
+  { ok: true; body: unknown; adjustments: Adjustment[] } | { ok: false; error: Record<string, unknown> };
+
+export function isThreshold(value: unknown): value is Threshold {
+  return THRESHOLDS.some(threshold => threshold === value);
+}
+
+function isNumericField(value: string): value is NumericField {
+  return NUMERIC_FIELDS.some(field => field === value);
+}
+
+function rank(threshold: unknown): number {
+  return THRESHOLDS.findIndex(known => known === (threshold === 'OFF' ? 'BLOCK_NONE' : threshold));
+}
+
+function parseRecord(text: string | undefined): Record<string, unknown> {
+  const parsed = text === undefined ? undefined : Json.parse(text);
+  return Json.isRecord(parsed) ? parsed : {};
+}
+
+function bound(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Read the policy from environment variables. Malformed entries are skipped,
+ * so a deployment without any of them forwards bodies untouched.
+ */
+export function configure(vars: {
+  defaults: string | undefined;
+  limits: string | undefined;
+  safetyDefaults: string | undefined;
+  minThreshold: string | undefined;
+  maxThreshold: string | undefined;
+}): Policy {
+  const limits: Partial<Record<NumericField, Range>> = {};
+  for (const [field, range] of Object.entries(parseRecord(vars.limits))) {
+    if (isNumericField(field) && Json.isRecord(range)) {
+      limits[field] = { min: bound(range['min']), max: bound(range['max']) };
+    }
+  }
+  const safetySettings: Record<string, Threshold> = {};
+  for (const [category, threshold] of Object.entries(parseRecord(vars.safetyDefaults))) {
+    if (isThreshold(threshold)) {
+      safetySettings[category] = threshold;
+    }
+  }
+  return {
+    generationConfig: parseRecord(vars.defaults),
+    safetySettings,
+    limits,
+    safetyRange: {
+      min: isThreshold(vars.minThreshold) ? vars.minThreshold : 'BLOCK_NONE',
+      max: isThreshold(vars.maxThreshold) ? vars.maxThreshold : 'BLOCK_LOW_AND_ABOVE',
+    },
+  };
+}
+
+function unrestricted(policy: Policy): boolean {
+  return policy.safetyRange.min === 'BLOCK_NONE' && policy.safetyRange.max === 'BLOCK_LOW_AND_ABOVE';
+}
+
+function clamp(value: number, range: Range): number {
+  return Math.min(Math.max(value, range.min ?? value), range.max ?? value);
+}
+
+function applyGenerationConfig(
+  policy: Policy,
+  requested: unknown,
+  adjustments: Adjustment[]
+): Record<string, unknown> | null {
+  const config: Record<string, unknown> = { ...(Json.isRecord(requested) ? requested : {}) };
+  for (const [field, value] of Object.entries(policy.generationConfig)) {
+    if (config[field] === undefined) {
+      config[field] = value;
+      adjustments.push({ path: `generationConfig.${field}`, action: 'default' });
+    }
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const value = config[field];
+    const range = policy.limits[field];
+    if (typeof value === 'number' && range && clamp(value, range) !== value) {
+      config[field] = clamp(value, range);
+      adjustments.push({ path: `generationConfig.${field}`, action: 'clamped' });
+    }
+  }
+  return Object.keys(config).length > 0 ? config : null;
+}
+
+/**
+ * Apply the policy to a validated generateContent body.
+ */
+export function apply(policy: Policy, body: unknown): Result {
+  if (!Json.isRecord(body)) {
+    return { ok: true, body, adjustments: [] };
+  }
+  const requested = Array.isArray(body['safetySettings']) ? body['safetySettings'] : [];
+  if (!unrestricted(policy)) {
+    const low = rank(policy.safetyRange.min);
+    const high = rank(policy.safetyRange.max);
+    const rejected = requested.filter(setting => {
+      const level = Json.isRecord(setting) ? rank(setting['threshold']) : -1;
+      return level < low || level > high;
+    });
+    if (rejected.length > 0) {
+      return {
+        ok: false,
+        error: {
+          error: `Safety thresholds must be between ${policy.safetyRange.min} and ${policy.safetyRange.max}`,
+          code: 'safety_threshold_not_allowed',
+          allowed: THRESHOLDS.slice(low, high + 1),
+        },
+      };
+    }
+  }
+
+  const adjustments: Adjustment[] = [];
+  const config = applyGenerationConfig(policy, body['generationConfig'], adjustments);
+  const categories = new Set(requested.map(setting => (Json.isRecord(setting) ? setting['category'] : undefined)));
+  const safetyDefaults = Object.entries(policy.safetySettings)
+    .filter(([category]) => !categories.has(category))
+    .map(([category, threshold]) => {
+      adjustments.push({ path: `safetySettings.${category}`, action: 'default' });
+      return { category, threshold };
+    });
+
+  if (adjustments.length === 0) {
+    return { ok: true, body, adjustments };
+  }
+  return {
+    ok: true,
+    body: {
+      ...body,
+      ...(config === null ? {} : { generationConfig: config }),
+      ...(safetyDefaults.length === 0 ? {} : { safetySettings: [...requested, ...safetyDefaults] }),
+    },
+    adjustments,
+  };
+}
+
+// Header value listing adjustments, or null when the body was forwarded as sent
+export function header(adjustments: Adjustment[]): string | null {
+  return adjustments.length === 0 ? null : adjustments.map(({ path, action }) => `${path}=${action}`).join(', ');
+}
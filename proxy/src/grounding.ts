@@ -0,0 +1,68 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Google Search grounding policy.
+ *
+ * Grounded calls cost more, so each key decides what happens to the
+ * search tools: `allow` forwards the client's choice, `deny` strips both
+ * `googleSearch` and the older `googleSearchRetrieval`, and `force` adds
+ * `googleSearch` for models that support grounding. The
+ * proxy reports a change in the `X-Proxy-Grounding` response header.
+ */
+
+import * as Json from './json';
+
+export type Policy = 'allow' | 'deny' | 'force';
+
+export type Action = 'stripped' | 'forced';
+
+export const HEADER = 'X-Proxy-Grounding';
+
+export function isPolicy(value: unknown): value is Policy {
+  return value === 'allow' || value === 'deny' || value === 'force';
+}
+
+const SEARCH_TOOLS: readonly string[] = ['googleSearch', 'googleSearchRetrieval'];
+
+function isSearchTool(tool: unknown): boolean {
+  return Json.isRecord(tool) && SEARCH_TOOLS.some(name => tool[name] !== undefined);
+}
+
+// Whether the request body enables Google Search grounding
+export function requested(body: unknown): boolean {
+  return Json.isRecord(body) && Array.isArray(body['tools']) && body['tools'].some(isSearchTool);
+}
+
+// Remove the search tools from each tool entry, dropping entries left empty
+function strip(body: Record<string, unknown>): Record<string, unknown> {
+  const tools = Array.isArray(body['tools']) ? body['tools'] : [];
+  const remaining = tools.flatMap(tool => {
+    if (!isSearchTool(tool) || !Json.isRecord(tool)) {
+      return [tool];
+    }
+    const rest = Object.entries(tool).filter(([name]) => !SEARCH_TOOLS.includes(name));
+    return rest.length > 0 ? [Object.fromEntries(rest)] : [];
+  });
+  const rest = Object.fromEntries(Object.entries(body).filter(([name]) => name !== 'tools'));
+  return remaining.length > 0 ? { ...rest, tools: remaining } : rest;
+}
+
+/**
+ * Apply a key's policy to a request body. `supported` is whether the target
+ * model can ground at all; grounding is never forced onto models that cannot.
+ */
+export function apply(policy: Policy, body: unknown, supported: boolean): { body: unknown; action: Action | null } {
+  if (!Json.isRecord(body)) {
+    return { body, action: null };
+  }
+  if (policy === 'deny' && requested(body)) {
+    return { body: strip(body), action: 'stripped' };
+  }
+  if (policy === 'force' && supported && !requested(body)) {
+    const tools = Array.isArray(body['tools']) ? body['tools'] : [];
+    return { body: { ...body, tools: [...tools, { googleSearch: {} }] }, action: 'forced' };
+  }
+  return { body, action: null };
+}
@@ -0,0 +1,163 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Image generation policy and response post-processing.
+ *
+ * Image requests go to the image-capable model and may only carry the
+ * reference image types and counts allowed here. Generated images at or
+ * above `offloadBytes` can be moved out of the response into a blob store;
+ * their `inlineData` part is replaced by a `fileData` part pointing at a
+ * short-lived URL, keeping the JSON small for the app's decoder.
+ */
+
+import * as Blobs from './blobs';
+import * as Config from './config';
+import * as Json from './json';
+import * as Models from './models';
+import * as Validation from './validation';
+
+export const MODEL: Models.ModelId = 'gemini-2.5-flash-image';
+
+export const MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+export interface Limits {
+  maxInputImages: number;
+  maxOutputImages: number;
+  offloadBytes: number;
+  ttlSeconds: number;
+}
+
+export const DEFAULT_LIMITS: Limits = {
+  maxInputImages: 3,
+  maxOutputImages: 4,
+  offloadBytes: 256 * 1024,
+  ttlSeconds: 3600,
+};
+
+// Blob IDs end up in storage keys: no path separators
+const ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+export function configure(vars: { [K in keyof Limits]?: string | undefined }): Limits {
+  return {
+    maxInputImages: Config.positiveInt(vars.maxInputImages, DEFAULT_LIMITS.maxInputImages),
+    maxOutputImages: Config.positiveInt(vars.maxOutputImages, DEFAULT_LIMITS.maxOutputImages),
+    offloadBytes: Config.positiveInt(vars.offloadBytes, DEFAULT_LIMITS.offloadBytes),
+    ttlSeconds: Config.positiveInt(vars.ttlSeconds, DEFAULT_LIMITS.ttlSeconds),
+  };
+}
+
+export function isId(value: string): boolean {
+  return ID_PATTERN.test(value);
+}
+
+export function blobKey(id: string): string {
+  return `images/${id}`;
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(Json.isRecord) : [];
+}
+
+function mimeTypeOf(part: Record<string, unknown>): unknown {
+  for (const field of ['inlineData', 'fileData']) {
+    const data = part[field];
+    if (Json.isRecord(data)) {
+      return data['mimeType'];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check an already validated generateContent body against the image limits.
+ * Returns an empty list when the body is within them.
+ */
+export function validate(body: unknown, limits: Limits): Validation.FieldError[] {
+  const errors: Validation.FieldError[] = [];
+  const request = Json.isRecord(body) ? body : {};
+  let images = 0;
+
+  records(request['contents']).forEach((content, i) => {
+    records(content['parts']).forEach((part, j) => {
+      const mimeType = mimeTypeOf(part);
+      if (mimeType === undefined) {
+        return;
+      }
+      images += 1;
+      if (typeof mimeType !== 'string' || !MIME_TYPES.some(allowed => allowed === mimeType)) {
+        const field = part['inlineData'] === undefined ? 'fileData' : 'inlineData';
+        errors.push({
+          path: `contents[${i}].parts[${j}].${field}.mimeType`,
+          message: `Expected one of: ${MIME_TYPES.join(', ')}`,
+        });
+      }
+    });
+  });
+  if (images > limits.maxInputImages) {
+    errors.push({ path: 'contents', message: `Expected at most ${limits.maxInputImages} images` });
+  }
+
+  const config = Json.isRecord(request['generationConfig']) ? request['generationConfig'] : {};
+  const candidateCount = config['candidateCount'];
+  if (typeof candidateCount === 'number' && candidateCount > limits.maxOutputImages) {
+    errors.push({
+      path: 'generationConfig.candidateCount',
+      message: `Expected at most ${limits.maxOutputImages} candidates`,
+    });
+  }
+  return errors;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), char => char.charCodeAt(0));
+}
+
+/**
+ * Move large inline images of a generateContent response into the blob
+ * store. `urlFor` turns a blob ID into the URL the client fetches it from.
+ */
+export async function offload(
+  body: unknown,
+  store: Blobs.BlobStore,
+  limits: Limits,
+  generateId: () => string,
+  urlFor: (id: string) => string
+): Promise<unknown> {
+  if (!Json.isRecord(body) || !Array.isArray(body['candidates'])) {
+    return body;
+  }
+
+  const movePart = async (part: unknown): Promise<unknown> => {
+    if (!Json.isRecord(part) || !Json.isRecord(part['inlineData'])) {
+      return part;
+    }
+    const { mimeType, data } = part['inlineData'];
+    if (
+      typeof mimeType !== 'string' ||
+      typeof data !== 'string' ||
+      Validation.base64Bytes(data) < limits.offloadBytes
+    ) {
+      return part;
+    }
+    const id = generateId();
+    await store.put(blobKey(id), { bytes: decodeBase64(data), mimeType }, limits.ttlSeconds);
+    const moved = Object.fromEntries(Object.entries(part).filter(([field]) => field !== 'inlineData'));
+    return { ...moved, fileData: { mimeType, fileUri: urlFor(id) } };
+  };
+
+  const candidates = await Promise.all(
+    body['candidates'].map(async candidate => {
+      if (!Json.isRecord(candidate) || !Json.isRecord(candidate['content'])) {
+        return candidate;
+      }
+      const content = candidate['content'];
+      if (!Array.isArray(content['parts'])) {
+        return candidate;
+      }
+      return { ...candidate, content: { ...content, parts: await Promise.all(content['parts'].map(movePart)) } };
+    })
+  );
+  return { ...body, candidates };
+}
@@ -2,82 +2,1137 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
+import * as Blobs from './blobs';
+import * as Catalog from './catalog';
+import * as Cors from './cors';
+import * as Config from './config';
+import * as ContextCache from './context-cache';
+import * as Errors from './errors';
+import * as Files from './files';
+import * as Gemini from './gemini';
+import * as GenerationPolicy from './generation-policy';
+import * as Grounding from './grounding';
+import * as Images from './images';
+import * as Json from './json';
+import * as Keys from './keys';
+import * as Log from './log';
+import * as Mock from './mock';
+import * as Models from './models';
+import * as OpenAi from './openai';
+import * as Pricing from './pricing';
+import * as Provider from './provider';
+import * as RateLimit from './rate-limit';
+import * as ResponseCache from './response-cache';
+import * as Retry from './retry';
+import * as Router from './router';
+import * as Signing from './signing';
+import * as Store from './store';
+import * as Stream from './stream';
+import * as Usage from './usage';
+import * as Validation from './validation';
+
 export interface Env {
   GEMINI_API_KEY: string;
-  PROXY_API_KEY: string;
+  // Comma-separated CORS origins; defaults to the app, landing site and localhost
+  ALLOWED_ORIGINS?: string;
+  // Legacy shared key, accepted as key ID `default`
+  PROXY_API_KEY?: string;
+  // JSON key table; ignored when KEYS_KV is bound
+  PROXY_KEYS?: string;
+  KEYS_KV?: KVNamespace;
+  RATE_LIMIT_PER_MINUTE?: string;
+  DAILY_REQUEST_QUOTA?: string;
+  DAILY_TOKEN_QUOTA?: string;
+  RATE_LIMIT_KV?: KVNamespace;
+  MAX_REQUEST_BYTES?: string;
+  MAX_INLINE_DATA_BYTES?: string;
+  MAX_MESSAGES?: string;
+  // Prompt content in audit logs: off (default), text, or full
+  LOG_PROMPTS?: string;
+  RETRY_MAX_ATTEMPTS?: string;
+  RETRY_BASE_DELAY_MS?: string;
+  RETRY_MAX_DELAY_MS?: string;
+  RETRY_BUDGET_MS?: string;
+  // JSON map of model ID to fallback model ID
+  MODEL_FALLBACKS?: string;
+  RESPONSE_CACHE_TTL?: string;
+  // Response cache; the Cache API is used when unbound
+  RESPONSE_CACHE_KV?: KVNamespace;
+  // OpenAI-compatible provider; OPENAI_MODELS maps registry models to upstream names
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_MODELS?: string;
+  // Image route limits; large generated images move to IMAGE_BUCKET when bound
+  IMAGE_MAX_INPUTS?: string;
+  IMAGE_MAX_OUTPUTS?: string;
+  IMAGE_OFFLOAD_BYTES?: string;
+  IMAGE_URL_TTL?: string;
+  IMAGE_BUCKET?: R2Bucket;
+  // JSON map of model ID to { inputPerMillion, outputPerMillion } USD prices for estimates
+  MODEL_PRICES?: string;
+  // Context cache owners; kept in memory per isolate when unbound
+  CONTEXT_CACHE_KV?: KVNamespace;
+  // Answer from the offline Gemini stand-in instead of Google ("1" or "true")
+  MOCK_MODE?: string;
+  // JSON map of prompt keyword to { status, body } mock responses
+  MOCK_FIXTURES?: string;
+  // Largest file accepted by the Files API upload route, in bytes
+  FILE_MAX_BYTES?: string;
+  // File owners; kept in memory per isolate when unbound
+  FILES_KV?: KVNamespace;
+  // JSON generationConfig fields added to requests that leave them out
+  GENERATION_DEFAULTS?: string;
+  // JSON map of numeric generationConfig field to { min?, max? }; values outside are clamped
+  GENERATION_LIMITS?: string;
+  // JSON map of harm category to the threshold used when a request sets none
+  SAFETY_DEFAULTS?: string;
+  // Loosest and strictest safety thresholds a request may set
+  SAFETY_MIN_THRESHOLD?: string;
+  SAFETY_MAX_THRESHOLD?: string;
+  // Accepted clock difference for signed requests, in seconds (default 300)
+  SIGNATURE_MAX_SKEW?: string;
+  // Reject bearer tokens and accept only signed requests ("1" or "true")
+  REQUIRE_SIGNATURES?: string;
+  // Nonces of recent signed requests; kept in memory per isolate when unbound
+  NONCE_KV?: KVNamespace;
 }
 
-const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+/**
+ * Stateful collaborators, injectable for tests.
+ */
+export interface Services {
+  keys: Keys.Table;
+  rateLimitStore: Store.Store;
+  responseCache: Store.Store;
+  // Which key created each context cache
+  contextCaches: Store.Store;
+  // Which key uploaded each file
+  files: Store.Store;
+  // Nonces of signed requests still inside the skew window
+  nonces: Store.Store;
+  // Generated images stay inline when null
+  imageBlobs: Blobs.BlobStore | null;
+  // Upstream HTTP, answered offline in mock mode
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  now: () => number;
+  generateId: () => string;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+  logger: Log.Logger;
+}
+
+// Used when no KV namespace is bound (tests, `wrangler dev`); per-isolate only
+const fallbackRateLimitStore = Store.memoryStore();
+const fallbackResponseCache = Store.memoryStore();
+const fallbackContextCaches = Store.memoryStore();
+const fallbackFiles = Store.memoryStore();
+const fallbackNonces = Store.memoryStore();
+
+const DEFAULT_SIGNATURE_MAX_SKEW = 300;
+
+function responseCache(env: Env): Store.Store {
+  if (env.RESPONSE_CACHE_KV) {
+    return Store.kvStore(env.RESPONSE_CACHE_KV);
+  }
+  // The Cache API is missing outside the Workers runtime
+  return typeof caches === 'undefined' ? fallbackResponseCache : Store.cacheApiStore(caches.default);
+}
+
+export function createServices(env: Env): Services {
+  return {
+    keys: env.KEYS_KV ? Keys.fromKv(env.KEYS_KV) : Keys.fromJson(env.PROXY_KEYS),
+    rateLimitStore: env.RATE_LIMIT_KV ? Store.kvStore(env.RATE_LIMIT_KV) : fallbackRateLimitStore,
+    responseCache: responseCache(env),
+    contextCaches: env.CONTEXT_CACHE_KV ? Store.kvStore(env.CONTEXT_CACHE_KV) : fallbackContextCaches,
+    files: env.FILES_KV ? Store.kvStore(env.FILES_KV) : fallbackFiles,
+    nonces: env.NONCE_KV ? Store.kvStore(env.NONCE_KV) : fallbackNonces,
+    imageBlobs: env.IMAGE_BUCKET ? Blobs.r2BlobStore(env.IMAGE_BUCKET) : null,
+    fetch: Mock.isEnabled(env.MOCK_MODE)
+      ? Mock.upstream(Mock.parseFixtures(env.MOCK_FIXTURES))
+      : (url, init) => fetch(url, init),
+    now: Date.now,
+    generateId: () => crypto.randomUUID(),
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+    random: Math.random,
+    logger: Log.consoleLogger,
+  };
+}
 
-function jsonResponse(body: Record<string, unknown>, status: number): Response {
+function createProvider(id: Provider.ProviderId, env: Env): Provider.Provider {
+  switch (id) {
+    case 'gemini':
+      return Gemini.provider(env.GEMINI_API_KEY);
+    case 'openai':
+      return OpenAi.provider(
+        OpenAi.configure({ baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY, models: env.OPENAI_MODELS })
+      );
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(body), {
     status,
     headers: {
       'Content-Type': 'application/json',
-      ...CORS_HEADERS,
+      ...headers,
     },
   });
 }
 
-export async function handleRequest(request: Request, env: Env): Promise<Response> {
-  // Handle CORS preflight
-  if (request.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 200,
-      headers: CORS_HEADERS,
-    });
+/**
+ * Per-request state shared by endpoint handlers. `headers` carries the CORS
+ * and request ID headers every response gets; handlers record what they
+ * learn about the request in `audit`.
+ */
+interface RequestContext {
+  request: Request;
+  url: URL;
+  env: Env;
+  services: Services;
+  requestId: string;
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  audit: Log.Fields;
+}
+
+interface AuthenticatedContext extends RequestContext {
+  key: Keys.KeyRecord;
+}
+
+type Endpoint =
+  | { authenticated: false; handle: (context: RequestContext) => Promise<Response> }
+  | { authenticated: true; handle: (context: AuthenticatedContext) => Promise<Response> };
+
+async function health(context: RequestContext): Promise<Response> {
+  return jsonResponse({ status: 'ok' }, 200, context.headers);
+}
+
+// Resolve the `provider` query parameter, answering 400 for unknown providers
+function selectProvider(context: RequestContext): Provider.Provider | Response {
+  const providerId = context.url.searchParams.get('provider') ?? Provider.DEFAULT_PROVIDER;
+  if (!Provider.isProviderId(providerId)) {
+    return jsonResponse(
+      { error: `Unknown provider: ${providerId}`, code: 'unknown_provider', allowed: Provider.PROVIDER_IDS },
+      400,
+      context.headers
+    );
   }
+  return createProvider(providerId, context.env);
+}
 
-  // Only allow POST
-  if (request.method !== 'POST') {
-    return jsonResponse({ error: 'Method not allowed' }, 405);
+async function listModels(context: AuthenticatedContext): Promise<Response> {
+  const { env, services, key } = context;
+  const provider = selectProvider(context);
+  if (provider instanceof Response) {
+    return provider;
   }
 
-  // Validate Authorization header
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader) {
-    return jsonResponse({ error: 'Missing Authorization header' }, 401);
+  // The catalog shares the response cache store under its own key
+  const catalog = await Catalog.load(services.responseCache, () =>
+    services.fetch(Gemini.modelsUrl(env.GEMINI_API_KEY))
+  );
+  const models = catalog.entries.filter(entry => Keys.allowsModel(key, entry.id) && provider.supports(entry.id));
+  return jsonResponse({ models, default: Models.DEFAULT_MODEL, source: catalog.source }, 200, context.headers);
+}
+
+/**
+ * Read and validate a generateContent body, answering 413 or 400 when it
+ * cannot be forwarded. `check` adds endpoint-specific rules, applied once
+ * the body is well-formed.
+ */
+async function readBody(
+  context: RequestContext,
+  check: (body: unknown) => Validation.FieldError[] = () => []
+): Promise<{ body: unknown } | Response> {
+  const { request, env, audit } = context;
+  const validationLimits = Validation.configure({
+    maxRequestBytes: env.MAX_REQUEST_BYTES,
+    maxInlineDataBytes: env.MAX_INLINE_DATA_BYTES,
+    maxMessages: env.MAX_MESSAGES,
+  });
+  const tooLarge = { error: `Request body exceeds ${validationLimits.maxRequestBytes} bytes`, code: 'body_too_large' };
+  if (Number(request.headers.get('Content-Length') ?? 0) > validationLimits.maxRequestBytes) {
+    return jsonResponse(tooLarge, 413, context.headers);
+  }
+  const text = await request.text();
+  if (Validation.byteLength(text) > validationLimits.maxRequestBytes) {
+    return jsonResponse(tooLarge, 413, context.headers);
+  }
+  const body = Json.parse(text);
+  if (body === undefined) {
+    return jsonResponse({ error: 'Request body is not valid JSON', code: 'invalid_json' }, 400, context.headers);
+  }
+  audit.prompt = Log.prompt(body, Log.configure(env.LOG_PROMPTS));
+  const fieldErrors = Validation.validate(body, validationLimits);
+  if (fieldErrors.length === 0) {
+    fieldErrors.push(...check(body));
   }
+  if (fieldErrors.length > 0) {
+    return jsonResponse(
+      { error: 'Invalid request body', code: 'invalid_body', errors: fieldErrors },
+      400,
+      context.headers
+    );
+  }
+  return { body };
+}
+
+/**
+ * How a generate endpoint answers: a whole response, a stream, or a whole
+ * response from the image model with large images offloaded.
+ */
+type Mode = 'generate' | 'stream' | 'image';
 
-  // Extract and validate API key
-  const apiKey = authHeader.replace('Bearer ', '');
-  if (apiKey !== env.PROXY_API_KEY) {
-    return jsonResponse({ error: 'Invalid API key' }, 403);
+// Count one request against the key's rate limit and daily quotas; the headers to answer with, or a 429
+async function chargeQuota(context: AuthenticatedContext): Promise<Record<string, string> | Response> {
+  const { env, services, key } = context;
+  const limits = RateLimit.configure({
+    requestsPerMinute: env.RATE_LIMIT_PER_MINUTE,
+    requestsPerDay: env.DAILY_REQUEST_QUOTA,
+    tokensPerDay: env.DAILY_TOKEN_QUOTA,
+  });
+  const decision = await RateLimit.consume(services.rateLimitStore, limits, key.id, services.now());
+  const headers = { ...context.headers, ...RateLimit.headers(decision) };
+  if (!decision.allowed) {
+    return jsonResponse({ error: 'Rate limit exceeded', code: decision.reason }, 429, headers);
   }
+  return headers;
+}
 
-  // Get model from query params
-  const url = new URL(request.url);
-  const model = url.searchParams.get('model') || 'gemini-2.5-flash';
+async function generate(context: AuthenticatedContext, mode: Mode): Promise<Response> {
+  const { request, url, env, services, requestId, key, audit } = context;
+  const keyId = key.id;
+  const stream = mode === 'stream';
+  audit.stream = stream;
 
-  // Forward to Gemini
-  const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${env.GEMINI_API_KEY}`;
+  const recordTokens = (usage: Usage.Usage | null): Promise<void> => {
+    audit.usage = usage;
+    return RateLimit.recordTokens(services.rateLimitStore, keyId, usage?.totalTokens ?? 0, services.now());
+  };
 
-  try {
-    const geminiResponse = await fetch(geminiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+  // Resolve model against the registry; image requests always use the image model
+  const resolution: Models.Resolution =
+    mode === 'image' ? { ok: true, model: Models.MODELS[Images.MODEL] } : Models.resolve(url.searchParams.get('model'));
+  if (!resolution.ok) {
+    return jsonResponse(resolution.error, 400, context.headers);
+  }
+  const model = resolution.model.id;
+  audit.model = model;
+  if (!Keys.allowsModel(key, model)) {
+    return jsonResponse(
+      { error: `Model ${model} is not allowed for this key`, code: 'model_not_allowed', model },
+      403,
+      context.headers
+    );
+  }
+
+  // Route to the requested provider
+  const provider = selectProvider(context);
+  if (provider instanceof Response) {
+    return provider;
+  }
+  audit.provider = provider.id;
+  if (!provider.supports(model)) {
+    return jsonResponse(
+      {
+        error: `Model ${model} is not available from provider ${provider.id}`,
+        code: 'model_unavailable',
+        model,
+        provider: provider.id,
       },
-      body: request.body,
+      400,
+      context.headers
+    );
+  }
+
+  // Validate body size and shape before spending an upstream call
+  const imageLimits = Images.configure({
+    maxInputImages: env.IMAGE_MAX_INPUTS,
+    maxOutputImages: env.IMAGE_MAX_OUTPUTS,
+    offloadBytes: env.IMAGE_OFFLOAD_BYTES,
+    ttlSeconds: env.IMAGE_URL_TTL,
+  });
+  const read = await readBody(context, body => [
+    ...(mode === 'image' ? Images.validate(body, imageLimits) : []),
+    ...provider.validate(body),
+  ]);
+  if (read instanceof Response) {
+    return read;
+  }
+
+  // Merge deployment defaults and caps before checking model limits
+  const generationPolicy = GenerationPolicy.configure({
+    defaults: env.GENERATION_DEFAULTS,
+    limits: env.GENERATION_LIMITS,
+    safetyDefaults: env.SAFETY_DEFAULTS,
+    minThreshold: env.SAFETY_MIN_THRESHOLD,
+    maxThreshold: env.SAFETY_MAX_THRESHOLD,
+  });
+  const adjusted = GenerationPolicy.apply(generationPolicy, read.body);
+  if (!adjusted.ok) {
+    return jsonResponse(adjusted.error, 400, context.headers);
+  }
+  const parsedBody = adjusted.body;
+  const adjustedHeader = GenerationPolicy.header(adjusted.adjustments);
+  const policyHeaders: Record<string, string> =
+    adjustedHeader === null ? {} : { [GenerationPolicy.HEADER]: adjustedHeader };
+
+  // Enforce per-model limits and key scopes
+  const limitError = Models.checkLimits(resolution.model, parsedBody);
+  if (limitError) {
+    return jsonResponse(limitError, 400, context.headers);
+  }
+
+  // Only the key that uploaded a file may reference it
+  const unknownFile = await foreignFile(context, parsedBody, context.headers);
+  if (unknownFile) {
+    return unknownFile;
+  }
+
+  const cacheId = ContextCache.referenced(parsedBody);
+  const cacheError = await checkCacheUse(context, cacheId, model, provider.id, context.headers);
+  if (cacheError) {
+    return cacheError;
+  }
+
+  // Charge the key's rate limit and daily quotas only for requests that passed validation
+  const responseHeaders = await chargeQuota(context);
+  if (responseHeaders instanceof Response) {
+    return responseHeaders;
+  }
+
+  // Apply the key's grounding policy; cached requests may not add tools
+  const grounding = Grounding.apply(key.grounding, parsedBody, Models.MODEL_INFO[model].grounding && cacheId === null);
+  const forwardedBody = grounding.body;
+  const groundingHeaders: Record<string, string> = grounding.action ? { [Grounding.HEADER]: grounding.action } : {};
+  audit.grounding = Grounding.requested(forwardedBody);
+
+  // Serve repeatable requests from the response cache; offloaded image URLs expire, so images are not cached
+  let cacheKey: string | null = null;
+  let cacheHeaders: Record<string, string> = {};
+  if (mode === 'generate' && ResponseCache.isCacheable(forwardedBody)) {
+    if (ResponseCache.bypassed(request.headers.get('Cache-Control'))) {
+      cacheHeaders = { 'X-Cache': 'BYPASS' };
+      audit.cache = 'BYPASS';
+    } else {
+      cacheKey = await ResponseCache.key(provider.id, model, keyId, forwardedBody);
+      const cached = await ResponseCache.lookup(services.responseCache, cacheKey);
+      audit.cache = cached ? 'HIT' : 'MISS';
+      if (cached) {
+        audit.model = cached.model;
+        return new Response(cached.body, {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            ...responseHeaders,
+            ...groundingHeaders,
+            ...policyHeaders,
+            'X-Proxy-Model': cached.model,
+            'X-Cache': 'HIT',
+          },
+        });
+      }
+      cacheHeaders = { 'X-Cache': 'MISS' };
+    }
+  }
+
+  // Retry transient failures, falling back only to a model this key may use and whose limits the request fits
+  const retryPolicy = Retry.configure({
+    maxAttempts: env.RETRY_MAX_ATTEMPTS,
+    baseDelayMs: env.RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.RETRY_MAX_DELAY_MS,
+    budgetMs: env.RETRY_BUDGET_MS,
+  });
+  const fallback = Retry.parseFallbacks(env.MODEL_FALLBACKS)[model] ?? null;
+  const usableFallback =
+    fallback !== null &&
+    cacheId === null &&
+    provider.supports(fallback) &&
+    Keys.allowsModel(key, fallback) &&
+    !Models.checkLimits(Models.MODELS[fallback], parsedBody)
+      ? fallback
+      : null;
+
+  // Forward to the provider
+  const callUpstream = (target: Models.ModelId): Promise<Response> => {
+    const upstream = provider.request(target, forwardedBody, stream);
+    return services.fetch(upstream.url, {
+      method: 'POST',
+      headers: upstream.headers,
+      body: upstream.body,
+    });
+  };
+
+  try {
+    const outcome = await Retry.withFallback(model, usableFallback, callUpstream, retryPolicy, {
+      now: services.now,
+      sleep: services.sleep,
+      random: services.random,
     });
+    const upstreamResponse = outcome.response;
+    audit.model = outcome.model;
+    audit.attempts = outcome.attempts;
+    audit.upstreamStatus = upstreamResponse.status;
+    const upstreamHeaders = {
+      ...responseHeaders,
+      ...groundingHeaders,
+      ...policyHeaders,
+      ...cacheHeaders,
+      'X-Proxy-Model': outcome.model,
+    };
+
+    // Pipe successful streams through as Server-Sent Events, counting usage from the final chunk
+    if (stream && upstreamResponse.ok && upstreamResponse.body) {
+      let usage: Usage.Usage | null = null;
+      const observer: Stream.Observer = {
+        onEvent: data => {
+          usage = Usage.fromResponse(data) ?? usage;
+        },
+        onEnd: () => recordTokens(usage),
+        onError: message => Errors.envelope('stream_interrupted', message, true, null, null, requestId),
+      };
+      return new Response(Stream.passThrough(provider.stream(upstreamResponse.body), observer), {
+        status: upstreamResponse.status,
+        headers: {
+          ...Stream.SSE_HEADERS,
+          ...upstreamHeaders,
+        },
+      });
+    }
+
+    // Normalize upstream failures and blocked prompts into the error envelope
+    const upstreamBody = await upstreamResponse.text();
+    const parsedUpstream = Json.parse(upstreamBody);
+    const translated =
+      upstreamResponse.ok && parsedUpstream !== undefined ? provider.response(parsedUpstream) : parsedUpstream;
+    const imageBlobs = services.imageBlobs;
+    const parsedResponse =
+      mode === 'image' && upstreamResponse.ok && imageBlobs
+        ? await Images.offload(translated, imageBlobs, imageLimits, services.generateId, id =>
+            new URL(`/v1/images/${id}`, url).toString()
+          )
+        : translated;
+    // Identity translations that moved no images keep the upstream bytes
+    const responseBody = parsedResponse === parsedUpstream ? upstreamBody : JSON.stringify(parsedResponse);
+    await recordTokens(Usage.fromResponse(parsedResponse));
+    const failure = upstreamResponse.ok
+      ? Errors.fromBlockedPrompt(parsedResponse, requestId)
+      : Errors.fromUpstream(upstreamResponse.status, parsedResponse, requestId);
+    if (failure) {
+      return jsonResponse(failure.body, failure.status, upstreamHeaders);
+    }
+    // A fallback's answer would otherwise be served as the requested model's
+    if (cacheKey !== null && upstreamResponse.ok && outcome.model === model) {
+      const ttl = ResponseCache.configure(env.RESPONSE_CACHE_TTL);
+      await ResponseCache.save(services.responseCache, cacheKey, { model: outcome.model, body: responseBody }, ttl);
+    }
 
     // Clone response and add CORS headers
-    const responseBody = await geminiResponse.text();
     return new Response(responseBody, {
-      status: geminiResponse.status,
+      status: upstreamResponse.status,
       headers: {
         'Content-Type': 'application/json',
-        ...CORS_HEADERS,
+        ...upstreamHeaders,
       },
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return jsonResponse({ error: `Proxy error: ${message}` }, 502);
+    const failure = Errors.fromNetworkError(error, requestId);
+    return jsonResponse(failure.body, failure.status, responseHeaders);
+  }
+}
+
+// Serve an offloaded image; the unguessable ID is the credential, so `<img>` tags can load it
+async function image(context: RequestContext): Promise<Response> {
+  const id = context.params['id'] ?? '';
+  const imageBlobs = context.services.imageBlobs;
+  const blob = imageBlobs && Images.isId(id) ? await imageBlobs.get(Images.blobKey(id)) : null;
+  if (!blob) {
+    return jsonResponse({ error: 'Image not found or expired', code: 'not_found' }, 404, context.headers);
+  }
+  return new Response(blob.bytes, {
+    status: 200,
+    headers: {
+      ...context.headers,
+      'Content-Type': blob.mimeType,
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
+
+// Resolve the `model` query parameter to a model this key may use
+function selectModel(context: AuthenticatedContext): Models.ModelId | Response {
+  const resolution = Models.resolve(context.url.searchParams.get('model'));
+  if (!resolution.ok) {
+    return jsonResponse(resolution.error, 400, context.headers);
+  }
+  const model = resolution.model.id;
+  context.audit.model = model;
+  if (!Keys.allowsModel(context.key, model)) {
+    return jsonResponse(
+      { error: `Model ${model} is not allowed for this key`, code: 'model_not_allowed', model },
+      403,
+      context.headers
+    );
+  }
+  return model;
+}
+
+// Only the key that created a context cache may use it, with the model it was created for
+async function checkCacheUse(
+  context: AuthenticatedContext,
+  cacheId: string | null,
+  model: Models.ModelId,
+  providerId: Provider.ProviderId,
+  headers: Record<string, string>
+): Promise<Response | null> {
+  if (cacheId === null) {
+    return null;
+  }
+  const owner = await ContextCache.ownerOf(context.services.contextCaches, cacheId);
+  if (owner === null || owner.keyId !== context.key.id) {
+    return jsonResponse({ error: `Unknown cached content: ${cacheId}`, code: 'unknown_cache' }, 404, headers);
+  }
+  if (owner.model !== model || providerId !== 'gemini') {
+    return jsonResponse(
+      {
+        error: `Cached content ${cacheId} can only be used with ${owner.model} from provider gemini`,
+        code: 'cache_model_mismatch',
+        model: owner.model,
+      },
+      400,
+      headers
+    );
+  }
+  return null;
+}
+
+// Count a generateContent body's tokens with Gemini and estimate its price; not rate limited
+async function countTokens(context: AuthenticatedContext): Promise<Response> {
+  const { env, services, requestId, audit } = context;
+  const model = selectModel(context);
+  if (model instanceof Response) {
+    return model;
+  }
+
+  const read = await readBody(context);
+  if (read instanceof Response) {
+    return read;
+  }
+  const unknownFile = await foreignFile(context, read.body, context.headers);
+  if (unknownFile) {
+    return unknownFile;
+  }
+  const cacheError = await checkCacheUse(context, ContextCache.referenced(read.body), model, 'gemini', context.headers);
+  if (cacheError) {
+    return cacheError;
+  }
+  const headers = await chargeQuota(context);
+  if (headers instanceof Response) {
+    return headers;
+  }
+
+  try {
+    const upstream = Gemini.countTokensRequest(env.GEMINI_API_KEY, model, read.body);
+    const response = await services.fetch(upstream.url, {
+      method: 'POST',
+      headers: upstream.headers,
+      body: upstream.body,
+    });
+    audit.upstreamStatus = response.status;
+    const parsed = Json.parse(await response.text());
+    if (!response.ok) {
+      const failure = Errors.fromUpstream(response.status, parsed, requestId);
+      return jsonResponse(failure.body, failure.status, headers);
+    }
+    const counts = Gemini.fromCountTokens(parsed);
+    if (counts === null) {
+      const failure = Errors.envelope('upstream_error', 'Unexpected countTokens response', true, 200, null, requestId);
+      return jsonResponse(failure, 502, headers);
+    }
+    const price = Pricing.configure(env.MODEL_PRICES)[model];
+    return jsonResponse(
+      {
+        model,
+        totalTokens: counts.totalTokens,
+        cachedTokens: counts.cachedTokens,
+        price,
+        estimate: Pricing.estimate(price, counts.totalTokens, Pricing.maxOutputTokens(read.body)),
+      },
+      200,
+      { ...headers, 'X-Proxy-Model': model }
+    );
+  } catch (error) {
+    return networkFailure({ ...context, headers }, error);
+  }
+}
+
+// Normalize a failed Files API or context cache call into the error envelope
+async function upstreamFailure(context: RequestContext, response: Response): Promise<Response> {
+  context.audit.upstreamStatus = response.status;
+  const failure = response.ok
+    ? {
+        status: 502,
+        body: Errors.envelope(
+          'upstream_error',
+          'Unexpected upstream response',
+          true,
+          response.status,
+          null,
+          context.requestId
+        ),
+      }
+    : Errors.fromUpstream(response.status, Json.parse(await response.text()), context.requestId);
+  return jsonResponse(failure.body, failure.status, context.headers);
+}
+
+function networkFailure(context: RequestContext, error: unknown): Response {
+  const failure = Errors.fromNetworkError(error, context.requestId);
+  return jsonResponse(failure.body, failure.status, context.headers);
+}
+
+// A 404 for the first Files API file in `body` this key did not upload, or null when it owns them all
+async function foreignFile(
+  context: AuthenticatedContext,
+  body: unknown,
+  headers: Record<string, string>
+): Promise<Response | null> {
+  for (const uri of Files.referenced(body)) {
+    const id = Files.idFromUri(uri);
+    const owner = id === null ? null : await Files.ownerOf(context.services.files, id);
+    if (owner === null || owner.keyId !== context.key.id) {
+      return jsonResponse({ error: `Unknown file: ${uri}`, code: 'unknown_file' }, 404, headers);
+    }
+  }
+  return null;
+}
+
+// Relay a raw file body to the Files API; `?name=` sets its display name
+async function uploadFile(context: AuthenticatedContext): Promise<Response> {
+  const { request, url, env, services, key, audit } = context;
+  const upload = Files.checkUpload(
+    request.headers.get('Content-Type'),
+    request.headers.get('Content-Length'),
+    Files.configure(env.FILE_MAX_BYTES)
+  );
+  if (!upload.ok) {
+    return jsonResponse(upload.body, upload.status, context.headers);
+  }
+
+  try {
+    const start = Files.startUpload(env.GEMINI_API_KEY, upload, url.searchParams.get('name'));
+    const session = await services.fetch(start.url, { method: 'POST', headers: start.headers, body: start.body });
+    const sessionUrl = session.headers.get('X-Goog-Upload-URL');
+    if (!session.ok || sessionUrl === null) {
+      return upstreamFailure(context, session);
+    }
+    await session.body?.cancel();
+
+    const finished = await services.fetch(sessionUrl, {
+      method: 'POST',
+      headers: Files.finishHeaders(upload.sizeBytes),
+      body: request.body,
+    });
+    const file = finished.ok ? Files.fromUploadResponse(Json.parse(await finished.clone().text())) : null;
+    if (!file) {
+      return upstreamFailure(context, finished);
+    }
+    audit.upstreamStatus = finished.status;
+    await Files.claim(services.files, file.id, { keyId: key.id });
+    return jsonResponse({ file }, 201, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+// List the files this key uploaded
+async function listFiles(context: AuthenticatedContext): Promise<Response> {
+  const { url, env, services, key, audit } = context;
+  const pageSize = Config.positiveInt(url.searchParams.get('pageSize') ?? undefined, Files.MAX_PAGE_SIZE);
+  try {
+    const response = await services.fetch(
+      Files.listUrl(env.GEMINI_API_KEY, pageSize, url.searchParams.get('pageToken'))
+    );
+    if (!response.ok) {
+      return upstreamFailure(context, response);
+    }
+    audit.upstreamStatus = response.status;
+    const page = Files.fromListResponse(Json.parse(await response.text()));
+    const owners = await Promise.all(page.files.map(file => Files.ownerOf(services.files, file.id)));
+    const files = page.files.filter((_file, i) => owners[i]?.keyId === key.id);
+    return jsonResponse({ files, nextPageToken: page.nextPageToken }, 200, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+async function deleteFile(context: AuthenticatedContext): Promise<Response> {
+  const { env, services, params, key, audit } = context;
+  const id = params['id'] ?? '';
+  const owner = Files.isId(id) ? await Files.ownerOf(services.files, id) : null;
+  if (owner === null || owner.keyId !== key.id) {
+    return jsonResponse({ error: `Unknown file: ${id}`, code: 'not_found' }, 404, context.headers);
+  }
+  try {
+    const response = await services.fetch(Files.fileUrl(env.GEMINI_API_KEY, id), { method: 'DELETE' });
+    if (!response.ok) {
+      return upstreamFailure(context, response);
+    }
+    audit.upstreamStatus = response.status;
+    await response.body?.cancel();
+    await Files.release(services.files, id);
+    return jsonResponse({ id, deleted: true }, 200, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+// Cache a generateContent body's contents for this key; `?ttl=` seconds, `?name=` display name
+async function createCache(context: AuthenticatedContext): Promise<Response> {
+  const { url, env, services, key, audit } = context;
+  const model = selectModel(context);
+  if (model instanceof Response) {
+    return model;
+  }
+  const read = await readBody(context, ContextCache.validate);
+  if (read instanceof Response) {
+    return read;
+  }
+  const unknownFile = await foreignFile(context, read.body, context.headers);
+  if (unknownFile) {
+    return unknownFile;
+  }
+
+  const charged = await chargeQuota(context);
+  if (charged instanceof Response) {
+    return charged;
+  }
+
+  // Requests that use the cache cannot change its tools, so the grounding policy applies here
+  const grounding = Grounding.apply(key.grounding, read.body, Models.MODEL_INFO[model].grounding);
+  const headers = grounding.action ? { ...charged, [Grounding.HEADER]: grounding.action } : charged;
+  audit.grounding = Grounding.requested(grounding.body);
+
+  try {
+    const ttl = ContextCache.ttlSeconds(url.searchParams.get('ttl'));
+    const upstream = ContextCache.createRequest(
+      env.GEMINI_API_KEY,
+      model,
+      grounding.body,
+      ttl,
+      url.searchParams.get('name')
+    );
+    const response = await services.fetch(upstream.url, {
+      method: 'POST',
+      headers: upstream.headers,
+      body: upstream.body,
+    });
+    const cache = response.ok ? ContextCache.fromUpstream(Json.parse(await response.clone().text())) : null;
+    if (!cache) {
+      return upstreamFailure({ ...context, headers }, response);
+    }
+    audit.upstreamStatus = response.status;
+    await ContextCache.claim(services.contextCaches, cache.id, { keyId: key.id, model }, ttl);
+    return jsonResponse({ cache }, 201, headers);
+  } catch (error) {
+    return networkFailure({ ...context, headers }, error);
+  }
+}
+
+// List the caches this key created
+async function listCaches(context: AuthenticatedContext): Promise<Response> {
+  const { url, env, services, key, audit } = context;
+  const pageSize = Config.positiveInt(url.searchParams.get('pageSize') ?? undefined, ContextCache.MAX_PAGE_SIZE);
+  try {
+    const response = await services.fetch(
+      ContextCache.listUrl(env.GEMINI_API_KEY, pageSize, url.searchParams.get('pageToken'))
+    );
+    if (!response.ok) {
+      return upstreamFailure(context, response);
+    }
+    audit.upstreamStatus = response.status;
+    const page = ContextCache.fromListResponse(Json.parse(await response.text()));
+    const owners = await Promise.all(page.caches.map(cache => ContextCache.ownerOf(services.contextCaches, cache.id)));
+    const caches = page.caches.filter((_cache, i) => owners[i]?.keyId === key.id);
+    return jsonResponse({ caches, nextPageToken: page.nextPageToken }, 200, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+// The owner of the cache named in the path, or a 404 for unknown and foreign caches
+async function ownedCache(
+  context: AuthenticatedContext
+): Promise<{ id: string; owner: ContextCache.Owner } | Response> {
+  const id = context.params['id'] ?? '';
+  const owner = ContextCache.isId(id) ? await ContextCache.ownerOf(context.services.contextCaches, id) : null;
+  if (owner === null || owner.keyId !== context.key.id) {
+    return jsonResponse({ error: `Unknown cached content: ${id}`, code: 'unknown_cache' }, 404, context.headers);
+  }
+  return { id, owner };
+}
+
+// Extend a cache's lifetime to `?ttl=` seconds from now
+async function refreshCache(context: AuthenticatedContext): Promise<Response> {
+  const { url, env, services, audit } = context;
+  const owned = await ownedCache(context);
+  if (owned instanceof Response) {
+    return owned;
+  }
+
+  try {
+    const ttl = ContextCache.ttlSeconds(url.searchParams.get('ttl'));
+    const upstream = ContextCache.refreshRequest(env.GEMINI_API_KEY, owned.id, ttl);
+    const response = await services.fetch(upstream.url, {
+      method: 'PATCH',
+      headers: upstream.headers,
+      body: upstream.body,
+    });
+    const cache = response.ok ? ContextCache.fromUpstream(Json.parse(await response.clone().text())) : null;
+    if (!cache) {
+      return upstreamFailure(context, response);
+    }
+    audit.upstreamStatus = response.status;
+    await ContextCache.claim(services.contextCaches, owned.id, owned.owner, ttl);
+    return jsonResponse({ cache }, 200, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+async function deleteCache(context: AuthenticatedContext): Promise<Response> {
+  const { env, services, audit } = context;
+  const owned = await ownedCache(context);
+  if (owned instanceof Response) {
+    return owned;
+  }
+
+  try {
+    const response = await services.fetch(ContextCache.cacheUrl(env.GEMINI_API_KEY, owned.id), { method: 'DELETE' });
+    if (!response.ok) {
+      return upstreamFailure(context, response);
+    }
+    audit.upstreamStatus = response.status;
+    await response.body?.cancel();
+    await ContextCache.release(services.contextCaches, owned.id);
+    return jsonResponse({ id: owned.id, deleted: true }, 200, context.headers);
+  } catch (error) {
+    return networkFailure(context, error);
+  }
+}
+
+const ROUTES: readonly Router.Route<Endpoint>[] = [
+  { method: 'GET', path: '/health', handler: { authenticated: false, handle: health } },
+  { method: 'GET', path: '/v1/models', handler: { authenticated: true, handle: listModels } },
+  {
+    method: 'POST',
+    path: '/v1/generate',
+    handler: { authenticated: true, handle: context => generate(context, 'generate') },
+  },
+  {
+    method: 'POST',
+    path: '/v1/stream',
+    handler: { authenticated: true, handle: context => generate(context, 'stream') },
+  },
+  { method: 'POST', path: '/v1/count-tokens', handler: { authenticated: true, handle: countTokens } },
+  {
+    method: 'POST',
+    path: '/v1/images',
+    handler: { authenticated: true, handle: context => generate(context, 'image') },
+  },
+  { method: 'GET', path: '/v1/images/:id', handler: { authenticated: false, handle: image } },
+  { method: 'POST', path: '/v1/files', handler: { authenticated: true, handle: uploadFile } },
+  { method: 'GET', path: '/v1/files', handler: { authenticated: true, handle: listFiles } },
+  { method: 'DELETE', path: '/v1/files/:id', handler: { authenticated: true, handle: deleteFile } },
+  { method: 'POST', path: '/v1/caches', handler: { authenticated: true, handle: createCache } },
+  { method: 'GET', path: '/v1/caches', handler: { authenticated: true, handle: listCaches } },
+  { method: 'PATCH', path: '/v1/caches/:id', handler: { authenticated: true, handle: refreshCache } },
+  { method: 'DELETE', path: '/v1/caches/:id', handler: { authenticated: true, handle: deleteCache } },
+  // Legacy endpoint: streaming selected with `?stream=1`
+  {
+    method: 'POST',
+    path: '/',
+    handler: {
+      authenticated: true,
+      handle: context => generate(context, context.url.searchParams.get('stream') === '1' ? 'stream' : 'generate'),
+    },
+  },
+];
+
+/**
+ * Authenticate by request signature when the signing headers are present,
+ * else by bearer token unless signatures are required.
+ */
+// Largest body any route accepts; routes apply their own, smaller limits after authentication
+function maxBodyBytes(env: Env): number {
+  const validationLimits = Validation.configure({
+    maxRequestBytes: env.MAX_REQUEST_BYTES,
+    maxInlineDataBytes: env.MAX_INLINE_DATA_BYTES,
+    maxMessages: env.MAX_MESSAGES,
+  });
+  return Math.max(validationLimits.maxRequestBytes, Files.configure(env.FILE_MAX_BYTES));
+}
+
+// Buffer a copy of the body, giving up with null once it passes `limit` bytes
+async function readCapped(request: Request, limit: number): Promise<Uint8Array | null> {
+  if (Number(request.headers.get('Content-Length') ?? 0) > limit) {
+    return null;
+  }
+  const body = request.clone().body;
+  if (body === null) {
+    return new Uint8Array();
+  }
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = body.getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    length += next.value.byteLength;
+    // Cancelling one branch of a clone waits for the other, so just stop reading
+    if (length > limit) {
+      reader.releaseLock();
+      return null;
+    }
+    chunks.push(next.value);
+  }
+  const bytes = new Uint8Array(length);
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.byteLength;
+  }, 0);
+  return bytes;
+}
+
+async function authenticate(
+  request: Request,
+  url: URL,
+  env: Env,
+  services: Services,
+  headers: Record<string, string>
+): Promise<Keys.AuthResult | Response> {
+  const signed = Signing.fromHeaders(request.headers);
+  if (signed === 'malformed') {
+    return { ok: false, status: 401, error: 'Malformed request signature headers', code: 'malformed_signature' };
+  }
+  if (signed !== null) {
+    // The body hash is checked before the key is known, so only buffer what some route would accept
+    const limit = maxBodyBytes(env);
+    const body = await readCapped(request, limit);
+    if (body === null) {
+      return jsonResponse({ error: `Request body exceeds ${limit} bytes`, code: 'body_too_large' }, 413, headers);
+    }
+    return Keys.authenticateSigned(
+      signed,
+      { method: request.method, path: url.pathname + url.search, body },
+      services.keys,
+      env.PROXY_API_KEY,
+      services.nonces,
+      services.now(),
+      Config.positiveInt(env.SIGNATURE_MAX_SKEW, DEFAULT_SIGNATURE_MAX_SKEW)
+    );
+  }
+  if (Config.flag(env.REQUIRE_SIGNATURES)) {
+    return { ok: false, status: 401, error: 'Requests must be signed', code: 'signature_required' };
+  }
+  return Keys.authenticate(request.headers.get('Authorization'), services.keys, env.PROXY_API_KEY, services.now());
+}
+
+// CORS and request ID headers every response carries
+function baseHeaders(request: Request, env: Env, requestId: string): Record<string, string> {
+  const allowedOrigins = Cors.configure(env.ALLOWED_ORIGINS);
+  return { ...Cors.headers(request.headers.get('Origin'), allowedOrigins), 'X-Request-Id': requestId };
+}
+
+async function dispatch(
+  request: Request,
+  env: Env,
+  services: Services,
+  requestId: string,
+  audit: Log.Fields
+): Promise<Response> {
+  const origin = request.headers.get('Origin');
+  const allowedOrigins = Cors.configure(env.ALLOWED_ORIGINS);
+  const headers = baseHeaders(request, env, requestId);
+
+  // Refuse browsers on origins outside the allow-list
+  if (origin !== null && !Cors.isAllowed(origin, allowedOrigins)) {
+    return jsonResponse({ error: 'Origin not allowed', code: 'origin_not_allowed' }, 403, headers);
+  }
+
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers,
+    });
+  }
+
+  const url = new URL(request.url);
+  const route = Router.match(ROUTES, request.method, url.pathname);
+  if (!route.ok) {
+    return route.status === 405
+      ? jsonResponse({ error: 'Method not allowed', code: 'method_not_allowed' }, 405, {
+          ...headers,
+          Allow: route.allow.join(', '),
+        })
+      : jsonResponse({ error: 'Not found', code: 'not_found' }, 404, headers);
+  }
+
+  const context = { request, url, env, services, requestId, headers, params: route.params, audit };
+  const endpoint = route.handler;
+  if (!endpoint.authenticated) {
+    return endpoint.handle(context);
+  }
+
+  const auth = await authenticate(request, url, env, services, headers);
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.ok) {
+    return jsonResponse({ error: auth.error, code: auth.code }, auth.status, headers);
+  }
+  audit.keyId = auth.key.id;
+  return endpoint.handle({ ...context, headers: { ...headers, 'X-Proxy-Key-Id': auth.key.id }, key: auth.key });
+}
+
+// Read the `code` of a JSON error response
+async function errorCode(response: Response): Promise<string | null> {
+  const body = Json.parse(await response.clone().text());
+  return Json.isRecord(body) && typeof body['code'] === 'string' ? body['code'] : null;
+}
+
+export async function handleRequest(
+  request: Request,
+  env: Env,
+  services: Services = createServices(env)
+): Promise<Response> {
+  const startedAt = services.now();
+  const requestId = services.generateId();
+  const audit: Log.Fields = {};
+  let response: Response;
+  try {
+    response = await dispatch(request, env, services, requestId, audit);
+  } catch (error) {
+    // A bug or an unexpected binding failure; answer with the usual envelope and keep the cause in the log
+    const failure = Errors.fromInternalError(requestId);
+    audit.error = error instanceof Error ? error.message : String(error);
+    response = jsonResponse(failure.body, failure.status, baseHeaders(request, env, requestId));
+  }
+
+  if (!response.ok) {
+    audit.errorCode = await errorCode(response);
+  }
+  const write = (): void => {
+    const path = new URL(request.url).pathname;
+    services.logger.write(
+      Log.record({ requestId, method: request.method, path }, response.status, startedAt, services.now(), audit)
+    );
+  };
+
+  // Streams are logged once finished, when their usage is known
+  if (audit.stream && response.ok && response.body) {
+    return new Response(Stream.onClose(response.body, write), response);
   }
+  write();
+  return response;
 }
 
 export default {
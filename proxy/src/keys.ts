@@ -0,0 +1,261 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Named client keys.
+ *
+ * Clients send `Authorization: Bearer <keyId>.<secret>`. The key table maps
+ * each ID to the SHA-256 hex digest of its secret plus its scopes, so one
+ * lab's key can be revoked or restricted without touching the others.
+ * Generate a digest with: `printf %s "$SECRET" | sha256sum`.
+ *
+ * The table comes from the `PROXY_KEYS` JSON variable or a KV namespace
+ * (one JSON record per key ID). The legacy shared `PROXY_API_KEY` is still
+ * accepted as key ID `default` with every scope.
+ *
+ * Clients that cannot keep a secret out of reach sign each request instead
+ * (see `signing.ts`); the signature proves the secret without sending it,
+ * and a nonce store rejects any signed request seen before. Only keys whose
+ * record has a `signingKey` can sign; unlike `secretHash` it is as sensitive
+ * as the secret itself.
+ */
+
+import * as Grounding from './grounding';
+import * as Json from './json';
+import * as Models from './models';
+import * as Signing from './signing';
+import * as Store from './store';
+
+export interface KeyRecord {
+  id: string;
+  secretHash: string;
+  // Derived HMAC key for signed requests; null when the key only sends bearer tokens
+  signingKey: string | null;
+  // null allows every model in the registry
+  models: Models.ModelId[] | null;
+  grounding: Grounding.Policy;
+  // Epoch milliseconds; null never expires
+  expiresAt: number | null;
+}
+
+export interface Table {
+  lookup(id: string): Promise<KeyRecord | null>;
+}
+
+export const LEGACY_KEY_ID = 'default';
+
+export type AuthResult =
+  | { ok: true; key: KeyRecord }
+  | {
+      ok: false;
+      status: 401 | 403;
+      error: string;
+      code:
+        | 'missing_key'
+        | 'malformed_key'
+        | 'invalid_key'
+        | 'expired_key'
+        | 'signature_required'
+        | 'malformed_signature'
+        | 'invalid_signature'
+        | 'stale_request'
+        | 'replayed_nonce';
+    };
+
+const KEY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+const SIGNING_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// RFC 6750 token characters; exactly one space after the scheme, nothing after the token
+const BEARER_PATTERN = /^Bearer ([A-Za-z0-9\-._~+/]+=*)$/;
+
+// Booleans are accepted as allow/deny; anything unrecognized denies grounding
+function groundingPolicy(value: unknown): Grounding.Policy {
+  if (value === undefined || value === true) {
+    return 'allow';
+  }
+  return Grounding.isPolicy(value) ? value : 'deny';
+}
+
+function toKeyRecord(id: string, value: unknown): KeyRecord | null {
+  if (!KEY_ID_PATTERN.test(id) || !Json.isRecord(value) || typeof value['secretHash'] !== 'string') {
+    return null;
+  }
+  const models = value['models'];
+  const signingKey = typeof value['signingKey'] === 'string' ? value['signingKey'].toLowerCase() : null;
+  const expiresAt = typeof value['expiresAt'] === 'string' ? Date.parse(value['expiresAt']) : null;
+  return {
+    id,
+    secretHash: value['secretHash'].toLowerCase(),
+    signingKey: signingKey !== null && SIGNING_KEY_PATTERN.test(signingKey) ? signingKey : null,
+    models: Array.isArray(models)
+      ? models.filter((m): m is Models.ModelId => typeof m === 'string' && Models.isModelId(m))
+      : null,
+    grounding: groundingPolicy(value['grounding']),
+    expiresAt: expiresAt !== null && Number.isNaN(expiresAt) ? 0 : expiresAt,
+  };
+}
+
+/**
+ * Parse a key table from JSON of the form
+ * `{ "<keyId>": { secretHash, signingKey?, models?, grounding?, expiresAt? } }`.
+ * Malformed entries are skipped.
+ */
+export function fromJson(text: string | undefined): Table {
+  const records = new Map<string, KeyRecord>();
+  const parsed = text === undefined ? undefined : Json.parse(text);
+  if (Json.isRecord(parsed)) {
+    for (const [id, value] of Object.entries(parsed)) {
+      const record = toKeyRecord(id, value);
+      if (record) {
+        records.set(id, record);
+      }
+    }
+  }
+  return {
+    async lookup(id) {
+      return records.get(id) ?? null;
+    },
+  };
+}
+
+export function fromKv(namespace: KVNamespace): Table {
+  return {
+    async lookup(id) {
+      if (!KEY_ID_PATTERN.test(id)) {
+        return null;
+      }
+      return toKeyRecord(id, await namespace.get(id, 'json'));
+    },
+  };
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two strings in time independent of where they differ.
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= (left[i] ?? 0) ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Extract the token from an Authorization header.
+ * Returns null for anything but a single well-formed Bearer token.
+ */
+export function parseBearer(header: string): string | null {
+  return BEARER_PATTERN.exec(header)?.[1] ?? null;
+}
+
+export async function authenticate(
+  header: string | null,
+  table: Table,
+  legacyKey: string | undefined,
+  now: number
+): Promise<AuthResult> {
+  if (!header) {
+    return { ok: false, status: 401, error: 'Missing Authorization header', code: 'missing_key' };
+  }
+  const token = parseBearer(header);
+  if (token === null) {
+    return { ok: false, status: 401, error: 'Malformed Authorization header', code: 'malformed_key' };
+  }
+
+  const tokenHash = await sha256Hex(token);
+
+  if (legacyKey && constantTimeEqual(tokenHash, await sha256Hex(legacyKey))) {
+    return {
+      ok: true,
+      key: {
+        id: LEGACY_KEY_ID,
+        secretHash: tokenHash,
+        signingKey: null,
+        models: null,
+        grounding: 'allow',
+        expiresAt: null,
+      },
+    };
+  }
+
+  const separator = token.indexOf('.');
+  const record = separator > 0 ? await table.lookup(token.slice(0, separator)) : null;
+  const secretHash = await sha256Hex(token.slice(separator + 1));
+  if (!record || !constantTimeEqual(secretHash, record.secretHash)) {
+    return { ok: false, status: 403, error: 'Invalid API key', code: 'invalid_key' };
+  }
+  if (record.expiresAt !== null && record.expiresAt <= now) {
+    return { ok: false, status: 403, error: 'API key expired', code: 'expired_key' };
+  }
+  return { ok: true, key: record };
+}
+
+async function signingRecord(keyId: string, table: Table, legacyKey: string | undefined): Promise<KeyRecord | null> {
+  if (keyId === LEGACY_KEY_ID && legacyKey) {
+    // The proxy holds the legacy secret itself, so it can derive the key
+    return {
+      id: LEGACY_KEY_ID,
+      secretHash: await sha256Hex(legacyKey),
+      signingKey: await Signing.signingKey(legacyKey),
+      models: null,
+      grounding: 'allow',
+      expiresAt: null,
+    };
+  }
+  return table.lookup(keyId);
+}
+
+/**
+ * Authenticate a signed request. The timestamp must be within `maxSkewSeconds`
+ * of `now`, and each nonce is remembered for twice that window, long enough
+ * that a replay is either seen or already stale.
+ *
+ * The replay check is best-effort: the nonce is read and then written, not
+ * claimed atomically, so copies of a request arriving together can all pass,
+ * and KV writes take up to a minute to reach other locations. The timestamp
+ * window still bounds how long a captured request can be replayed.
+ */
+export async function authenticateSigned(
+  signed: Signing.Signed,
+  request: { method: string; path: string; body: Signing.Body },
+  table: Table,
+  legacyKey: string | undefined,
+  nonces: Store.Store,
+  now: number,
+  maxSkewSeconds: number
+): Promise<AuthResult> {
+  const record = await signingRecord(signed.keyId, table, legacyKey);
+  if (!record || record.signingKey === null || !(await Signing.verify(signed, request, record.signingKey))) {
+    return { ok: false, status: 403, error: 'Invalid request signature', code: 'invalid_signature' };
+  }
+  if (record.expiresAt !== null && record.expiresAt <= now) {
+    return { ok: false, status: 403, error: 'API key expired', code: 'expired_key' };
+  }
+  if (Math.abs(now / 1000 - signed.timestamp) > maxSkewSeconds) {
+    return {
+      ok: false,
+      status: 401,
+      error: `Request timestamp is more than ${maxSkewSeconds} seconds from server time`,
+      code: 'stale_request',
+    };
+  }
+  const nonceKey = `nonce:${record.id}:${signed.nonce}`;
+  if ((await nonces.get(nonceKey)) !== null) {
+    return { ok: false, status: 401, error: 'Request nonce was already used', code: 'replayed_nonce' };
+  }
+  await nonces.put(nonceKey, signed.timestamp, maxSkewSeconds * 2);
+  return { ok: true, key: record };
+}
+
+export function allowsModel(key: KeyRecord, model: Models.ModelId): boolean {
+  return key.models === null || key.models.includes(model);
+}
@@ -0,0 +1,137 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Structured audit log, one JSON record per request.
+ *
+ * Records carry request metadata only. Prompt content is logged when
+ * enabled with `LOG_PROMPTS`: `text` logs messages with inline data replaced
+ * by its size, `full` logs the request body unchanged. By default no prompt
+ * content is logged.
+ */
+
+import * as Json from './json';
+import * as Usage from './usage';
+import * as Validation from './validation';
+
+export type PromptLogging = 'off' | 'text' | 'full';
+
+export type Level = 'info' | 'warn' | 'error';
+
+export interface Entry {
+  timestamp: string;
+  level: Level;
+  requestId: string;
+  method: string;
+  path: string;
+  status: number;
+  latencyMs: number;
+  keyId: string | null;
+  model: string | null;
+  provider: string | null;
+  stream: boolean;
+  grounding: boolean;
+  cache: string | null;
+  attempts: number | null;
+  upstreamStatus: number | null;
+  usage: Usage.Usage | null;
+  errorCode: string | null;
+  // Message of an exception the proxy failed to handle
+  error?: string;
+  prompt?: unknown;
+}
+
+/**
+ * Request facts gathered by handlers as they go.
+ */
+export type Fields = Partial<
+  Omit<Entry, 'timestamp' | 'level' | 'requestId' | 'method' | 'path' | 'status' | 'latencyMs'>
+>;
+
+export interface Logger {
+  write: (entry: Entry) => void;
+}
+
+// Workers Logs collects console output
+export const consoleLogger: Logger = {
+  write: entry => console.log(JSON.stringify(entry)),
+};
+
+export function configure(value: string | undefined): PromptLogging {
+  return value === 'text' || value === 'full' ? value : 'off';
+}
+
+function redactParts(parts: unknown): unknown {
+  if (!Array.isArray(parts)) {
+    return parts;
+  }
+  return parts.map(part => {
+    if (!Json.isRecord(part) || !Json.isRecord(part['inlineData'])) {
+      return part;
+    }
+    const { mimeType, data } = part['inlineData'];
+    const bytes = typeof data === 'string' ? Validation.base64Bytes(data) : 0;
+    return { ...part, inlineData: { mimeType, data: `[${bytes} bytes]` } };
+  });
+}
+
+function redactMessage(message: unknown): unknown {
+  return Json.isRecord(message) ? { ...message, parts: redactParts(message['parts']) } : message;
+}
+
+/**
+ * The prompt as it may be logged, or undefined when prompts are not logged.
+ */
+export function prompt(body: unknown, logging: PromptLogging): unknown {
+  if (logging === 'off' || !Json.isRecord(body)) {
+    return undefined;
+  }
+  if (logging === 'full') {
+    return body;
+  }
+  const redacted: Record<string, unknown> = {
+    contents: Array.isArray(body['contents']) ? body['contents'].map(redactMessage) : body['contents'],
+  };
+  if (body['systemInstruction'] !== undefined) {
+    redacted['systemInstruction'] = redactMessage(body['systemInstruction']);
+  }
+  return redacted;
+}
+
+export function level(status: number): Level {
+  if (status >= 500) {
+    return 'error';
+  }
+  return status >= 400 ? 'warn' : 'info';
+}
+
+export function record(
+  request: { requestId: string; method: string; path: string },
+  status: number,
+  startedAt: number,
+  finishedAt: number,
+  fields: Fields
+): Entry {
+  return {
+    timestamp: new Date(finishedAt).toISOString(),
+    level: level(status),
+    requestId: request.requestId,
+    method: request.method,
+    path: request.path,
+    status,
+    latencyMs: finishedAt - startedAt,
+    keyId: fields.keyId ?? null,
+    model: fields.model ?? null,
+    provider: fields.provider ?? null,
+    stream: fields.stream ?? false,
+    grounding: fields.grounding ?? false,
+    cache: fields.cache ?? null,
+    attempts: fields.attempts ?? null,
+    upstreamStatus: fields.upstreamStatus ?? null,
+    usage: fields.usage ?? null,
+    errorCode: fields.errorCode ?? null,
+    ...(fields.error === undefined ? {} : { error: fields.error }),
+    ...(fields.prompt === undefined ? {} : { prompt: fields.prompt }),
+  };
+}
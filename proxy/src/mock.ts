@@ -0,0 +1,327 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Offline stand-in for the Gemini API, enabled with `MOCK_MODE=1`.
+ *
+ * Replaces the proxy's upstream `fetch`, so everything the proxy does on
+ * top (validation, quotas, streaming, error envelopes) still runs. Answers
+ * are deterministic and chosen from the last user message:
+ *
+ * - a fixture from `MOCK_FIXTURES` whose keyword appears in it, else
+ * - a built-in scenario named by a `mock:<scenario>` keyword, else
+ * - a plain text echo of the prompt.
+ *
+ * `MOCK_FIXTURES` is JSON of the form
+ * `{ "<keyword>": { "status": 200, "body": <Gemini response> } }`; `status`
+ * defaults to 200. Streams replay a fixture body as a single event.
+ */
+
+import * as Config from './config';
+import * as Json from './json';
+import * as Models from './models';
+
+export type Scenario = 'text' | 'thinking' | 'grounding' | 'image' | 'blocked' | 'error';
+
+export interface Fixture {
+  keyword: string;
+  status: number;
+  body: unknown;
+}
+
+export interface Reply {
+  status: number;
+  // One body per stream event; whole responses have exactly one
+  events: unknown[];
+}
+
+export type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+// A 1x1 transparent PNG
+export const IMAGE_DATA =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const SCENARIO_PATTERN = /\bmock:(text|thinking|grounding|image|blocked|error)(?::(\d{3}))?\b/;
+
+const ERROR_STATUSES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+const WORDS_PER_EVENT = 4;
+
+export function isEnabled(flag: string | undefined): boolean {
+  return Config.flag(flag);
+}
+
+/**
+ * Read fixtures in the order given; malformed entries are skipped.
+ */
+export function parseFixtures(text: string | undefined): Fixture[] {
+  const parsed = text === undefined ? undefined : Json.parse(text);
+  if (!Json.isRecord(parsed)) {
+    return [];
+  }
+  return Object.entries(parsed).flatMap(([keyword, value]) => {
+    if (keyword === '' || !Json.isRecord(value) || value['body'] === undefined) {
+      return [];
+    }
+    const status = value['status'];
+    return [{ keyword, status: typeof status === 'number' ? status : 200, body: value['body'] }];
+  });
+}
+
+/**
+ * Text of the last user message in a generateContent body.
+ */
+export function promptText(body: unknown): string {
+  const contents = Json.isRecord(body) && Array.isArray(body['contents']) ? body['contents'] : [];
+  const messages = contents.filter(content => Json.isRecord(content) && content['role'] !== 'model');
+  const last = messages.at(-1);
+  const parts = Json.isRecord(last) && Array.isArray(last['parts']) ? last['parts'] : [];
+  return parts
+    .map(part => (Json.isRecord(part) && typeof part['text'] === 'string' ? part['text'] : ''))
+    .join('')
+    .trim();
+}
+
+// Roughly four characters per token, like Gemini's own estimate
+function tokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function usageMetadata(prompt: string, reply: string, thoughts = 0): Record<string, number> {
+  const usage: Record<string, number> = {
+    promptTokenCount: tokens(prompt),
+    candidatesTokenCount: tokens(reply),
+    totalTokenCount: tokens(prompt) + tokens(reply) + thoughts,
+  };
+  if (thoughts > 0) {
+    usage['thoughtsTokenCount'] = thoughts;
+  }
+  return usage;
+}
+
+function candidate(parts: unknown[], extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { content: { role: 'model', parts }, index: 0, ...extra };
+}
+
+// Split text into chunks of a few words, as streamed replies arrive
+function chunks(text: string): string[] {
+  const words = text.match(/\S+\s*/g) ?? [''];
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i += WORDS_PER_EVENT) {
+    result.push(words.slice(i, i + WORDS_PER_EVENT).join(''));
+  }
+  return result;
+}
+
+interface TextReply {
+  prompt: string;
+  model: string;
+  thoughts: string | null;
+  text: string;
+  // Extra candidate fields, sent with the finish reason
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Events for a text reply. A stream sends any thoughts first, then the text
+ * in chunks, with the finish reason and usage on the last event; a whole
+ * response carries everything in one.
+ */
+function textEvents(reply: TextReply, stream: boolean): unknown[] {
+  const { prompt, model, thoughts, text, extra = {} } = reply;
+  const thoughtParts = thoughts === null ? [] : [{ text: thoughts, thought: true }];
+  const final = (parts: unknown[]): Record<string, unknown> => ({
+    candidates: [candidate(parts, { finishReason: 'STOP', ...extra })],
+    usageMetadata: usageMetadata(prompt, text, thoughts === null ? 0 : tokens(thoughts)),
+    modelVersion: model,
+  });
+  if (!stream) {
+    return [final([...thoughtParts, { text }])];
+  }
+
+  const pieces = chunks(text);
+  const last = pieces.pop() ?? '';
+  return [
+    ...(thoughtParts.length > 0 ? [{ candidates: [candidate(thoughtParts)], modelVersion: model }] : []),
+    ...pieces.map(piece => ({ candidates: [candidate([{ text: piece }])], modelVersion: model })),
+    final([{ text: last }]),
+  ];
+}
+
+function errorBody(status: number): Record<string, unknown> {
+  return {
+    error: {
+      code: status,
+      message: `Mock error ${status}`,
+      status: Object.hasOwn(ERROR_STATUSES, status) ? ERROR_STATUSES[status] : 'UNKNOWN',
+    },
+  };
+}
+
+export function scenario(prompt: string): { scenario: Scenario; status: number } {
+  const match = SCENARIO_PATTERN.exec(prompt);
+  const name = match?.[1];
+  const status = Number(match?.[2] ?? 500);
+  switch (name) {
+    case 'thinking':
+    case 'grounding':
+    case 'image':
+    case 'blocked':
+    case 'text':
+      return { scenario: name, status: 200 };
+    case 'error':
+      return { scenario: 'error', status };
+    default:
+      return { scenario: 'text', status: 200 };
+  }
+}
+
+/**
+ * The mock reply to a generateContent body for `model`.
+ */
+export function respond(body: unknown, model: string, fixtures: Fixture[], stream: boolean): Reply {
+  const prompt = promptText(body);
+  const fixture = fixtures.find(entry => prompt.toLowerCase().includes(entry.keyword.toLowerCase()));
+  if (fixture) {
+    return { status: fixture.status, events: [fixture.body] };
+  }
+
+  const chosen = scenario(prompt);
+  switch (chosen.scenario) {
+    case 'text':
+      return {
+        status: 200,
+        events: textEvents(
+          { prompt, model, thoughts: null, text: `Mock response to: ${prompt || '(empty prompt)'}` },
+          stream
+        ),
+      };
+    case 'thinking':
+      return {
+        status: 200,
+        events: textEvents(
+          {
+            prompt,
+            model,
+            thoughts: 'Considering the question step by step.',
+            text: 'After thinking it over, here is a mock answer.',
+          },
+          stream
+        ),
+      };
+    case 'grounding':
+      return {
+        status: 200,
+        events: textEvents(
+          {
+            prompt,
+            model,
+            thoughts: null,
+            text: 'According to a mock source, the answer is 42.',
+            extra: {
+              groundingMetadata: {
+                webSearchQueries: [prompt],
+                groundingChunks: [{ web: { uri: 'https://example.com/source', title: 'Mock source' } }],
+                groundingSupports: [
+                  {
+                    segment: { startIndex: 0, endIndex: 26, text: 'According to a mock source' },
+                    groundingChunkIndices: [0],
+                  },
+                ],
+                searchEntryPoint: { renderedContent: '<div>Mock search</div>' },
+              },
+            },
+          },
+          stream
+        ),
+      };
+    case 'image':
+      return {
+        status: 200,
+        events: [
+          {
+            candidates: [
+              candidate(
+                [{ text: 'Here is a mock image.' }, { inlineData: { mimeType: 'image/png', data: IMAGE_DATA } }],
+                {
+                  finishReason: 'STOP',
+                }
+              ),
+            ],
+            usageMetadata: usageMetadata(prompt, 'Here is a mock image.'),
+            modelVersion: model,
+          },
+        ],
+      };
+    case 'blocked':
+      return {
+        status: 200,
+        events: [
+          {
+            promptFeedback: {
+              blockReason: 'SAFETY',
+              safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }],
+            },
+            usageMetadata: usageMetadata(prompt, ''),
+          },
+        ],
+      };
+    case 'error':
+      return { status: chosen.status, events: [errorBody(chosen.status)] };
+  }
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sse(events: unknown[]): Response {
+  const text = events.map(event => `data: ${JSON.stringify(event)}\r\n\r\n`).join('');
+  return new Response(text, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * A `fetch` answering the Gemini calls the proxy makes. Calls the mock does
+ * not model (files, context caches, other providers) fail with 501.
+ */
+export function upstream(fixtures: Fixture[]): Fetch {
+  return async (url, init) => {
+    const { pathname } = new URL(url);
+    const body = typeof init?.body === 'string' ? Json.parse(init.body) : undefined;
+    const action = /\/models\/([^/:]+):(\w+)$/.exec(pathname);
+    const model = action?.[1] ?? '';
+
+    if (pathname.endsWith('/models')) {
+      const models = Object.values(Models.MODELS).map(policy => ({
+        name: `models/${policy.id}`,
+        inputTokenLimit: Models.MODEL_INFO[policy.id].contextWindow,
+      }));
+      return json({ models }, 200);
+    }
+    switch (action?.[2]) {
+      case 'generateContent': {
+        const mocked = respond(body, model, fixtures, false);
+        return json(mocked.events[0], mocked.status);
+      }
+      case 'streamGenerateContent': {
+        const mocked = respond(body, model, fixtures, true);
+        return mocked.status === 200 ? sse(mocked.events) : json(mocked.events[0], mocked.status);
+      }
+      case 'countTokens': {
+        const request = Json.isRecord(body) ? body['generateContentRequest'] : undefined;
+        return json({ totalTokens: tokens(JSON.stringify(request ?? {})) }, 200);
+      }
+      default:
+        return json({ error: { code: 501, message: 'Not available in mock mode', status: 'UNIMPLEMENTED' } }, 501);
+    }
+  };
+}
@@ -0,0 +1,141 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Model registry and per-model policy.
+ *
+ * Only models listed here are forwarded upstream. Aliases mirror the app's
+ * `GeminiModel` variants (Fast, Thinking, Creative).
+ */
+
+import * as Json from './json';
+
+export type ModelId = 'gemini-2.5-flash' | 'gemini-2.5-pro' | 'gemini-2.5-flash-image';
+
+export type ModelAlias = 'fast' | 'thinking' | 'creative';
+
+export interface ModelPolicy {
+  id: ModelId;
+  maxOutputTokens: number;
+}
+
+export const MODELS: Record<ModelId, ModelPolicy> = {
+  'gemini-2.5-flash': { id: 'gemini-2.5-flash', maxOutputTokens: 65536 },
+  'gemini-2.5-pro': { id: 'gemini-2.5-pro', maxOutputTokens: 65536 },
+  'gemini-2.5-flash-image': { id: 'gemini-2.5-flash-image', maxOutputTokens: 32768 },
+};
+
+/**
+ * Display metadata for the app's model selector. `contextWindow` is the
+ * input token limit; upstream `models.list` overrides it when available.
+ */
+export interface ModelInfo {
+  contextWindow: number;
+  images: boolean;
+  thinking: boolean;
+  grounding: boolean;
+  labels: { en: string; ru: string };
+}
+
+export const MODEL_INFO: Record<ModelId, ModelInfo> = {
+  'gemini-2.5-flash': {
+    contextWindow: 1_048_576,
+    images: true,
+    thinking: true,
+    grounding: true,
+    labels: { en: 'Fast', ru: 'Быстрая' },
+  },
+  'gemini-2.5-pro': {
+    contextWindow: 1_048_576,
+    images: true,
+    thinking: true,
+    grounding: true,
+    labels: { en: 'Thinking', ru: 'Думающая' },
+  },
+  'gemini-2.5-flash-image': {
+    contextWindow: 32_768,
+    images: true,
+    thinking: false,
+    grounding: false,
+    labels: { en: 'Creative', ru: 'Творческая' },
+  },
+};
+
+export const ALIASES: Record<ModelAlias, ModelId> = {
+  fast: 'gemini-2.5-flash',
+  thinking: 'gemini-2.5-pro',
+  creative: 'gemini-2.5-flash-image',
+};
+
+export const DEFAULT_MODEL: ModelId = 'gemini-2.5-flash';
+
+// Lowercase letters, digits, dots and dashes only: no path or query fragments
+const MODEL_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{0,63}$/;
+
+export interface ModelError {
+  error: string;
+  code: 'invalid_model' | 'unknown_model' | 'output_tokens_exceeded';
+  model: string;
+  [key: string]: unknown;
+}
+
+export type Resolution = { ok: true; model: ModelPolicy } | { ok: false; error: ModelError };
+
+export function isModelId(value: string): value is ModelId {
+  return Object.hasOwn(MODELS, value);
+}
+
+export function isModelAlias(value: string): value is ModelAlias {
+  return Object.hasOwn(ALIASES, value);
+}
+
+export function allowedNames(): string[] {
+  return [...Object.keys(ALIASES), ...Object.keys(MODELS)];
+}
+
+/**
+ * Resolve a model name or alias from the client.
+ * Missing names fall back to the default model.
+ */
+export function resolve(name: string | null): Resolution {
+  if (name === null || name === '') {
+    return { ok: true, model: MODELS[DEFAULT_MODEL] };
+  }
+  if (!MODEL_NAME_PATTERN.test(name)) {
+    return {
+      ok: false,
+      error: { error: 'Malformed model name', code: 'invalid_model', model: name },
+    };
+  }
+  if (isModelAlias(name)) {
+    return { ok: true, model: MODELS[ALIASES[name]] };
+  }
+  if (isModelId(name)) {
+    return { ok: true, model: MODELS[name] };
+  }
+  return {
+    ok: false,
+    error: { error: `Unknown model: ${name}`, code: 'unknown_model', model: name, allowed: allowedNames() },
+  };
+}
+
+/**
+ * Check a parsed request body against the model's limits.
+ * Returns null when the body is within limits or has no generation config.
+ */
+export function checkLimits(policy: ModelPolicy, body: unknown): ModelError | null {
+  if (!Json.isRecord(body) || !Json.isRecord(body['generationConfig'])) {
+    return null;
+  }
+  const maxOutputTokens = body['generationConfig']['maxOutputTokens'];
+  if (typeof maxOutputTokens === 'number' && maxOutputTokens > policy.maxOutputTokens) {
+    return {
+      error: `maxOutputTokens exceeds the limit of ${policy.maxOutputTokens} for ${policy.id}`,
+      code: 'output_tokens_exceeded',
+      model: policy.id,
+      limit: policy.maxOutputTokens,
+    };
+  }
+  return null;
+}
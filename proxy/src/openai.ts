@@ -0,0 +1,254 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * OpenAI-compatible chat completions provider.
+ *
+ * Works against any server implementing `/chat/completions` (OpenAI,
+ * llama.cpp, Ollama, vLLM) via a configurable base URL. Registry models are
+ * mapped to upstream model names; unmapped models are not served.
+ *
+ * Translation covers text, inline images, image URLs, the system
+ * instruction and the common generation settings. Other file data, such as
+ * PDFs or Gemini Files API uploads, is rejected. Thought parts and Google
+ * Search grounding have no chat completions equivalent and are dropped.
+ */
+
+import * as Gemini from './gemini';
+import * as Json from './json';
+import * as Models from './models';
+import * as Provider from './provider';
+import * as Stream from './stream';
+import * as Validation from './validation';
+
+export const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export interface Config {
+  baseUrl: string;
+  apiKey: string | null;
+  models: Partial<Record<Models.ModelId, string>>;
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+};
+
+/**
+ * Read provider settings. `models` is JSON of the form
+ * `{ "gemini-2.5-flash": "llama3.1:8b" }`; entries for unknown registry
+ * models are skipped.
+ */
+export function configure(vars: {
+  baseUrl?: string | undefined;
+  apiKey?: string | undefined;
+  models?: string | undefined;
+}): Config {
+  const models: Config['models'] = {};
+  const parsed = vars.models === undefined ? undefined : Json.parse(vars.models);
+  if (Json.isRecord(parsed)) {
+    for (const [model, upstream] of Object.entries(parsed)) {
+      if (Models.isModelId(model) && typeof upstream === 'string' && upstream !== '') {
+        models[model] = upstream;
+      }
+    }
+  }
+  return {
+    baseUrl: (vars.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    apiKey: vars.apiKey || null,
+    models,
+  };
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(Json.isRecord) : [];
+}
+
+// Files API uploads are only readable with the proxy's Gemini key
+const GEMINI_ORIGIN = new URL(Gemini.BASE_URL).origin;
+
+// Chat completions can only fetch images from public http(s) URLs
+function isImageUrl(fileData: Record<string, unknown>): boolean {
+  const { mimeType, fileUri } = fileData;
+  return (
+    typeof mimeType === 'string' &&
+    mimeType.startsWith('image/') &&
+    typeof fileUri === 'string' &&
+    /^https?:\/\//.test(fileUri) &&
+    !fileUri.startsWith(`${GEMINI_ORIGIN}/`)
+  );
+}
+
+function unsupportedParts(parts: unknown, path: string): Validation.FieldError[] {
+  return (Array.isArray(parts) ? parts : []).flatMap((part, i) =>
+    Json.isRecord(part) && Json.isRecord(part['fileData']) && !isImageUrl(part['fileData'])
+      ? [{ path: `${path}.parts[${i}].fileData`, message: 'Only image URLs are supported by this provider' }]
+      : []
+  );
+}
+
+/**
+ * File data the chat completions API cannot take: anything but a public
+ * image URL.
+ */
+export function unsupported(body: unknown): Validation.FieldError[] {
+  const request = Json.isRecord(body) ? body : {};
+  const system = Json.isRecord(request['systemInstruction'])
+    ? unsupportedParts(request['systemInstruction']['parts'], 'systemInstruction')
+    : [];
+  const contents = Array.isArray(request['contents']) ? request['contents'] : [];
+  return [
+    ...system,
+    ...contents.flatMap((message, i) =>
+      Json.isRecord(message) ? unsupportedParts(message['parts'], `contents[${i}]`) : []
+    ),
+  ];
+}
+
+// Translate Gemini parts into chat message content, plain text when possible
+function toContent(parts: unknown): string | Record<string, unknown>[] {
+  const content: Record<string, unknown>[] = [];
+  for (const part of records(parts)) {
+    if (part['thought'] === true) {
+      continue;
+    }
+    if (typeof part['text'] === 'string') {
+      content.push({ type: 'text', text: part['text'] });
+    } else if (Json.isRecord(part['inlineData'])) {
+      const { mimeType, data } = part['inlineData'];
+      if (typeof mimeType === 'string' && typeof data === 'string') {
+        content.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } });
+      }
+    } else if (Json.isRecord(part['fileData']) && typeof part['fileData']['fileUri'] === 'string') {
+      content.push({ type: 'image_url', image_url: { url: part['fileData']['fileUri'] } });
+    }
+  }
+  return content.every(item => item['type'] === 'text') ? content.map(item => item['text']).join('') : content;
+}
+
+/**
+ * Translate a Gemini generateContent body into a chat completions body.
+ */
+export function toChatRequest(model: string, body: unknown, stream: boolean): Record<string, unknown> {
+  const request = Json.isRecord(body) ? body : {};
+  const messages: Record<string, unknown>[] = [];
+
+  if (Json.isRecord(request['systemInstruction'])) {
+    messages.push({ role: 'system', content: toContent(request['systemInstruction']['parts']) });
+  }
+  for (const message of records(request['contents'])) {
+    messages.push({
+      role: message['role'] === 'model' ? 'assistant' : 'user',
+      content: toContent(message['parts']),
+    });
+  }
+
+  const chat: Record<string, unknown> = { model, messages };
+  const config = Json.isRecord(request['generationConfig']) ? request['generationConfig'] : {};
+  const settings: Array<[string, string]> = [
+    ['temperature', 'temperature'],
+    ['topP', 'top_p'],
+    ['maxOutputTokens', 'max_tokens'],
+    ['stopSequences', 'stop'],
+    ['candidateCount', 'n'],
+    ['seed', 'seed'],
+  ];
+  for (const [from, to] of settings) {
+    if (config[from] !== undefined) {
+      chat[to] = config[from];
+    }
+  }
+  if (config['responseMimeType'] === 'application/json') {
+    chat['response_format'] = { type: 'json_object' };
+  }
+  if (stream) {
+    chat['stream'] = true;
+    chat['stream_options'] = { include_usage: true };
+  }
+  return chat;
+}
+
+function finishReason(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  return Object.hasOwn(FINISH_REASONS, value) ? FINISH_REASONS[value] : 'OTHER';
+}
+
+function toUsageMetadata(usage: unknown): Record<string, unknown> | undefined {
+  if (!Json.isRecord(usage)) {
+    return undefined;
+  }
+  return {
+    promptTokenCount: usage['prompt_tokens'],
+    candidatesTokenCount: usage['completion_tokens'],
+    totalTokenCount: usage['total_tokens'],
+  };
+}
+
+// Translate one choice, reading its text from `message` or a stream `delta`
+function toCandidate(choice: Record<string, unknown>, field: 'message' | 'delta'): Record<string, unknown> {
+  const message = Json.isRecord(choice[field]) ? choice[field] : {};
+  const text = typeof message['content'] === 'string' ? message['content'] : '';
+  const candidate: Record<string, unknown> = {
+    content: { role: 'model', parts: [{ text }] },
+    index: typeof choice['index'] === 'number' ? choice['index'] : 0,
+  };
+  const reason = finishReason(choice['finish_reason']);
+  if (reason !== undefined) {
+    candidate['finishReason'] = reason;
+  }
+  return candidate;
+}
+
+function toGeminiResponse(body: unknown, field: 'message' | 'delta'): Record<string, unknown> {
+  const response = Json.isRecord(body) ? body : {};
+  const gemini: Record<string, unknown> = {
+    candidates: records(response['choices']).map(choice => toCandidate(choice, field)),
+  };
+  const usageMetadata = toUsageMetadata(response['usage']);
+  if (usageMetadata) {
+    gemini['usageMetadata'] = usageMetadata;
+  }
+  if (typeof response['model'] === 'string') {
+    gemini['modelVersion'] = response['model'];
+  }
+  return gemini;
+}
+
+/**
+ * Translate a chat completions response into a Gemini response.
+ */
+export function fromChatResponse(body: unknown): Record<string, unknown> {
+  return toGeminiResponse(body, 'message');
+}
+
+/**
+ * Translate one streamed chat completions chunk into a Gemini stream chunk.
+ */
+export function fromChatChunk(chunk: unknown): Record<string, unknown> {
+  return toGeminiResponse(chunk, 'delta');
+}
+
+export function provider(config: Config): Provider.Provider {
+  return {
+    id: 'openai',
+    supports: model => config.models[model] !== undefined,
+    validate: unsupported,
+    request(model, body, stream) {
+      return {
+        url: `${config.baseUrl}/chat/completions`,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey === null ? {} : { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify(toChatRequest(config.models[model] ?? model, body, stream)),
+      };
+    },
+    response: fromChatResponse,
+    // The `[DONE]` sentinel is not JSON and is dropped by the translation
+    stream: upstream => Stream.translate(upstream, fromChatChunk),
+  };
+}
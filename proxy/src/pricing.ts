@@ -0,0 +1,83 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Per-model prices for pre-send cost estimates.
+ *
+ * Prices are US dollars per million tokens. The defaults follow Google's
+ * paid tier list prices (for Pro, prompts up to 200k tokens) and can be
+ * overridden per model with `MODEL_PRICES`. Estimates ignore context
+ * caching discounts and search grounding charges.
+ */
+
+import * as Json from './json';
+import * as Models from './models';
+
+export interface Price {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface Estimate {
+  currency: 'USD';
+  input: number;
+  // Cost if the reply uses all of `maxOutputTokens`; null when the request sets no limit
+  maxOutput: number | null;
+}
+
+export const DEFAULT_PRICES: Record<Models.ModelId, Price> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+};
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Read overrides from JSON of the form
+ * `{ "gemini-2.5-flash": { "inputPerMillion": 0.3, "outputPerMillion": 2.5 } }`.
+ * Either price may be omitted; entries for unknown models are skipped.
+ */
+export function configure(text: string | undefined): Record<Models.ModelId, Price> {
+  const prices = { ...DEFAULT_PRICES };
+  const parsed = text === undefined ? undefined : Json.parse(text);
+  if (!Json.isRecord(parsed)) {
+    return prices;
+  }
+  for (const [model, value] of Object.entries(parsed)) {
+    if (!Models.isModelId(model) || !Json.isRecord(value)) {
+      continue;
+    }
+    const read = (field: keyof Price): number => {
+      const price = value[field];
+      return isPrice(price) ? price : prices[model][field];
+    };
+    prices[model] = { inputPerMillion: read('inputPerMillion'), outputPerMillion: read('outputPerMillion') };
+  }
+  return prices;
+}
+
+// Round to a hundredth of a cent
+function dollars(tokens: number, perMillion: number): number {
+  return Math.round((tokens * perMillion) / 100) / 10_000;
+}
+
+export function estimate(price: Price, inputTokens: number, outputTokens: number | null): Estimate {
+  return {
+    currency: 'USD',
+    input: dollars(inputTokens, price.inputPerMillion),
+    maxOutput: outputTokens === null ? null : dollars(outputTokens, price.outputPerMillion),
+  };
+}
+
+// The request's `generationConfig.maxOutputTokens`, if set
+export function maxOutputTokens(body: unknown): number | null {
+  if (!Json.isRecord(body) || !Json.isRecord(body['generationConfig'])) {
+    return null;
+  }
+  const value = body['generationConfig']['maxOutputTokens'];
+  return typeof value === 'number' ? value : null;
+}
@@ -0,0 +1,45 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Upstream LLM providers.
+ *
+ * Clients always speak Gemini's generateContent format. A provider
+ * translates that request into its own API and translates responses and
+ * stream events back, so validation, quotas and error envelopes stay
+ * provider-independent. Models are still named by registry ID; each
+ * provider decides which of them it can serve.
+ */
+
+import * as Models from './models';
+import * as Validation from './validation';
+
+export type ProviderId = 'gemini' | 'openai';
+
+export const PROVIDER_IDS: readonly ProviderId[] = ['gemini', 'openai'];
+
+export const DEFAULT_PROVIDER: ProviderId = 'gemini';
+
+export interface UpstreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface Provider {
+  id: ProviderId;
+  supports: (model: Models.ModelId) => boolean;
+  // Reject valid Gemini content the provider cannot translate
+  validate: (body: unknown) => Validation.FieldError[];
+  // Build the upstream call for a validated Gemini request body
+  request: (model: Models.ModelId, body: unknown, stream: boolean) => UpstreamRequest;
+  // Translate a successful upstream body into a Gemini response
+  response: (body: unknown) => unknown;
+  // Translate a successful upstream event stream into Gemini SSE
+  stream: (upstream: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>;
+}
+
+export function isProviderId(value: string): value is ProviderId {
+  return PROVIDER_IDS.some(id => id === value);
+}
@@ -0,0 +1,157 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Per-key rate limiting and daily quota accounting.
+ *
+ * Each client key gets a token bucket refilled over one minute, plus daily
+ * request and token quotas that reset at UTC midnight. Token usage is
+ * recorded after the upstream response reports `usageMetadata`.
+ *
+ * Counters live in a Store. KV is eventually consistent, so concurrent
+ * requests from one key may slightly overshoot the limits.
+ */
+
+import * as Config from './config';
+import * as Json from './json';
+import * as Store from './store';
+
+export interface Limits {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  tokensPerDay: number;
+}
+
+export const DEFAULT_LIMITS: Limits = {
+  requestsPerMinute: 60,
+  requestsPerDay: 5000,
+  tokensPerDay: 5_000_000,
+};
+
+export type DenialReason = 'rate_limited' | 'daily_request_quota' | 'daily_token_quota';
+
+export interface Decision {
+  allowed: boolean;
+  reason: DenialReason | null;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaState {
+  requests: number;
+  tokens: number;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * Build limits from string environment variables, falling back to defaults
+ * for missing or invalid values.
+ */
+export function configure(vars: { [K in keyof Limits]?: string | undefined }): Limits {
+  return {
+    requestsPerMinute: Config.positiveInt(vars.requestsPerMinute, DEFAULT_LIMITS.requestsPerMinute),
+    requestsPerDay: Config.positiveInt(vars.requestsPerDay, DEFAULT_LIMITS.requestsPerDay),
+    tokensPerDay: Config.positiveInt(vars.tokensPerDay, DEFAULT_LIMITS.tokensPerDay),
+  };
+}
+
+function toBucket(value: unknown): BucketState | null {
+  if (Json.isRecord(value) && typeof value['tokens'] === 'number' && typeof value['updatedAt'] === 'number') {
+    return { tokens: value['tokens'], updatedAt: value['updatedAt'] };
+  }
+  return null;
+}
+
+function toQuota(value: unknown): QuotaState {
+  if (Json.isRecord(value) && typeof value['requests'] === 'number' && typeof value['tokens'] === 'number') {
+    return { requests: value['requests'], tokens: value['tokens'] };
+  }
+  return { requests: 0, tokens: 0 };
+}
+
+function bucketKey(keyId: string): string {
+  return `ratelimit:${keyId}:bucket`;
+}
+
+function quotaKey(keyId: string, now: number): string {
+  const day = new Date(now).toISOString().slice(0, 10);
+  return `ratelimit:${keyId}:quota:${day}`;
+}
+
+function secondsUntilMidnight(now: number): number {
+  return Math.ceil((DAY_MS - (now % DAY_MS)) / 1000);
+}
+
+function deny(reason: DenialReason, limit: number, resetSeconds: number): Decision {
+  return { allowed: false, reason, limit, remaining: 0, resetSeconds };
+}
+
+/**
+ * Check the limits for a key and, if allowed, consume one request.
+ */
+export async function consume(store: Store.Store, limits: Limits, keyId: string, now: number): Promise<Decision> {
+  const quotaStoreKey = quotaKey(keyId, now);
+  const quota = toQuota(await store.get(quotaStoreKey));
+  const untilMidnight = secondsUntilMidnight(now);
+
+  if (quota.requests >= limits.requestsPerDay) {
+    return deny('daily_request_quota', limits.requestsPerDay, untilMidnight);
+  }
+  if (quota.tokens >= limits.tokensPerDay) {
+    return deny('daily_token_quota', limits.tokensPerDay, untilMidnight);
+  }
+
+  const capacity = limits.requestsPerMinute;
+  const refillPerMs = capacity / MINUTE_MS;
+  const bucket = toBucket(await store.get(bucketKey(keyId))) ?? { tokens: capacity, updatedAt: now };
+  const available = Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+
+  if (available < 1) {
+    return deny('rate_limited', capacity, Math.ceil((1 - available) / refillPerMs / 1000));
+  }
+
+  const remaining = available - 1;
+  await store.put(bucketKey(keyId), { tokens: remaining, updatedAt: now }, MINUTE_MS / 1000);
+  await store.put(quotaStoreKey, { requests: quota.requests + 1, tokens: quota.tokens }, untilMidnight);
+
+  return {
+    allowed: true,
+    reason: null,
+    limit: capacity,
+    remaining: Math.floor(remaining),
+    resetSeconds: Math.ceil((capacity - remaining) / refillPerMs / 1000),
+  };
+}
+
+/**
+ * Add tokens reported by upstream to the key's daily quota.
+ */
+export async function recordTokens(store: Store.Store, keyId: string, tokens: number, now: number): Promise<void> {
+  if (tokens <= 0) {
+    return;
+  }
+  const key = quotaKey(keyId, now);
+  const quota = toQuota(await store.get(key));
+  await store.put(key, { requests: quota.requests, tokens: quota.tokens + tokens }, secondsUntilMidnight(now));
+}
+
+export function headers(decision: Decision): Record<string, string> {
+  const result: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.resetSeconds),
+  };
+  if (!decision.allowed) {
+    result['Retry-After'] = String(decision.resetSeconds);
+  }
+  return result;
+}
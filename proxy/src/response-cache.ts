@@ -0,0 +1,85 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Response cache for deterministic prompts.
+ *
+ * Requests with `temperature: 0` and no search grounding are expected to
+ * give the same answer every time, so successful responses are stored under
+ * a hash of the provider, model, client key and canonicalized body. Entries
+ * are never shared between keys, and answers from a fallback model are not
+ * stored under the requested model. Clients skip the cache for a single
+ * request with `Cache-Control: no-store`.
+ */
+
+import * as Config from './config';
+import * as Grounding from './grounding';
+import * as Json from './json';
+import * as Keys from './keys';
+import * as Models from './models';
+import * as Store from './store';
+
+export const DEFAULT_TTL_SECONDS = 3600;
+
+export interface Entry {
+  // Model that produced the response
+  model: Models.ModelId;
+  body: string;
+}
+
+export function configure(ttlSeconds: string | undefined): number {
+  return Config.positiveInt(ttlSeconds, DEFAULT_TTL_SECONDS);
+}
+
+export function isCacheable(body: unknown): boolean {
+  return (
+    Json.isRecord(body) &&
+    Json.isRecord(body['generationConfig']) &&
+    body['generationConfig']['temperature'] === 0 &&
+    !Grounding.requested(body)
+  );
+}
+
+// Whether the client asked to skip the cache
+export function bypassed(cacheControl: string | null): boolean {
+  return (cacheControl ?? '').split(',').some(directive => directive.trim().toLowerCase() === 'no-store');
+}
+
+/**
+ * Serialize JSON with object keys sorted, so equivalent bodies hash alike.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (Json.isRecord(value)) {
+    const fields = Object.keys(value)
+      .sort()
+      .filter(field => value[field] !== undefined)
+      .map(field => `${JSON.stringify(field)}:${canonicalJson(value[field])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export async function key(provider: string, model: Models.ModelId, keyId: string, body: unknown): Promise<string> {
+  return `response:${await Keys.sha256Hex(canonicalJson({ provider, model, keyId, body }))}`;
+}
+
+export async function lookup(store: Store.Store, cacheKey: string): Promise<Entry | null> {
+  const entry = await store.get(cacheKey);
+  if (
+    Json.isRecord(entry) &&
+    typeof entry['model'] === 'string' &&
+    Models.isModelId(entry['model']) &&
+    typeof entry['body'] === 'string'
+  ) {
+    return { model: entry['model'], body: entry['body'] };
+  }
+  return null;
+}
+
+export function save(store: Store.Store, cacheKey: string, entry: Entry, ttlSeconds: number): Promise<void> {
+  return store.put(cacheKey, entry, ttlSeconds);
+}
@@ -0,0 +1,169 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Retry with jittered exponential backoff and model fallback.
+ *
+ * Transient upstream failures (429, 5xx, network errors) are retried within
+ * a total time budget. If the primary model is still failing, the request
+ * moves to its configured fallback model, which gets its own `maxAttempts`
+ * attempts within what is left of the budget. Retries are off unless
+ * `maxAttempts` is above one; the fallback is still tried once.
+ */
+
+import * as Config from './config';
+import * as Json from './json';
+import * as Models from './models';
+
+export interface Policy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  budgetMs: number;
+}
+
+export const DEFAULT_POLICY: Policy = {
+  maxAttempts: 1,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  budgetMs: 15_000,
+};
+
+export interface Clock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+export type Fallbacks = Partial<Record<Models.ModelId, Models.ModelId>>;
+
+export interface Outcome {
+  response: Response;
+  model: Models.ModelId;
+  attempts: number;
+}
+
+const RETRYABLE_STATUSES = [429, 500, 503, 504];
+
+export function configure(vars: { [K in keyof Policy]?: string | undefined }): Policy {
+  return {
+    maxAttempts: Config.positiveInt(vars.maxAttempts, DEFAULT_POLICY.maxAttempts),
+    baseDelayMs: Config.positiveInt(vars.baseDelayMs, DEFAULT_POLICY.baseDelayMs),
+    maxDelayMs: Config.positiveInt(vars.maxDelayMs, DEFAULT_POLICY.maxDelayMs),
+    budgetMs: Config.positiveInt(vars.budgetMs, DEFAULT_POLICY.budgetMs),
+  };
+}
+
+/**
+ * Parse fallbacks from JSON of the form `{ "gemini-2.5-pro": "gemini-2.5-flash" }`.
+ * Entries naming unknown models are skipped.
+ */
+export function parseFallbacks(text: string | undefined): Fallbacks {
+  const fallbacks: Fallbacks = {};
+  const parsed = text === undefined ? undefined : Json.parse(text);
+  if (Json.isRecord(parsed)) {
+    for (const [from, to] of Object.entries(parsed)) {
+      if (Models.isModelId(from) && typeof to === 'string' && Models.isModelId(to) && from !== to) {
+        fallbacks[from] = to;
+      }
+    }
+  }
+  return fallbacks;
+}
+
+export function isRetryable(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Full-jitter backoff: a random delay up to the exponential cap for this retry.
+ */
+export function backoff(retry: number, policy: Policy, random: () => number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.floor(random() * cap);
+}
+
+// Honour an upstream Retry-After given in seconds
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  const seconds = header === null ? NaN : Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+async function discard(response: Response): Promise<void> {
+  await response.body?.cancel();
+}
+
+// Last response (or network error) from one model's attempts
+interface ModelResult {
+  response: Response | null;
+  failure: unknown;
+  attempts: number;
+}
+
+/**
+ * Call upstream for one model, retrying transient failures until the
+ * attempts or the deadline run out.
+ */
+async function attemptModel(
+  call: () => Promise<Response>,
+  policy: Policy,
+  clock: Clock,
+  deadline: number
+): Promise<ModelResult> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      response = await call();
+      if (!isRetryable(response.status)) {
+        return { response, failure, attempts: attempt };
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    const delay = Math.max(backoff(attempt - 1, policy, clock.random), (response && retryAfterMs(response)) ?? 0);
+    if (attempt >= policy.maxAttempts || clock.now() + delay >= deadline) {
+      return { response, failure, attempts: attempt };
+    }
+    if (response) {
+      await discard(response);
+    }
+    await clock.sleep(delay);
+  }
+}
+
+// Rethrow the last network error if no response was ever received
+function settle(result: ModelResult, model: Models.ModelId, attempts: number): Outcome {
+  if (result.response) {
+    return { response: result.response, model, attempts };
+  }
+  throw result.failure;
+}
+
+/**
+ * Call upstream with retries, then fall back to the secondary model if the
+ * primary is still failing transiently.
+ */
+export async function withFallback(
+  model: Models.ModelId,
+  fallback: Models.ModelId | null,
+  call: (model: Models.ModelId) => Promise<Response>,
+  policy: Policy,
+  clock: Clock
+): Promise<Outcome> {
+  const deadline = clock.now() + policy.budgetMs;
+  const primary = await attemptModel(() => call(model), policy, clock, deadline);
+  const failed = primary.response === null || isRetryable(primary.response.status);
+
+  if (!failed || fallback === null || clock.now() >= deadline) {
+    return settle(primary, model, primary.attempts);
+  }
+  if (primary.response) {
+    await discard(primary.response);
+  }
+  const secondary = await attemptModel(() => call(fallback), policy, clock, deadline);
+  return settle(secondary, fallback, primary.attempts + secondary.attempts);
+}
@@ -0,0 +1,71 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Method and path routing.
+ *
+ * Paths are matched segment by segment; a `:name` segment captures one path
+ * parameter. A path served under other methods yields 405 with the methods
+ * it allows, any other path 404.
+ */
+
+export interface Route<H> {
+  method: string;
+  path: string;
+  handler: H;
+}
+
+export type Match<H> =
+  | { ok: true; handler: H; params: Record<string, string> }
+  | { ok: false; status: 404 }
+  | { ok: false; status: 405; allow: string[] };
+
+function segments(path: string): string[] {
+  return path.split('/').filter(segment => segment !== '');
+}
+
+function decode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+// Match a path against a pattern, returning the captured parameters
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const expected = segments(pattern);
+  const actual = segments(path);
+  if (expected.length !== actual.length) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (const [index, segment] of expected.entries()) {
+    const value = decode(actual[index] ?? '');
+    if (value === null) {
+      return null;
+    }
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = value;
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+  return params;
+}
+
+export function match<H>(routes: readonly Route<H>[], method: string, path: string): Match<H> {
+  const allow: string[] = [];
+  for (const route of routes) {
+    const params = matchPath(route.path, path);
+    if (params === null) {
+      continue;
+    }
+    if (route.method === method) {
+      return { ok: true, handler: route.handler, params };
+    }
+    allow.push(route.method);
+  }
+  return allow.length > 0 ? { ok: false, status: 405, allow } : { ok: false, status: 404 };
+}
@@ -0,0 +1,155 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * HMAC request signing, shared by the proxy and the desktop app.
+ *
+ * A signed request carries its key ID, a timestamp, a single-use nonce and
+ * an HMAC-SHA256 signature over method, path with query, timestamp, nonce
+ * and the SHA-256 of the body, so the secret never travels and a captured
+ * request cannot be altered or replayed. The HMAC key is derived from the
+ * client secret with a labelled HMAC (`signingKey`), so the `secretHash`
+ * verifier in the key table cannot be used to sign. The proxy stores the
+ * derived key separately, as `signingKey` in the key's record; compute it
+ * with: `printf %s 'gemini-proxy request signing v1' | openssl dgst -sha256 -hmac "$SECRET"`.
+ *
+ * Uses only Web Crypto so it runs in Workers, browsers and the webview;
+ * the bridge imports this file directly, so it must not import proxy modules.
+ */
+
+export const HEADERS = {
+  keyId: 'X-Proxy-Key',
+  timestamp: 'X-Proxy-Timestamp',
+  nonce: 'X-Proxy-Nonce',
+  signature: 'X-Proxy-Signature',
+} as const;
+
+export interface Signed {
+  keyId: string;
+  // Unix seconds
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export type Body = string | Uint8Array | null;
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/;
+
+// Binds derived keys to this use, so no other digest of the secret matches
+export const SIGNING_LABEL = 'gemini-proxy request signing v1';
+
+function bytes(body: Body): Uint8Array<ArrayBuffer> {
+  if (body === null) {
+    return new Uint8Array();
+  }
+  return new Uint8Array(typeof body === 'string' ? new TextEncoder().encode(body) : body);
+}
+
+function hex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(text.match(/../g)?.map(pair => Number.parseInt(pair, 16)) ?? []);
+}
+
+export async function sha256Hex(body: Body): Promise<string> {
+  return hex(await crypto.subtle.digest('SHA-256', bytes(body)));
+}
+
+// Random hex, 128 bits
+export function newNonce(): string {
+  return hex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+/**
+ * The string a signature covers, one field per line.
+ */
+export async function canonical(
+  method: string,
+  path: string,
+  timestamp: number,
+  nonce: string,
+  body: Body
+): Promise<string> {
+  return [method.toUpperCase(), path, String(timestamp), nonce, await sha256Hex(body)].join('\n');
+}
+
+function hmacKey(material: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', bytes(material), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+/**
+ * The HMAC key for a client secret: HMAC-SHA256 of `SIGNING_LABEL` keyed by
+ * the secret, as hex.
+ */
+export async function signingKey(secret: string): Promise<string> {
+  const key = await hmacKey(secret, 'sign');
+  return hex(await crypto.subtle.sign('HMAC', key, bytes(SIGNING_LABEL)));
+}
+
+/**
+ * Headers signing a request. `path` is the URL path plus query string;
+ * `now` is epoch milliseconds.
+ */
+export async function sign(
+  request: { method: string; path: string; body: Body },
+  keyId: string,
+  secret: string,
+  now: number,
+  nonce: string = newNonce()
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(now / 1000);
+  const message = await canonical(request.method, request.path, timestamp, nonce, request.body);
+  const key = await hmacKey(await signingKey(secret), 'sign');
+  const signature = hex(await crypto.subtle.sign('HMAC', key, bytes(message)));
+  return {
+    [HEADERS.keyId]: keyId,
+    [HEADERS.timestamp]: String(timestamp),
+    [HEADERS.nonce]: nonce,
+    [HEADERS.signature]: signature,
+  };
+}
+
+/**
+ * Read signature headers. Returns null when none are present and
+ * `malformed` when some are missing or invalid.
+ */
+export function fromHeaders(headers: Headers): Signed | 'malformed' | null {
+  const keyId = headers.get(HEADERS.keyId);
+  const timestamp = headers.get(HEADERS.timestamp);
+  const nonce = headers.get(HEADERS.nonce);
+  const signature = headers.get(HEADERS.signature);
+  if (keyId === null && timestamp === null && nonce === null && signature === null) {
+    return null;
+  }
+  if (
+    keyId === null ||
+    timestamp === null ||
+    !/^\d{1,12}$/.test(timestamp) ||
+    nonce === null ||
+    !NONCE_PATTERN.test(nonce) ||
+    signature === null ||
+    !SIGNATURE_PATTERN.test(signature)
+  ) {
+    return 'malformed';
+  }
+  return { keyId, timestamp: Number(timestamp), nonce, signature };
+}
+
+/**
+ * Check a signature against the key's derived signing key, in constant time.
+ */
+export async function verify(
+  signed: Signed,
+  request: { method: string; path: string; body: Body },
+  derivedKey: string
+): Promise<boolean> {
+  const message = await canonical(request.method, request.path, signed.timestamp, signed.nonce, request.body);
+  const key = await hmacKey(derivedKey, 'verify');
+  return crypto.subtle.verify('HMAC', key, fromHex(signed.signature), bytes(message));
+}
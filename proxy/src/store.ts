@@ -0,0 +1,94 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Key-value storage with expiry.
+ *
+ * Production binds a KV namespace or uses the Workers Cache API; tests and
+ * `wrangler dev` without a binding use the in-memory store. Values are JSON-serializable and read
+ * back as `unknown`, so callers validate what they load.
+ */
+
+export interface Store {
+  get(key: string): Promise<unknown>;
+  put(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export function memoryStore(now: () => number = Date.now): Store {
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async put(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: now() + ttlSeconds * 1000 });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// KV rejects expirations shorter than 60 seconds
+const KV_MIN_TTL_SECONDS = 60;
+
+export function kvStore(namespace: KVNamespace): Store {
+  return {
+    get(key) {
+      return namespace.get(key, 'json');
+    },
+    put(key, value, ttlSeconds) {
+      return namespace.put(key, JSON.stringify(value), {
+        expirationTtl: Math.max(Math.ceil(ttlSeconds), KV_MIN_TTL_SECONDS),
+      });
+    },
+    delete(key) {
+      return namespace.delete(key);
+    },
+  };
+}
+
+// Cache API entries are keyed by URL; this origin is never fetched
+const CACHE_ORIGIN = 'https://store.internal';
+
+/**
+ * Store backed by the Workers Cache API. Entries are local to the data
+ * center and may be evicted before they expire.
+ */
+export function cacheApiStore(cache: Cache): Store {
+  const url = (key: string): string => `${CACHE_ORIGIN}/${encodeURIComponent(key)}`;
+
+  return {
+    async get(key) {
+      const response = await cache.match(url(key));
+      return response ? response.json() : null;
+    },
+    put(key, value, ttlSeconds) {
+      return cache.put(
+        url(key),
+        new Response(JSON.stringify(value), {
+          headers: { 'Cache-Control': `max-age=${Math.ceil(ttlSeconds)}` },
+        })
+      );
+    },
+    async delete(key) {
+      await cache.delete(url(key));
+    },
+  };
+}
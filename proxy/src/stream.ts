@@ -0,0 +1,160 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Server-Sent Events pass-through for streamed Gemini responses.
+ *
+ * Upstream chunks are forwarded unchanged, or re-encoded by `translate` for
+ * providers with a different event format. If the upstream stream fails
+ * mid-way, a final `error` event is emitted so the client can tell a
+ * truncated answer from a completed one.
+ */
+
+import * as Json from './json';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+/**
+ * Optional hooks into the forwarded stream.
+ * `onEvent` receives each parsed `data:` payload; `onEnd` runs once the
+ * upstream finishes or fails, before the client stream closes. `onError`
+ * builds the payload of the final `error` event.
+ */
+export interface Observer {
+  onEvent?: (data: unknown) => void;
+  onEnd?: () => Promise<void>;
+  onError?: (message: string) => Record<string, unknown>;
+}
+
+export function errorEvent(payload: Record<string, unknown>): string {
+  // Leading blank lines terminate any partial event already forwarded
+  return `\n\nevent: error\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+// Split complete events off the buffer, returning the unfinished remainder
+function drainEvents(buffer: string, onEvent: (data: unknown) => void): string {
+  const events = buffer.split(/\r?\n\r?\n/);
+  const rest = events.pop() ?? '';
+  for (const event of events) {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (data !== '') {
+      onEvent(Json.parse(data));
+    }
+  }
+  return rest;
+}
+
+/**
+ * Re-encode each upstream event as a `data:` event carrying the mapped
+ * payload. Events whose data is not JSON, or that map to undefined, are dropped.
+ */
+export function translate(
+  upstream: ReadableStream<Uint8Array>,
+  map: (data: unknown) => unknown
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const emitTo =
+    (controller: TransformStreamDefaultController<Uint8Array>) =>
+    (data: unknown): void => {
+      const mapped = data === undefined ? undefined : map(data);
+      if (mapped !== undefined) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(mapped)}\r\n\r\n`));
+      }
+    };
+
+  return upstream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        buffer = drainEvents(buffer + decoder.decode(chunk, { stream: true }), emitTo(controller));
+      },
+      flush(controller) {
+        drainEvents(buffer + decoder.decode() + '\n\n', emitTo(controller));
+      },
+    })
+  );
+}
+
+export function passThrough(upstream: ReadableStream<Uint8Array>, observer: Observer = {}): ReadableStream<Uint8Array> {
+  const reader = upstream.getReader();
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const observe = (chunk: Uint8Array): void => {
+    if (observer.onEvent) {
+      buffer = drainEvents(buffer + decoder.decode(chunk, { stream: true }), observer.onEvent);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          if (observer.onEvent) {
+            drainEvents(buffer + decoder.decode() + '\n\n', observer.onEvent);
+          }
+          await observer.onEnd?.();
+          controller.close();
+          return;
+        }
+        observe(value);
+        controller.enqueue(value);
+      } catch (error) {
+        const message = `Upstream stream error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        controller.enqueue(encoder.encode(errorEvent(observer.onError?.(message) ?? { error: message })));
+        await observer.onEnd?.();
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Run `callback` once the stream is finished, fails or is cancelled by the client.
+ */
+export function onClose(upstream: ReadableStream<Uint8Array>, callback: () => void): ReadableStream<Uint8Array> {
+  const reader = upstream.getReader();
+  let closed = false;
+  const close = (): void => {
+    if (!closed) {
+      closed = true;
+      callback();
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          close();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        close();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      close();
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,35 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Token usage reported by Gemini in `usageMetadata`.
+ */
+
+import * as Json from './json';
+
+export interface Usage {
+  promptTokens: number;
+  candidatesTokens: number;
+  totalTokens: number;
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Read usage from a generateContent response or a single stream chunk.
+ * Returns null when the body carries no usage metadata.
+ */
+export function fromResponse(body: unknown): Usage | null {
+  if (!Json.isRecord(body) || !Json.isRecord(body['usageMetadata'])) {
+    return null;
+  }
+  const metadata = body['usageMetadata'];
+  return {
+    promptTokens: count(metadata['promptTokenCount']),
+    candidatesTokens: count(metadata['candidatesTokenCount']),
+    totalTokens: count(metadata['totalTokenCount']),
+  };
+}
@@ -0,0 +1,381 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Validation of `generateContent` request bodies.
+ *
+ * Rejects malformed or oversized payloads before they cost an upstream
+ * round-trip. Every problem is reported with the path of the offending
+ * field, e.g. `contents[0].parts[1].inlineData.mimeType`.
+ */
+
+import * as Config from './config';
+import * as Json from './json';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface Limits {
+  maxRequestBytes: number;
+  maxInlineDataBytes: number;
+  maxMessages: number;
+}
+
+// Gemini caps inline request data at 20 MB
+export const DEFAULT_LIMITS: Limits = {
+  maxRequestBytes: 20 * 1024 * 1024,
+  maxInlineDataBytes: 7 * 1024 * 1024,
+  maxMessages: 200,
+};
+
+export const INLINE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+] as const;
+
+const ROLES = ['user', 'model'];
+
+const RESPONSE_MODALITIES = ['TEXT', 'IMAGE'];
+
+const MAX_STOP_SEQUENCES = 5;
+
+// Fields that carry a part's data; a part has exactly one
+const PART_KINDS = [
+  'text',
+  'inlineData',
+  'fileData',
+  'functionCall',
+  'functionResponse',
+  'executableCode',
+  'codeExecutionResult',
+];
+
+// Tools Gemini accepts; their settings are passed through unchecked
+const TOOL_KINDS = ['googleSearch', 'googleSearchRetrieval', 'codeExecution', 'urlContext'];
+
+const CACHED_CONTENT_PATTERN = /^cachedContents\/[a-z0-9-]{1,64}$/;
+
+export function configure(vars: { [K in keyof Limits]?: string | undefined }): Limits {
+  return {
+    maxRequestBytes: Config.positiveInt(vars.maxRequestBytes, DEFAULT_LIMITS.maxRequestBytes),
+    maxInlineDataBytes: Config.positiveInt(vars.maxInlineDataBytes, DEFAULT_LIMITS.maxInlineDataBytes),
+    maxMessages: Config.positiveInt(vars.maxMessages, DEFAULT_LIMITS.maxMessages),
+  };
+}
+
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).byteLength;
+}
+
+// Decoded size of a base64 string
+export function base64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+class Checker {
+  readonly errors: FieldError[] = [];
+
+  constructor(readonly limits: Limits) {}
+
+  fail(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  record(value: unknown, path: string): Record<string, unknown> | null {
+    if (!Json.isRecord(value)) {
+      this.fail(path, 'Expected an object');
+      return null;
+    }
+    return value;
+  }
+
+  onlyKeys(value: Record<string, unknown>, path: string, allowed: readonly string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        this.fail(join(path, key), 'Unknown field');
+      }
+    }
+  }
+
+  string(value: unknown, path: string): string | null {
+    if (typeof value !== 'string') {
+      this.fail(path, 'Expected a string');
+      return null;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): void {
+    if (typeof value !== 'boolean') {
+      this.fail(path, 'Expected a boolean');
+    }
+  }
+
+  number(value: unknown, path: string, min: number, max: number, integer = false): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'Expected a number');
+    } else if (integer && !Number.isInteger(value)) {
+      this.fail(path, 'Expected an integer');
+    } else if (value < min || value > max) {
+      this.fail(path, `Expected a value between ${min} and ${max}`);
+    }
+  }
+
+  array(value: unknown, path: string): unknown[] | null {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'Expected an array');
+      return null;
+    }
+    return value;
+  }
+
+  oneOf(value: unknown, path: string, allowed: readonly string[]): void {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(path, `Expected one of: ${allowed.join(', ')}`);
+    }
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path === '' ? key : `${path}.${key}`;
+}
+
+function checkInlineData(check: Checker, value: unknown, path: string): void {
+  const inlineData = check.record(value, path);
+  if (!inlineData) return;
+  check.onlyKeys(inlineData, path, ['mimeType', 'data']);
+  check.oneOf(inlineData['mimeType'], join(path, 'mimeType'), INLINE_MIME_TYPES);
+  const data = check.string(inlineData['data'], join(path, 'data'));
+  if (data === null) return;
+  if (!BASE64_PATTERN.test(data)) {
+    check.fail(join(path, 'data'), 'Expected base64-encoded data');
+  } else if (base64Bytes(data) > check.limits.maxInlineDataBytes) {
+    check.fail(join(path, 'data'), `Inline data exceeds ${check.limits.maxInlineDataBytes} bytes`);
+  }
+}
+
+function checkFileData(check: Checker, value: unknown, path: string): void {
+  const fileData = check.record(value, path);
+  if (!fileData) return;
+  check.onlyKeys(fileData, path, ['mimeType', 'fileUri']);
+  check.string(fileData['mimeType'], join(path, 'mimeType'));
+  check.string(fileData['fileUri'], join(path, 'fileUri'));
+}
+
+// functionCall and functionResponse name the function they belong to
+function checkNamed(check: Checker, value: unknown, path: string): void {
+  const named = check.record(value, path);
+  if (named) check.string(named['name'], join(path, 'name'));
+}
+
+function checkPart(check: Checker, value: unknown, path: string): void {
+  const part = check.record(value, path);
+  if (!part) return;
+  check.onlyKeys(part, path, [...PART_KINDS, 'thought', 'thoughtSignature', 'videoMetadata']);
+
+  const kinds = PART_KINDS.filter(kind => part[kind] !== undefined);
+  if (kinds.length !== 1) {
+    check.fail(path, `Expected exactly one of: ${PART_KINDS.join(', ')}`);
+  }
+  if (part['text'] !== undefined) check.string(part['text'], join(path, 'text'));
+  if (part['inlineData'] !== undefined) checkInlineData(check, part['inlineData'], join(path, 'inlineData'));
+  if (part['fileData'] !== undefined) checkFileData(check, part['fileData'], join(path, 'fileData'));
+  if (part['functionCall'] !== undefined) checkNamed(check, part['functionCall'], join(path, 'functionCall'));
+  if (part['functionResponse'] !== undefined) {
+    checkNamed(check, part['functionResponse'], join(path, 'functionResponse'));
+  }
+  for (const kind of ['executableCode', 'codeExecutionResult', 'videoMetadata']) {
+    if (part[kind] !== undefined) check.record(part[kind], join(path, kind));
+  }
+  if (part['thought'] !== undefined) check.boolean(part['thought'], join(path, 'thought'));
+  if (part['thoughtSignature'] !== undefined) check.string(part['thoughtSignature'], join(path, 'thoughtSignature'));
+}
+
+function checkContent(check: Checker, value: unknown, path: string, roleRequired: boolean): void {
+  const content = check.record(value, path);
+  if (!content) return;
+  check.onlyKeys(content, path, ['role', 'parts']);
+  if (content['role'] !== undefined || roleRequired) {
+    check.oneOf(content['role'], join(path, 'role'), ROLES);
+  }
+  const parts = check.array(content['parts'], join(path, 'parts'));
+  if (!parts) return;
+  if (parts.length === 0) {
+    check.fail(join(path, 'parts'), 'Expected at least one part');
+  }
+  parts.forEach((part, i) => checkPart(check, part, join(join(path, 'parts'), i)));
+}
+
+function checkTools(check: Checker, value: unknown, path: string): void {
+  const tools = check.array(value, path);
+  if (!tools) return;
+  tools.forEach((item, i) => {
+    const toolPath = join(path, i);
+    const tool = check.record(item, toolPath);
+    if (!tool) return;
+    check.onlyKeys(tool, toolPath, [...TOOL_KINDS, 'functionDeclarations']);
+    if (Object.keys(tool).length === 0) {
+      check.fail(toolPath, `Expected one of: ${[...TOOL_KINDS, 'functionDeclarations'].join(', ')}`);
+    }
+    for (const kind of TOOL_KINDS) {
+      if (tool[kind] !== undefined) check.record(tool[kind], join(toolPath, kind));
+    }
+    if (tool['functionDeclarations'] !== undefined) {
+      const declarationsPath = join(toolPath, 'functionDeclarations');
+      check
+        .array(tool['functionDeclarations'], declarationsPath)
+        ?.forEach((declaration, j) => checkNamed(check, declaration, join(declarationsPath, j)));
+    }
+  });
+}
+
+function checkThinkingConfig(check: Checker, value: unknown, path: string): void {
+  const config = check.record(value, path);
+  if (!config) return;
+  check.onlyKeys(config, path, ['thinkingBudget', 'includeThoughts']);
+  if (config['thinkingBudget'] !== undefined) {
+    check.number(config['thinkingBudget'], join(path, 'thinkingBudget'), -1, 32768, true);
+  }
+  if (config['includeThoughts'] !== undefined) {
+    check.boolean(config['includeThoughts'], join(path, 'includeThoughts'));
+  }
+}
+
+function checkGenerationConfig(check: Checker, value: unknown, path: string): void {
+  const config = check.record(value, path);
+  if (!config) return;
+  check.onlyKeys(config, path, [
+    'temperature',
+    'topP',
+    'topK',
+    'maxOutputTokens',
+    'candidateCount',
+    'stopSequences',
+    'seed',
+    'responseMimeType',
+    'responseModalities',
+    'thinkingConfig',
+    'responseSchema',
+    'responseJsonSchema',
+    'presencePenalty',
+    'frequencyPenalty',
+    'responseLogprobs',
+    'logprobs',
+    'mediaResolution',
+    'speechConfig',
+    'imageConfig',
+    'enableEnhancedCivicAnswers',
+  ]);
+  const field = (key: string): [unknown, string] => [config[key], join(path, key)];
+
+  if (config['temperature'] !== undefined) check.number(...field('temperature'), 0, 2);
+  if (config['topP'] !== undefined) check.number(...field('topP'), 0, 1);
+  if (config['topK'] !== undefined) check.number(...field('topK'), 1, 1000, true);
+  if (config['maxOutputTokens'] !== undefined)
+    check.number(...field('maxOutputTokens'), 1, Number.MAX_SAFE_INTEGER, true);
+  if (config['candidateCount'] !== undefined) check.number(...field('candidateCount'), 1, 8, true);
+  if (config['seed'] !== undefined) check.number(...field('seed'), -(2 ** 31), 2 ** 31 - 1, true);
+  if (config['responseMimeType'] !== undefined) check.string(...field('responseMimeType'));
+  if (config['thinkingConfig'] !== undefined) checkThinkingConfig(check, ...field('thinkingConfig'));
+  if (config['presencePenalty'] !== undefined) check.number(...field('presencePenalty'), -2, 2);
+  if (config['frequencyPenalty'] !== undefined) check.number(...field('frequencyPenalty'), -2, 2);
+  if (config['responseLogprobs'] !== undefined) check.boolean(...field('responseLogprobs'));
+  if (config['logprobs'] !== undefined) check.number(...field('logprobs'), 0, 20, true);
+  if (config['mediaResolution'] !== undefined) check.string(...field('mediaResolution'));
+  if (config['enableEnhancedCivicAnswers'] !== undefined) check.boolean(...field('enableEnhancedCivicAnswers'));
+  for (const key of ['responseSchema', 'speechConfig', 'imageConfig']) {
+    if (config[key] !== undefined) check.record(...field(key));
+  }
+
+  if (config['stopSequences'] !== undefined) {
+    const stops = check.array(...field('stopSequences'));
+    if (stops && stops.length > MAX_STOP_SEQUENCES) {
+      check.fail(join(path, 'stopSequences'), `Expected at most ${MAX_STOP_SEQUENCES} items`);
+    }
+    stops?.forEach((stop, i) => check.string(stop, join(join(path, 'stopSequences'), i)));
+  }
+  if (config['responseModalities'] !== undefined) {
+    const modalities = check.array(...field('responseModalities'));
+    modalities?.forEach((modality, i) =>
+      check.oneOf(modality, join(join(path, 'responseModalities'), i), RESPONSE_MODALITIES)
+    );
+  }
+}
+
+function checkSafetySettings(check: Checker, value: unknown, path: string): void {
+  const settings = check.array(value, path);
+  settings?.forEach((item, i) => {
+    const settingPath = join(path, i);
+    const setting = check.record(item, settingPath);
+    if (!setting) return;
+    check.onlyKeys(setting, settingPath, ['category', 'threshold']);
+    check.string(setting['category'], join(settingPath, 'category'));
+    check.string(setting['threshold'], join(settingPath, 'threshold'));
+  });
+}
+
+/**
+ * Validate a parsed generateContent body.
+ * Returns an empty list when the body is valid.
+ */
+export function validate(body: unknown, limits: Limits): FieldError[] {
+  const check = new Checker(limits);
+  const request = check.record(body, '');
+  if (!request) {
+    return check.errors;
+  }
+  check.onlyKeys(request, '', [
+    'contents',
+    'systemInstruction',
+    'tools',
+    'toolConfig',
+    'generationConfig',
+    'safetySettings',
+    'cachedContent',
+  ]);
+
+  const contents = check.array(request['contents'], 'contents');
+  if (contents) {
+    if (contents.length > limits.maxMessages) {
+      check.fail('contents', `Expected at most ${limits.maxMessages} messages`);
+    }
+    contents.forEach((content, i) => checkContent(check, content, join('contents', i), true));
+  }
+
+  if (request['systemInstruction'] !== undefined) {
+    checkContent(check, request['systemInstruction'], 'systemInstruction', false);
+  }
+  if (request['tools'] !== undefined) {
+    checkTools(check, request['tools'], 'tools');
+  }
+  if (request['toolConfig'] !== undefined) {
+    check.record(request['toolConfig'], 'toolConfig');
+  }
+  if (request['generationConfig'] !== undefined) {
+    checkGenerationConfig(check, request['generationConfig'], 'generationConfig');
+  }
+  if (request['safetySettings'] !== undefined) {
+    checkSafetySettings(check, request['safetySettings'], 'safetySettings');
+  }
+  if (request['cachedContent'] !== undefined) {
+    const name = check.string(request['cachedContent'], 'cachedContent');
+    if (name !== null && !CACHED_CONTENT_PATTERN.test(name)) {
+      check.fail('cachedContent', 'Expected a name of the form cachedContents/<id>');
+    }
+  }
+
+  return check.errors;
+}
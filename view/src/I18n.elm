@@ -19,11 +19,13 @@ module I18n exposing
     , scientificAssistant
     , send
     , settings
+    , stop
     , switchToDarkTheme
     , switchToEnglish
     , switchToLightTheme
     , switchToRussian
     , toggleLanguage
+    , useSystemTheme
     )
 
 {-| Internationalization module for English and Russian translations.
@@ -133,7 +135,8 @@ pluralRu count one few many =
     String.fromInt count ++ " " ++ form
 
 
-{-| "Scientific Assistant".
+{-| "Scientific Assistant". The bridge sets the same name as the document
+title from `translations/translations.yaml`; keep the two in step.
 -}
 scientificAssistant : Language -> String
 scientificAssistant lang =
@@ -169,6 +172,18 @@ inputHint lang =
             "Напишите сообщение и нажмите Ctrl+Enter.\nПрикрепите файлы для анализа."
 
 
+{-| "Stop".
+-}
+stop : Language -> String
+stop lang =
+    case lang of
+        En ->
+            "Stop"
+
+        Ru ->
+            "Остановить"
+
+
 {-| "Switch to light theme".
 -}
 switchToLightTheme : Language -> String
@@ -193,6 +208,18 @@ switchToDarkTheme lang =
             "Переключить на тёмную тему"
 
 
+{-| "Use system theme".
+-}
+useSystemTheme : Language -> String
+useSystemTheme lang =
+    case lang of
+        En ->
+            "Use system theme"
+
+        Ru ->
+            "Использовать системную тему"
+
+
 {-| "Switch to English".
 -}
 switchToEnglish : Language -> String
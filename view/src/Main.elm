@@ -4,7 +4,7 @@
 -}
 
 
-port module Main exposing (Flags, Model, Msg, init, main, update, view)
+port module Main exposing (Flags, Model, Msg(..), init, main, subscriptions, update, view)
 
 {-| Scientific Assistant application.
 -}
@@ -16,6 +16,9 @@ import Html.Attributes as Attrs
 import Html.Events as Events
 import I18n
 import Json.Decode as Decode
+import Json.Encode as Encode
+import Shared.Message as Message
+import Shared.Stream as Stream
 import UI.Icons as Icons
 import UI.Menu as Menu
 import UI.Theme as Theme
@@ -28,15 +31,17 @@ main =
     Browser.element
         { init = init
         , update = update
-        , subscriptions = \_ -> Sub.none
+        , subscriptions = subscriptions
         , view = view
         }
 
 
-{-| Flags passed from JavaScript.
+{-| Flags passed from JavaScript: the saved theme preference, the theme it
+currently resolves to, and the saved language.
 -}
 type alias Flags =
     { savedTheme : Maybe String
+    , resolvedTheme : Maybe String
     , savedLanguage : Maybe String
     }
 
@@ -48,9 +53,14 @@ type alias Flags =
 {-| Application state.
 -}
 type alias Model =
-    { theme : Theme.Theme
+    { themePreference : Theme.Preference
+    , theme : Theme.Theme
     , language : I18n.Language
     , inputText : String
+    , messages : List Message.Message
+    , streaming : Maybe String
+    , streamCount : Int
+    , streamError : Maybe String
     }
 
 
@@ -59,9 +69,15 @@ type alias Model =
 init : Flags -> ( Model, Cmd Msg )
 init flags =
     let
+        themePreference : Theme.Preference
+        themePreference =
+            flags.savedTheme
+                |> Maybe.andThen Theme.preferenceFromString
+                |> Maybe.withDefault Theme.System
+
         theme : Theme.Theme
         theme =
-            flags.savedTheme
+            flags.resolvedTheme
                 |> Maybe.andThen Theme.fromString
                 |> Maybe.withDefault Theme.default
 
@@ -71,9 +87,14 @@ init flags =
                 |> Maybe.andThen I18n.languageFromString
                 |> Maybe.withDefault I18n.defaultLanguage
     in
-    ( { theme = theme
+    ( { themePreference = themePreference
+      , theme = theme
       , language = language
       , inputText = ""
+      , messages = []
+      , streaming = Nothing
+      , streamCount = 0
+      , streamError = Nothing
       }
     , Cmd.none
     )
@@ -87,10 +108,13 @@ init flags =
 -}
 type Msg
     = ThemeToggled
+    | ThemeResolved String
     | LanguageToggled
     | HelpRequested
     | InputChanged String
     | SubmitRequested
+    | StopRequested
+    | StreamEventReceived Decode.Value
 
 
 {-| Handle messages and update state.
@@ -100,14 +124,22 @@ update msg model =
     case msg of
         ThemeToggled ->
             let
-                newTheme : Theme.Theme
-                newTheme =
-                    Theme.toggle model.theme
+                newPreference : Theme.Preference
+                newPreference =
+                    Theme.cycle model.themePreference
             in
-            ( { model | theme = newTheme }
-            , setTheme (Theme.toString newTheme)
+            ( { model | themePreference = newPreference }
+            , setTheme (Theme.preferenceToString newPreference)
             )
 
+        ThemeResolved value ->
+            case Theme.fromString value of
+                Just theme ->
+                    ( { model | theme = theme }, Cmd.none )
+
+                Nothing ->
+                    ( model, Cmd.none )
+
         LanguageToggled ->
             let
                 newLanguage : I18n.Language
@@ -127,18 +159,83 @@ update msg model =
 
         SubmitRequested ->
             if canSend model then
-                -- TODO: Send message to API in future phase
-                ( { model | inputText = "" }, Cmd.none )
+                let
+                    streamId : String
+                    streamId =
+                        "stream-" ++ String.fromInt model.streamCount
+
+                    userMessage : Message.Message
+                    userMessage =
+                        { role = Message.User, content = [ Message.Text (String.trim model.inputText) ] }
+
+                    messages : List Message.Message
+                    messages =
+                        model.messages ++ [ userMessage ]
+                in
+                ( { model
+                    | inputText = ""
+                    , messages = messages
+                    , streaming = Just streamId
+                    , streamCount = model.streamCount + 1
+                    , streamError = Nothing
+                  }
+                , geminiStream (Stream.start { id = streamId, model = chatModel, messages = messages })
+                )
 
             else
                 ( model, Cmd.none )
 
+        StopRequested ->
+            case model.streaming of
+                Just streamId ->
+                    ( { model | streaming = Nothing }, geminiCancel streamId )
+
+                Nothing ->
+                    ( model, Cmd.none )
+
+        StreamEventReceived value ->
+            case Decode.decodeValue Stream.decodeEvent value of
+                Ok event ->
+                    if model.streaming == Just event.id then
+                        ( applyDelta event.delta model, Cmd.none )
+
+                    else
+                        ( model, Cmd.none )
+
+                Err _ ->
+                    ( model, Cmd.none )
+
+
+{-| Apply a delta of the stream in flight.
+-}
+applyDelta : Stream.Delta -> Model -> Model
+applyDelta delta model =
+    case delta of
+        Stream.TextDelta text ->
+            { model | messages = Message.appendReply text model.messages }
+
+        Stream.Done ->
+            { model | streaming = Nothing }
+
+        Stream.Failed message ->
+            { model | streaming = Nothing, streamError = Just message }
+
+        Stream.Other ->
+            model
+
+
+{-| Model alias the proxy answers chat messages with.
+-}
+chatModel : String
+chatModel =
+    "fast"
+
 
 {-| Check if send button should be enabled.
 -}
 canSend : Model -> Bool
 canSend model =
-    String.trim model.inputText /= ""
+    String.trim model.inputText /= "" && model.streaming == Nothing
 
 
 {-| Calculate textarea rows based on content.
@@ -157,15 +254,42 @@ textareaRows text =
 
 
 
+-- SUBSCRIPTIONS
+
+
+{-| Follow the theme JavaScript resolves, e.g. when the OS color scheme
+flips, and the deltas of streamed replies.
+-}
+subscriptions : Model -> Sub Msg
+subscriptions _ =
+    Sub.batch
+        [ themeChanged ThemeResolved
+        , geminiDelta StreamEventReceived
+        ]
+
+
+
 -- PORTS
 
 
 port setTheme : String -> Cmd msg
 
 
+port themeChanged : (String -> msg) -> Sub msg
+
+
 port setLanguage : String -> Cmd msg
 
 
+port geminiStream : Encode.Value -> Cmd msg
+
+
+port geminiCancel : String -> Cmd msg
+
+
+port geminiDelta : (Decode.Value -> msg) -> Sub msg
+
+
 
 -- VIEW
 
@@ -217,7 +341,7 @@ viewHeader model =
         ]
 
 
-{-| Menu item ID: toggle theme action.
+{-| Menu item ID: theme action, which steps through light, dark and system.
 -}
 menuItemToggleTheme : String
 menuItemToggleTheme =
@@ -245,19 +369,25 @@ settingsMenuItems model =
     [ Menu.Action
         { id = menuItemToggleTheme
         , icon =
-            case model.theme of
-                Theme.Light ->
+            case Theme.cycle model.themePreference of
+                Theme.Chosen Theme.Light ->
+                    Icons.sun
+
+                Theme.Chosen Theme.Dark ->
                     Icons.moon
 
-                Theme.Dark ->
-                    Icons.sun
+                Theme.System ->
+                    Icons.computer
         , label =
-            case model.theme of
-                Theme.Light ->
+            case Theme.cycle model.themePreference of
+                Theme.Chosen Theme.Light ->
+                    I18n.switchToLightTheme model.language
+
+                Theme.Chosen Theme.Dark ->
                     I18n.switchToDarkTheme model.language
 
-                Theme.Dark ->
-                    I18n.switchToLightTheme model.language
+                Theme.System ->
+                    I18n.useSystemTheme model.language
         , suffix = Nothing
         }
     , Menu.Action
@@ -294,15 +424,50 @@ settingsMenuItems model =
 viewMain : Model -> Html.Html Msg
 viewMain model =
     Html.main_ [ Attrs.class "flex-1 overflow-y-auto p-6" ]
-        [ Html.div [ Attrs.class "max-w-md mx-auto text-center py-20" ]
-            [ Html.p [ Attrs.class "text-secondary mb-2" ]
-                [ Html.text (I18n.appDescription model.language) ]
-            , Html.p [ Attrs.class "text-sm text-tertiary mt-4 whitespace-pre-line" ]
-                [ Html.text (I18n.inputHint model.language) ]
-            ]
+        [ if List.isEmpty model.messages then
+            Html.div [ Attrs.class "max-w-md mx-auto text-center py-20" ]
+                [ Html.p [ Attrs.class "text-secondary mb-2" ]
+                    [ Html.text (I18n.appDescription model.language) ]
+                , Html.p [ Attrs.class "text-sm text-tertiary mt-4 whitespace-pre-line" ]
+                    [ Html.text (I18n.inputHint model.language) ]
+                ]
+
+          else
+            Html.div [ Attrs.class "flex flex-col gap-4" ]
+                (List.map viewMessage model.messages ++ viewStreamError model.streamError)
         ]
 
 
+{-| Render one chat message as a bubble.
+-}
+viewMessage : Message.Message -> Html.Html Msg
+viewMessage message =
+    Html.div
+        [ Attrs.class
+            (case message.role of
+                Message.User ->
+                    "message message-user whitespace-pre-wrap"
+
+                Message.Assistant ->
+                    "message message-assistant whitespace-pre-wrap"
+            )
+        , Attrs.testId "message"
+        ]
+        [ Html.text (Message.text message) ]
+
+
+{-| Render why the last reply failed, if it did.
+-}
+viewStreamError : Maybe String -> List (Html.Html Msg)
+viewStreamError streamError =
+    case streamError of
+        Just message ->
+            [ Html.p [ Attrs.class "text-sm text-error", Attrs.testId "stream-error" ] [ Html.text message ] ]
+
+        Nothing ->
+            []
+
+
 {-| Render input area with footer styling.
 -}
 viewInput : Model -> Html.Html Msg
@@ -329,16 +494,28 @@ viewInput model =
             ]
             []
 
-        -- Right: send button
-        , Html.button
-            [ Attrs.class "btn btn-primary btn-icon"
-            , Attrs.attribute "aria-label" (I18n.send model.language)
-            , Attrs.title (I18n.send model.language)
-            , Attrs.testId "send-button"
-            , Attrs.disabled (not (canSend model))
-            , Events.onClick SubmitRequested
-            ]
-            [ Icons.toHtml Icons.Medium Icons.send ]
+        -- Right: send button, or stop while a reply streams
+        , case model.streaming of
+            Just _ ->
+                Html.button
+                    [ Attrs.class "btn btn-secondary btn-icon"
+                    , Attrs.attribute "aria-label" (I18n.stop model.language)
+                    , Attrs.title (I18n.stop model.language)
+                    , Attrs.testId "stop-button"
+                    , Events.onClick StopRequested
+                    ]
+                    [ Icons.toHtml Icons.Medium Icons.close ]
+
+            Nothing ->
+                Html.button
+                    [ Attrs.class "btn btn-primary btn-icon"
+                    , Attrs.attribute "aria-label" (I18n.send model.language)
+                    , Attrs.title (I18n.send model.language)
+                    , Attrs.testId "send-button"
+                    , Attrs.disabled (not (canSend model))
+                    , Events.onClick SubmitRequested
+                    ]
+                    [ Icons.toHtml Icons.Medium Icons.send ]
         ]
 
 
@@ -0,0 +1,99 @@
+{- This Source Code Form is subject to the terms of the Mozilla Public
+   License, v. 2.0. If a copy of the MPL was not distributed with this
+   file, You can obtain one at https://mozilla.org/MPL/2.0/.
+-}
+
+
+module Shared.Message exposing (ContentPart(..), Message, Role(..), appendReply, encode, text)
+
+{-| Chat messages, mirrored by `bridge/src/gemini/message.ts`.
+
+The bridge turns encoded messages into Gemini request bodies, so the JSON
+shape here must match its decoder.
+
+-}
+
+import Json.Encode as Encode
+
+
+{-| Who wrote a message.
+-}
+type Role
+    = User
+    | Assistant
+
+
+{-| One piece of message content.
+-}
+type ContentPart
+    = Text String
+
+
+{-| A message in the conversation.
+-}
+type alias Message =
+    { role : Role
+    , content : List ContentPart
+    }
+
+
+{-| All text of a message, joined.
+-}
+text : Message -> String
+text message =
+    message.content
+        |> List.map
+            (\part ->
+                case part of
+                    Text value ->
+                        value
+            )
+        |> String.concat
+
+
+{-| Add streamed reply text to the conversation, continuing the last
+message when it is already the assistant's.
+-}
+appendReply : String -> List Message -> List Message
+appendReply value messages =
+    case List.reverse messages of
+        last :: earlier ->
+            if last.role == Assistant then
+                List.reverse ({ last | content = last.content ++ [ Text value ] } :: earlier)
+
+            else
+                messages ++ [ { role = Assistant, content = [ Text value ] } ]
+
+        [] ->
+            [ { role = Assistant, content = [ Text value ] } ]
+
+
+{-| Encode a message for the bridge.
+-}
+encode : Message -> Encode.Value
+encode message =
+    Encode.object
+        [ ( "role"
+          , Encode.string
+                (case message.role of
+                    User ->
+                        "user"
+
+                    Assistant ->
+                        "assistant"
+                )
+          )
+        , ( "content", Encode.list encodePart message.content )
+        ]
+
+
+{-| Encode one content part, tagged with its `type`.
+-}
+encodePart : ContentPart -> Encode.Value
+encodePart part =
+    case part of
+        Text value ->
+            Encode.object
+                [ ( "type", Encode.string "text" )
+                , ( "text", Encode.string value )
+                ]
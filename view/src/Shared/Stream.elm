@@ -0,0 +1,78 @@
+{- This Source Code Form is subject to the terms of the Mozilla Public
+   License, v. 2.0. If a copy of the MPL was not distributed with this
+   file, You can obtain one at https://mozilla.org/MPL/2.0/.
+-}
+
+
+module Shared.Stream exposing (Delta(..), Event, decodeEvent, start)
+
+{-| Streamed replies through the `geminiStream`, `geminiCancel` and
+`geminiDelta` ports, run by `bridge/src/gemini/streams.ts`.
+
+Every stream ends with exactly one `Done` or `Failed`.
+
+-}
+
+import Json.Decode as Decode
+import Json.Encode as Encode
+import Shared.Message as Message
+
+
+{-| One step of a streamed reply. Thoughts, images and grounding are not
+shown yet and arrive as `Other`.
+-}
+type Delta
+    = TextDelta String
+    | Done
+    | Failed String
+    | Other
+
+
+{-| A delta tagged with the ID of the stream it belongs to.
+-}
+type alias Event =
+    { id : String
+    , delta : Delta
+    }
+
+
+{-| Encode a stream start: its ID, the model alias and the conversation.
+-}
+start : { id : String, model : String, messages : List Message.Message } -> Encode.Value
+start request =
+    Encode.object
+        [ ( "id", Encode.string request.id )
+        , ( "model", Encode.string request.model )
+        , ( "messages", Encode.list Message.encode request.messages )
+        ]
+
+
+{-| Decode a `geminiDelta` event.
+-}
+decodeEvent : Decode.Decoder Event
+decodeEvent =
+    Decode.map2 Event
+        (Decode.field "id" Decode.string)
+        (Decode.field "delta" decodeDelta)
+
+
+{-| Decode a delta by its `type`.
+-}
+decodeDelta : Decode.Decoder Delta
+decodeDelta =
+    Decode.field "type" Decode.string
+        |> Decode.andThen
+            (\kind ->
+                case kind of
+                    "text" ->
+                        Decode.map TextDelta (Decode.field "text" Decode.string)
+
+                    "done" ->
+                        Decode.succeed Done
+
+                    "error" ->
+                        Decode.map Failed (Decode.field "message" Decode.string)
+
+                    _ ->
+                        Decode.succeed Other
+            )
@@ -13,6 +13,7 @@ module UI.Icons exposing
     , chevronUp
     , clock
     , close
+    , computer
     , copy
     , export
     , globe
@@ -180,6 +181,13 @@ moon =
     SinglePath "M21.752 15.002A9.72 9.72 0 0 1 18 15.75c-5.385 0-9.75-4.365-9.75-9.75 0-1.33.266-2.597.748-3.752A9.753 9.753 0 0 0 3 11.25C3 16.635 7.365 21 12.75 21a9.753 9.753 0 0 0 9.002-5.998Z"
 
 
+{-| Icon representing the system color scheme.
+-}
+computer : Icon
+computer =
+    SinglePath "M9 17.25v1.007a3 3 0 0 1-.879 2.122L7.5 21h9l-.621-.621A3 3 0 0 1 15 18.257V17.25m6-12V15a2.25 2.25 0 0 1-2.25 2.25H5.25A2.25 2.25 0 0 1 3 15V5.25m18 0A2.25 2.25 0 0 0 18.75 3H5.25A2.25 2.25 0 0 0 3 5.25m18 0V12a2.25 2.25 0 0 1-2.25 2.25H5.25A2.25 2.25 0 0 1 3 12V5.25"
+
+
 {-| Icon for deleting items.
 -}
 trash : Icon
@@ -4,11 +4,12 @@
 -}
 
 
-module UI.Theme exposing (Theme(..), default, fromString, toString, toggle)
+module UI.Theme exposing (Preference(..), Theme(..), cycle, default, fromString, preferenceFromString, preferenceToString, toString, toggle)
 
 {-| Theme management for Scientific Assistant.
 
-Provides light and dark theme variants with string serialization.
+Provides light and dark theme variants with string serialization, and the
+saved preference, which can follow the system color scheme instead.
 
 -}
 
@@ -20,6 +21,13 @@ type Theme
     | Dark
 
 
+{-| Theme preference: a chosen theme, or whatever the system uses.
+-}
+type Preference
+    = Chosen Theme
+    | System
+
+
 {-| Default theme (Light).
 -}
 default : Theme
@@ -64,3 +72,42 @@ fromString str =
 
         _ ->
             Nothing
+
+
+{-| Step through light, dark and system.
+-}
+cycle : Preference -> Preference
+cycle preference =
+    case preference of
+        Chosen Light ->
+            Chosen Dark
+
+        Chosen Dark ->
+            System
+
+        System ->
+            Chosen Light
+
+
+{-| Convert preference to string representation.
+-}
+preferenceToString : Preference -> String
+preferenceToString preference =
+    case preference of
+        Chosen theme ->
+            toString theme
+
+        System ->
+            "system"
+
+
+{-| Parse preference from string representation.
+-}
+preferenceFromString : String -> Maybe Preference
+preferenceFromString str =
+    case str of
+        "system" ->
+            Just System
+
+        _ ->
+            Maybe.map Chosen (fromString str)
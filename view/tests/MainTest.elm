@@ -9,12 +9,19 @@ module MainTest exposing (suite)
 {-| Tests for Main module.
 -}
 
+import Expect
 import Extra.ProgramTest as ProgramTest
 import Extra.Selector as Selector
+import Json.Decode as Decode
+import Json.Encode as Encode
 import Main
 import ProgramTest
+import Shared.Message as Message
+import SimulatedEffect.Ports
+import SimulatedEffect.Sub
 import Test
 import Test.Html.Selector as Selector
+import UI.Theme as Theme
 
 
 {-| Default flags for testing.
@@ -22,6 +29,7 @@ import Test.Html.Selector as Selector
 defaultFlags : Main.Flags
 defaultFlags =
     { savedTheme = Nothing
+    , resolvedTheme = Nothing
     , savedLanguage = Nothing
     }
 
@@ -35,9 +43,44 @@ start =
         , update = Main.update
         , view = Main.view
         }
+        |> ProgramTest.withSimulatedSubscriptions simulatedSubscriptions
         |> ProgramTest.start defaultFlags
 
 
+{-| Mirror of `Main.subscriptions`, which ProgramTest cannot run.
+-}
+simulatedSubscriptions : Main.Model -> SimulatedEffect.Sub.SimulatedSub Main.Msg
+simulatedSubscriptions _ =
+    SimulatedEffect.Sub.batch
+        [ SimulatedEffect.Ports.subscribe "themeChanged" Decode.string Main.ThemeResolved
+        , SimulatedEffect.Ports.subscribe "geminiDelta" Decode.value Main.StreamEventReceived
+        ]
+
+
+{-| A `geminiDelta` event as the bridge sends it.
+-}
+deltaEvent : String -> List ( String, Encode.Value ) -> Encode.Value
+deltaEvent id delta =
+    Encode.object
+        [ ( "id", Encode.string id )
+        , ( "delta", Encode.object delta )
+        ]
+
+
+{-| Messages that type a message and send it as stream `stream-0`.
+-}
+sent : List Main.Msg
+sent =
+    [ Main.InputChanged "Hello", Main.SubmitRequested ]
+
+
+{-| Model after `init` and the given messages.
+-}
+afterUpdates : Main.Flags -> List Main.Msg -> Main.Model
+afterUpdates flags msgs =
+    List.foldl (\msg model -> Tuple.first (Main.update msg model)) (Tuple.first (Main.init flags)) msgs
+
+
 {-| Main test suite.
 -}
 suite : Test.Test
@@ -92,4 +135,102 @@ suite =
                             [ Selector.testId "message-input" ]
                         |> ProgramTest.done
             ]
+        , Test.describe "theme"
+            [ Test.test "follows the system until a theme is saved" <|
+                \_ ->
+                    afterUpdates defaultFlags []
+                        |> .themePreference
+                        |> Expect.equal Theme.System
+            , Test.test "starts from the saved preference and resolved theme" <|
+                \_ ->
+                    afterUpdates { defaultFlags | savedTheme = Just "system", resolvedTheme = Just "dark" } []
+                        |> Expect.all
+                            [ .themePreference >> Expect.equal Theme.System
+                            , .theme >> Expect.equal Theme.Dark
+                            ]
+            , Test.test "toggling steps through light, dark and system" <|
+                \_ ->
+                    [ 1, 2, 3 ]
+                        |> List.map (\count -> afterUpdates defaultFlags (List.repeat count Main.ThemeToggled))
+                        |> List.map .themePreference
+                        |> Expect.equal [ Theme.Chosen Theme.Light, Theme.Chosen Theme.Dark, Theme.System ]
+            , Test.test "ThemeResolved applies the theme in effect" <|
+                \_ ->
+                    afterUpdates defaultFlags [ Main.ThemeResolved "dark" ]
+                        |> .theme
+                        |> Expect.equal Theme.Dark
+            , Test.test "ThemeResolved ignores unknown themes" <|
+                \_ ->
+                    afterUpdates { defaultFlags | resolvedTheme = Just "dark" } [ Main.ThemeResolved "sepia" ]
+                        |> .theme
+                        |> Expect.equal Theme.Dark
+            , Test.test "themeChanged updates the theme without changing the preference" <|
+                \_ ->
+                    start
+                        |> ProgramTest.simulateIncomingPort "themeChanged" (Encode.string "dark")
+                        |> ProgramTest.expectModel
+                            (Expect.all
+                                [ .theme >> Expect.equal Theme.Dark
+                                , .themePreference >> Expect.equal Theme.System
+                                ]
+                            )
+            ]
+        , Test.describe "streaming"
+            [ Test.test "sending shows the message and offers to stop" <|
+                \_ ->
+                    start
+                        |> ProgramTest.fillInByTestId "message-input" "Hello"
+                        |> ProgramTest.clickByTestId "send-button"
+                        |> ProgramTest.ensureViewHas [ Selector.text "Hello" ]
+                        |> ProgramTest.expectViewHas [ Selector.testId "stop-button" ]
+            , Test.test "sending starts a stream with the conversation" <|
+                \_ ->
+                    afterUpdates defaultFlags sent
+                        |> Expect.all
+                            [ .streaming >> Expect.equal (Just "stream-0")
+                            , .messages >> List.map Message.text >> Expect.equal [ "Hello" ]
+                            ]
+            , Test.test "streamed text builds the reply until done" <|
+                \_ ->
+                    start
+                        |> ProgramTest.fillInByTestId "message-input" "Hello"
+                        |> ProgramTest.clickByTestId "send-button"
+                        |> ProgramTest.simulateIncomingPort "geminiDelta"
+                            (deltaEvent "stream-0" [ ( "type", Encode.string "text" ), ( "text", Encode.string "Hi " ) ])
+                        |> ProgramTest.simulateIncomingPort "geminiDelta"
+                            (deltaEvent "stream-0" [ ( "type", Encode.string "text" ), ( "text", Encode.string "there" ) ])
+                        |> ProgramTest.simulateIncomingPort "geminiDelta"
+                            (deltaEvent "stream-0" [ ( "type", Encode.string "done" ) ])
+                        |> ProgramTest.ensureViewHas [ Selector.text "Hi there" ]
+                        |> ProgramTest.expectViewHas [ Selector.testId "send-button" ]
+            , Test.test "shows why a stream failed" <|
+                \_ ->
+                    start
+                        |> ProgramTest.fillInByTestId "message-input" "Hello"
+                        |> ProgramTest.clickByTestId "send-button"
+                        |> ProgramTest.simulateIncomingPort "geminiDelta"
+                            (deltaEvent "stream-0"
+                                [ ( "type", Encode.string "error" )
+                                , ( "code", Encode.string "network_error" )
+                                , ( "message", Encode.string "Failed to fetch" )
+                                ]
+                            )
+                        |> ProgramTest.expectViewHas [ Selector.testId "stream-error", Selector.text "Failed to fetch" ]
+            , Test.test "ignores deltas of other streams" <|
+                \_ ->
+                    afterUpdates defaultFlags
+                        (sent
+                            ++ [ Main.StreamEventReceived
+                                    (deltaEvent "stream-9" [ ( "type", Encode.string "text" ), ( "text", Encode.string "Stale" ) ])
+                               ]
+                        )
+                        |> .messages
+                        |> List.map Message.text
+                        |> Expect.equal [ "Hello" ]
+            , Test.test "stopping ends the stream" <|
+                \_ ->
+                    afterUpdates defaultFlags (sent ++ [ Main.StopRequested ])
+                        |> .streaming
+                        |> Expect.equal Nothing
+            ]
         ]
@@ -8,7 +8,7 @@ module UI.ThemeTest exposing (suite)
 
 {-| Tests for UI.Theme module.
 
-Verifies theme toggling and string conversion functions.
+Verifies theme toggling, preference cycling and string conversion functions.
 
 -}
 
@@ -57,4 +57,20 @@ suite =
                 "invalid"
                     |> Theme.fromString
                     |> Expect.equal Nothing
+        , Test.test "cycle steps through light, dark and system" <|
+            \_ ->
+                [ Theme.Chosen Theme.Light, Theme.Chosen Theme.Dark, Theme.System ]
+                    |> List.map Theme.cycle
+                    |> Expect.equal [ Theme.Chosen Theme.Dark, Theme.System, Theme.Chosen Theme.Light ]
+        , Test.test "preference round-trips through strings" <|
+            \_ ->
+                [ "light", "dark", "system" ]
+                    |> List.filterMap Theme.preferenceFromString
+                    |> List.map Theme.preferenceToString
+                    |> Expect.equal [ "light", "dark", "system" ]
+        , Test.test "preferenceFromString returns Nothing for invalid" <|
+            \_ ->
+                "auto"
+                    |> Theme.preferenceFromString
+                    |> Expect.equal Nothing
         ]